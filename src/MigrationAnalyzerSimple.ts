@@ -1,63 +1,170 @@
 import { readFileSync, existsSync, writeFileSync, mkdirSync } from 'fs';
 import { join, basename } from 'path';
+
 import * as semver from 'semver';
-import { BreakingChangeDownloader } from './services/BreakingChangeDownloader.js';
-import { ASTPatternScanner } from './scanners/ASTPatternScanner.js';
+
+import { CompanionAlignmentAnalyzer } from './analyzers/CompanionAlignmentAnalyzer.js';
+import { DependencyPathAnalyzer } from './analyzers/DependencyPathAnalyzer.js';
+import { FrameworkAlignmentAnalyzer } from './analyzers/FrameworkAlignmentAnalyzer.js';
+import { MaintenanceHealthAnalyzer, type MaintenanceHealthOptions } from './analyzers/MaintenanceHealthAnalyzer.js';
 import { PeerDependencyAnalyzer } from './analyzers/PeerDependencyAnalyzer.js';
-import { CacheManager } from './utils/SimpleCacheManager.js';
+import { UpgradeResolver } from './analyzers/UpgradeResolver.js';
+import { VersionConflictAnalyzer } from './analyzers/VersionConflictAnalyzer.js';
+import { ASTPatternScanner } from './scanners/ASTPatternScanner.js';
+import { BreakingChangeDataset } from './services/BreakingChangeDataset.js';
+import { BreakingChangeDownloader } from './services/BreakingChangeDownloader.js';
+import { CompatibilityDatabase, getCompatibilityLayers } from './services/CompatibilityDatabase.js';
+import { MigrationPlanner } from './services/MigrationPlanner.js';
+import { PatternLibraryService } from './services/PatternLibraryService.js';
 import { 
   MigrationConfig, 
   AnalysisReport, 
   DeprecatedPattern,
   ValidationResult,
-  BreakingChange
+  BreakingChange,
+  CompanionAlignment,
+  VersionConflict,
+  AnalyzerConfig,
+  UpgradeResolution,
+  PeerDependencyAnalysis,
+  DependencyExplanation,
+  FrameworkAlignment,
+  MaintenanceHealth,
+  RegistryLookupStats,
+  DataSource,
+  ReportMetadata,
+  ProjectFeatures,
+  MigrationPlan,
+  FixtureMissingError,
+  ValidationError
 } from './types/index.js';
+import { createCacheStore, type CacheStore } from './utils/cache/CacheStore.js';
+import { NpmRegistryClient } from './utils/NpmRegistryClient.js';
+import { BREAKING_CHANGES_DATA_DIR, COMPATIBILITY_DATA_FILE } from './utils/PackagePaths.js';
+import { resolveTargetVersion } from './utils/PeerCompatibility.js';
+import { detectProjectFeatures } from './utils/ProjectFeatures.js';
+import { describeProjectFeatures } from './utils/ReportFormatter.js';
+
+/**
+ * Analyzer settings used by the CLI; the cache section is shared with `ngma cache`
+ */
+export function createAnalyzerConfig(options: { offline?: boolean } = {}): AnalyzerConfig {
+  return {
+    registry: 'https://registry.npmjs.org',
+    timeout: 10000,
+    retries: 3,
+    maxConcurrentRequests: 10,
+    network: {
+      strictSSL: true,
+      timeout: 30000
+    },
+    cache: {
+      enabled: true,
+      ttl: 300000,
+      maxSize: 1000,
+      persistToDisk: true,
+      diskCachePath: './.migration-cache'
+    },
+    analysis: {
+      includeDevDependencies: true,
+      checkVulnerabilities: false,
+      skipOptionalPeerDeps: false,
+      excludePackages: [],
+      offlineMode: options.offline === true
+    }
+  };
+}
 
 export class MigrationAnalyzer {
   private config: MigrationConfig;
-  private cache: CacheManager;
+  private cache: CacheStore;
   private breakingChangeDownloader: BreakingChangeDownloader;
+  private patternLibrary: PatternLibraryService;
+  private compatibility: CompatibilityDatabase;
+  // Data source of each report section, see getReportMetadata()
+  private sources: Record<string, DataSource> = {};
   private patternScanner: ASTPatternScanner | null = null;
   private peerDepAnalyzer: PeerDependencyAnalyzer;
+  private versionConflictAnalyzer: VersionConflictAnalyzer;
+  private upgradeResolver: UpgradeResolver;
+  private dependencyPathAnalyzer: DependencyPathAnalyzer;
+  private frameworkAlignmentAnalyzer: FrameworkAlignmentAnalyzer;
+  private companionAlignmentAnalyzer: CompanionAlignmentAnalyzer;
+  private maintenanceHealthAnalyzer: MaintenanceHealthAnalyzer;
+  private analyzerConfig: AnalyzerConfig;
+  private npmClient: NpmRegistryClient;
   
   public fromVersion: string = '';
+  // @angular/core version installed according to the lock file, null without one
+  public installedVersion: string | null = null;
+  // Target major, used for breaking changes and update guide lookups
   public toVersion: string = '';
+  // Target as resolved from MigrationConfig.toVersion, e.g. "20.0.0-rc.1"; the major otherwise
+  public targetVersion: string = '';
   public breakingChanges: BreakingChange[] = [];
+  // Update guide options assumed for this project, set by fetchBreakingChanges()
+  public features: ProjectFeatures | null = null;
   
   constructor(config: MigrationConfig) {
     this.config = config;
-    this.cache = new CacheManager();
-    this.breakingChangeDownloader = new BreakingChangeDownloader(this.cache);
-    
-    // Create analyzer config from migration config
-    const analyzerConfig = {
-      registry: 'https://registry.npmjs.org',
-      timeout: 10000,
-      retries: 3,
-      maxConcurrentRequests: 10,
-      network: {
-        strictSSL: true,
-        timeout: 30000
-      },
-      cache: {
-        enabled: true,
-        ttl: 300000,
-        maxSize: 100,
-        persistToDisk: true,
-        diskCachePath: './.migration-cache'
-      },
-      analysis: {
-        includeDevDependencies: true,
-        checkVulnerabilities: false,
-        skipOptionalPeerDeps: false,
-        excludePackages: [],
-        offlineMode: false
-      }
-    };
+    
+    const analyzerConfig = createAnalyzerConfig({ offline: config.offline });
+    this.analyzerConfig = analyzerConfig;
+    // One cache store shared by the registry client and the breaking-change downloader
+    this.cache = createCacheStore(analyzerConfig.cache, this.config.projectPath);
+    this.breakingChangeDownloader = new BreakingChangeDownloader(
+      this.cache,
+      new BreakingChangeDataset(BREAKING_CHANGES_DATA_DIR),
+      config.offline
+    );
+    this.patternLibrary = new PatternLibraryService(this.cache, config.offline);
+    this.compatibility = new CompatibilityDatabase(
+      getCompatibilityLayers(this.config.projectPath, COMPATIBILITY_DATA_FILE)
+    );
+    const npmClient = new NpmRegistryClient(analyzerConfig, this.config.projectPath, this.cache);
+    this.npmClient = npmClient;
     
     this.peerDepAnalyzer = new PeerDependencyAnalyzer(
       this.config.projectPath, 
-      analyzerConfig
+      analyzerConfig,
+      undefined,
+      npmClient
+    );
+    this.versionConflictAnalyzer = new VersionConflictAnalyzer(
+      this.config.projectPath,
+      analyzerConfig,
+      undefined,
+      npmClient
+    );
+    this.upgradeResolver = new UpgradeResolver(
+      this.config.projectPath,
+      analyzerConfig,
+      undefined,
+      npmClient
+    );
+    this.dependencyPathAnalyzer = new DependencyPathAnalyzer(
+      this.config.projectPath,
+      analyzerConfig,
+      undefined,
+      npmClient
+    );
+    this.frameworkAlignmentAnalyzer = new FrameworkAlignmentAnalyzer(
+      this.config.projectPath,
+      analyzerConfig,
+      undefined,
+      npmClient
+    );
+    this.companionAlignmentAnalyzer = new CompanionAlignmentAnalyzer(
+      this.config.projectPath,
+      analyzerConfig,
+      undefined,
+      npmClient
+    );
+    this.maintenanceHealthAnalyzer = new MaintenanceHealthAnalyzer(
+      this.config.projectPath,
+      analyzerConfig,
+      undefined,
+      npmClient
     );
   }
   
@@ -76,25 +183,54 @@ export class MigrationAnalyzer {
       throw new Error('No @angular/core dependency found');
     }
     
+    // The lock file tells which version a range like ^17.0.0 actually installed
+    const installed = this.frameworkAlignmentAnalyzer.getInstalledVersion('@angular/core');
+    this.installedVersion = semver.valid(installed);
+    
     // Extract version number using semver for safety
-    const coercedVersion = semver.coerce(angularCore);
+    const coercedVersion = this.installedVersion
+      ? semver.parse(this.installedVersion)
+      : semver.coerce(angularCore);
     if (!coercedVersion) {
       throw new Error(`Invalid Angular version format: ${angularCore}`);
     }
     
     const majorVersion = String(coercedVersion.major);
     this.fromVersion = this.config.fromVersion || majorVersion;
-    // Always use n+1 as target version
-    this.toVersion = String(Number(this.fromVersion) + 1);
+    
+    if (this.config.toVersion) {
+      // Majors, exact versions and dist-tags such as "next", checked against the registry
+      const angularInfo = /^v?\d+$/.test(this.config.toVersion.trim())
+        ? null
+        : await this.npmClient.getPackageInfo('@angular/core');
+      this.targetVersion = resolveTargetVersion(this.config.toVersion, angularInfo);
+      this.toVersion = String(semver.coerce(this.targetVersion).major);
+      
+      if (Number(this.toVersion) < Number(this.fromVersion)) {
+        throw new ValidationError(
+          `Target Angular ${this.targetVersion} is older than the current version ${this.fromVersion}`
+        );
+      }
+    } else {
+      // Default target: the next major
+      this.toVersion = String(Number(this.fromVersion) + 1);
+      this.targetVersion = this.toVersion;
+    }
+    
+    // Peer dependencies are also checked against the target version
+    this.analyzerConfig.targetAngularVersion = this.targetVersion;
     
     return majorVersion;
   }
   
   async fetchBreakingChanges(): Promise<void> {
+    this.features = detectProjectFeatures(this.config.projectPath);
     this.breakingChanges = await this.breakingChangeDownloader.download(
       this.fromVersion,
-      this.toVersion
+      this.toVersion,
+      this.features
     );
+    this.sources.breakingChanges = this.breakingChangeDownloader.getLastSource();
   }
   
   async analyzeDependencies(): Promise<any> {
@@ -104,56 +240,41 @@ export class MigrationAnalyzer {
     const incompatibleDeps: any[] = [];
     const deprecatedDeps: any[] = [];
     
-    // Check known problematic packages
-    const problematicPackages: Record<string, any> = {
-      '@angular/flex-layout': { 
-        status: 'deprecated', 
-        alternative: '@angular/cdk/layout',
-        maxAngular: 15,
-        reason: 'Only supports Angular up to version 15'
-      },
-      '@angular/http': { 
-        status: 'removed', 
-        alternative: '@angular/common/http',
-        reason: 'Package has been removed in favor of @angular/common/http'
-      },
-      'ngx-bootstrap': { 
-        maxAngular: 16, 
-        alternative: 'ng-bootstrap',
-        reason: 'May not be compatible with latest Angular version'
+    // Known packages from the compatibility database, with the organization and project overrides
+    const targetMajor = Number(this.toVersion);
+    const declared = { ...packageJson.dependencies, ...packageJson.devDependencies };
+    for (const [pkg, currentVersion] of Object.entries<string>(declared)) {
+      const entry = this.compatibility.getEntry(pkg);
+      if (!entry) continue;
+      
+      // Check if package is incompatible with target Angular version
+      const reason = this.compatibility.getIncompatibility(pkg, targetMajor);
+      if (reason) {
+        incompatibleDeps.push({ 
+          package: pkg, 
+          currentVersion,
+          maxSupportedAngular: entry.maxAngular,
+          reason,
+          alternative: entry.replacement,
+          migrationGuide: entry.migrationGuide
+        });
       }
-    };
-    
-    for (const [pkg, info] of Object.entries(problematicPackages)) {
-      if (packageJson.dependencies?.[pkg] || packageJson.devDependencies?.[pkg]) {
-        const currentVersion = packageJson.dependencies?.[pkg] || packageJson.devDependencies?.[pkg];
-        
-        // Check if package is incompatible with target Angular version
-        if (info.maxAngular && parseInt(this.fromVersion) > info.maxAngular) {
-          incompatibleDeps.push({ 
-            package: pkg, 
-            currentVersion,
-            maxSupportedAngular: info.maxAngular,
-            reason: info.reason,
-            alternative: info.alternative
-          });
-        }
-        
-        // Also add to deprecated if marked as such
-        if (info.status === 'deprecated' || info.status === 'removed') {
-          deprecatedDeps.push({ 
-            package: pkg, 
-            status: info.status,
-            alternative: info.alternative 
-          });
-        }
+      
+      // Also add to deprecated if marked as such
+      if (entry.status === 'deprecated' || entry.status === 'removed') {
+        deprecatedDeps.push({ 
+          package: pkg, 
+          status: entry.status,
+          alternative: entry.replacement,
+          migrationGuide: entry.migrationGuide
+        });
       }
     }
     
     return {
       incompatible: incompatibleDeps,
       deprecated: deprecatedDeps,
-      total: Object.keys({...packageJson.dependencies, ...packageJson.devDependencies}).length
+      total: Object.keys(declared).length
     };
   }
   
@@ -167,10 +288,17 @@ export class MigrationAnalyzer {
     }
     
     try {
-      this.patternScanner = new ASTPatternScanner(tsconfigPath, this.fromVersion, this.toVersion);
+      this.patternScanner = new ASTPatternScanner(
+        tsconfigPath,
+        this.fromVersion,
+        this.toVersion,
+        this.patternLibrary
+      );
       await this.patternScanner.loadPatternConfigs(this.fromVersion, this.toVersion);
+      this.sources.patterns = this.patternLibrary.getLastSource();
       return this.patternScanner.scan();
     } catch (error) {
+      if (error instanceof FixtureMissingError) throw error;
       console.warn('Failed to scan patterns:', error.message);
       return [];
     }
@@ -181,7 +309,7 @@ export class MigrationAnalyzer {
       const result = await this.peerDepAnalyzer.analyze();
       
       // Transform to our expected format
-      const conflicts = result.missingPeerDeps?.map(dep => {
+      const conflicts: PeerDependencyAnalysis['conflicts'] = result.missingPeerDeps?.map(dep => {
         // Get the actual installed version
         const installedVersion = this.peerDepAnalyzer.getInstalledVersion(dep.package);
         const allDeps = this.peerDepAnalyzer.getAllDependencies();
@@ -191,7 +319,10 @@ export class MigrationAnalyzer {
         
         // Determine appropriate resolution
         let resolution: string;
-        if (actualInstalled === 'not installed') {
+        if (dep.severity === 'warning') {
+          // Optional peer that is not installed, only needed for the matching feature
+          resolution = `Optional peer of ${dep.requiredBy}, install ${dep.package}@${dep.requiredVersion} only if you use it`;
+        } else if (actualInstalled === 'not installed') {
           resolution = `npm install ${dep.package}@${dep.requiredVersion}`;
         } else if (dep.package.startsWith('@angular/') && dep.requiredBy) {
           // For Angular packages, suggest updating the package that requires the older version
@@ -215,7 +346,8 @@ export class MigrationAnalyzer {
           package: dep.package,
           required: dep.requiredVersion,
           installed: actualInstalled,
-          resolution
+          resolution,
+          severity: dep.severity
         };
       }) || [];
       
@@ -223,20 +355,125 @@ export class MigrationAnalyzer {
       result.incompatibleVersions?.forEach(inc => {
         conflicts.push({
           package: inc.package,
-          required: inc.requiredVersion,
+          required: inc.requiredVersion || `Angular ${this.toVersion} support`,
           installed: inc.currentVersion,
-          resolution: `Update to ${inc.requiredVersion}`
+          resolution: inc.requiredVersion
+            ? `Update ${inc.package} to ${inc.requiredVersion} before migrating to Angular ${this.toVersion}`
+            : `${inc.reason}. Replace or remove ${inc.package} before migrating`,
+          // Warnings only need an available upgrade, they must not block validate or CI
+          severity: inc.severity
         });
       });
       
       return { conflicts };
     } catch (error) {
+      if (error instanceof FixtureMissingError) throw error;
       console.warn('Failed to analyze peer dependencies:', error.message);
       return { conflicts: [] };
     }
   }
   
   
+  async analyzeVersionConflicts(): Promise<VersionConflict[]> {
+    try {
+      const result = await this.versionConflictAnalyzer.analyze();
+      return result.conflicts || [];
+    } catch (error) {
+      console.warn('Failed to analyze duplicate installs:', error.message);
+      return [];
+    }
+  }
+  
+  async analyzeFrameworkAlignment(): Promise<FrameworkAlignment> {
+    try {
+      return await this.frameworkAlignmentAnalyzer.checkAlignment();
+    } catch (error) {
+      if (error instanceof FixtureMissingError) throw error;
+      console.warn('Failed to check @angular/* alignment:', error.message);
+      return { groups: [], misaligned: [] };
+    }
+  }
+  
+  async analyzeCompanionAlignment(): Promise<CompanionAlignment[]> {
+    try {
+      return await this.companionAlignmentAnalyzer.align(this.targetVersion);
+    } catch (error) {
+      if (error instanceof FixtureMissingError) throw error;
+      console.warn('Failed to align companion packages:', error.message);
+      return [];
+    }
+  }
+  
+  async analyzeMaintenanceHealth(options: MaintenanceHealthOptions = {}): Promise<MaintenanceHealth | undefined> {
+    try {
+      return await this.maintenanceHealthAnalyzer.assess(this.targetVersion, options);
+    } catch (error) {
+      if (error instanceof FixtureMissingError) throw error;
+      console.warn('Failed to check dependency maintenance:', error.message);
+      return undefined;
+    }
+  }
+  
+  async resolveUpgrade(): Promise<UpgradeResolution> {
+    return this.upgradeResolver.resolve(this.targetVersion);
+  }
+  
+  /**
+   * One hop per major from the detected version to targetVersion, each with its breaking
+   * changes, requirements, peer updates and schematics
+   */
+  async planMigration(targetVersion: string): Promise<MigrationPlan> {
+    const packageJson = JSON.parse(readFileSync(join(this.config.projectPath, 'package.json'), 'utf-8'));
+    const toVersion = String(semver.coerce(targetVersion)?.major ?? targetVersion);
+    
+    this.features = detectProjectFeatures(this.config.projectPath);
+    const planner = new MigrationPlanner(this.breakingChangeDownloader, this.upgradeResolver);
+    const hops = await planner.plan(
+      this.fromVersion,
+      targetVersion,
+      { ...packageJson.dependencies, ...packageJson.devDependencies },
+      this.features
+    );
+    this.sources.breakingChanges = planner.getBreakingChangeSource();
+    
+    return {
+      projectPath: this.config.projectPath,
+      fromVersion: this.fromVersion,
+      toVersion,
+      hops,
+      packageManager: this.upgradeResolver.getPackageManager(),
+      metadata: this.getReportMetadata()
+    };
+  }
+  
+  getRegistryStats(): RegistryLookupStats {
+    return this.npmClient.getLookupStats();
+  }
+  
+  /**
+   * Network state and data source of each section, so a report built offline
+   * or on expired data says so
+   */
+  getReportMetadata(): ReportMetadata {
+    const offline = this.config.offline === true;
+    const networkAccessible = !offline && this.npmClient.isNetworkAccessible();
+    
+    let dependencies: DataSource = networkAccessible ? 'network' : 'cache';
+    if (this.npmClient.getLookupStats().stale > 0) dependencies = 'stale-cache';
+    
+    return {
+      timestamp: new Date().toISOString(),
+      offline,
+      networkAccessible,
+      sources: { ...this.sources, dependencies },
+      features: this.features ?? undefined,
+    };
+  }
+  
+  explainPackage(packageName: string): DependencyExplanation {
+    return this.dependencyPathAnalyzer.explain(packageName);
+  }
+  
   async saveReport(report: AnalysisReport, filename: string): Promise<void> {
     const dir = join(this.config.projectPath, '.ngma');
     
@@ -268,7 +505,11 @@ export class MigrationAnalyzer {
       ? basename(process.cwd())
       : basename(report.projectPath);
     markdown += `**Project:** ${projectName}\n`;
-    markdown += `**Migration:** Angular ${report.fromVersion} → ${report.toVersion}\n\n`;
+    markdown += `**Migration:** Angular ${report.fromVersion} → ${report.targetVersion || report.toVersion}\n`;
+    if (report.metadata?.features) {
+      markdown += `**Assumed Features:** ${describeProjectFeatures(report.metadata.features)}\n`;
+    }
+    markdown += `\n`;
     
     markdown += `## Summary\n\n`;
     markdown += `- **Files Impacted:** ${report.summary.filesImpacted}\n`;
@@ -359,6 +600,23 @@ export class MigrationAnalyzer {
       }
     }
     
+    const runtimeConflicts = (report.versionConflicts || []).filter(c => c.severity === 'error');
+    if (runtimeConflicts.length > 0) {
+      markdown += `## Duplicate Installs\n\n`;
+      markdown += `These packages must be installed only once, multiple copies break the application at runtime:\n\n`;
+      
+      runtimeConflicts.forEach(conflict => {
+        markdown += `### ${conflict.package}\n\n`;
+        conflict.versions.forEach(copy => {
+          markdown += `- **${copy.version}** required by:\n`;
+          copy.requiredBy.forEach(chain => {
+            markdown += `  - \`${chain}\`\n`;
+          });
+        });
+        markdown += `\n`;
+      });
+    }
+    
     return markdown;
   }
   
@@ -377,14 +635,26 @@ export class MigrationAnalyzer {
   
   async validatePeerDependencies(): Promise<ValidationResult> {
     const peerDeps = await this.analyzePeerDependencies();
+    // Optional peers that are not installed do not block the migration
+    const conflicts = peerDeps.conflicts.filter((c: any) => c.severity !== 'warning');
     return {
-      passed: peerDeps.conflicts.length === 0,
-      issues: peerDeps.conflicts.map((c: any) => 
+      passed: conflicts.length === 0,
+      issues: conflicts.map((c: any) => 
         `${c.package}: requires ${c.required} but found ${c.installed}`
       )
     };
   }
   
+  async validateFrameworkAlignment(): Promise<ValidationResult> {
+    const alignment = await this.analyzeFrameworkAlignment();
+    return {
+      passed: alignment.misaligned.length === 0,
+      issues: alignment.misaligned.map(m =>
+        `${m.package}: ${m.installed} installed, ${m.expected} expected to match ${m.group}`
+      )
+    };
+  }
+  
   async validateTypeScriptConfig(): Promise<ValidationResult> {
     const tsconfigPath = join(this.config.projectPath, 'tsconfig.json');
     
@@ -3,13 +3,19 @@ import * as path from 'path';
 
 import * as semver from 'semver';
 
+import { PnpmLockParser } from '../parsers/PnpmLockParser.js';
+import { YarnLockParser } from '../parsers/YarnLockParser.js';
 import type {
   PackageInfo,
   NpmLockFile,
   AnalysisResult,
   AnalyzerConfig,
+  DependencyType,
+  LockDependencyEdge,
+  PackageManager,
 } from '../types/index.js';
 import { ParseError, ValidationError } from '../types/index.js';
+import { isFrameworkPackage } from '../utils/FrameworkPackages.js';
 import { NpmRegistryClient } from '../utils/NpmRegistryClient.js';
 
 export abstract class BaseAnalyzer {
@@ -18,7 +24,7 @@ export abstract class BaseAnalyzer {
   protected projectRoot: string;
   protected npmClient: NpmRegistryClient;
   protected config: AnalyzerConfig;
-  protected packageManager: 'npm' | 'pnpm' | 'yarn';
+  protected packageManager: PackageManager;
   protected progressCallback?: (progress: any) => void;
 
   constructor(
@@ -30,7 +36,7 @@ export abstract class BaseAnalyzer {
     this.projectRoot = path.resolve(projectRoot);
     this.config = config;
     this.progressCallback = progressCallback;
-    this.npmClient = npmClient || new NpmRegistryClient(config);
+    this.npmClient = npmClient || new NpmRegistryClient(config, this.projectRoot);
 
     try {
       this.packageJson = this.loadPackageJson();
@@ -76,15 +82,14 @@ export abstract class BaseAnalyzer {
       return this.loadNpmLock(npmLockPath);
     }
 
-    // Yarn or pnpm lock exists but not supported
-    if (this.fileExists(yarnLockPath)) {
-      console.warn('Yarn lock file detected but not supported');
-      return null;
+    // Try pnpm (v5, v6 and v9 formats)
+    if (this.fileExists(pnpmLockPath)) {
+      return this.loadPnpmLock(pnpmLockPath);
     }
 
-    if (this.fileExists(pnpmLockPath)) {
-      console.warn('Pnpm lock file detected but not supported');
-      return null;
+    // Try yarn (classic v1 and Berry)
+    if (this.fileExists(yarnLockPath)) {
+      return this.loadYarnLock(yarnLockPath);
     }
 
     console.warn('No lock file found - analysis may be incomplete');
@@ -110,7 +115,17 @@ export abstract class BaseAnalyzer {
     }
   }
 
-  private detectPackageManager(): 'npm' | 'pnpm' | 'yarn' {
+  private loadPnpmLock(lockPath: string): NpmLockFile {
+    const content = fs.readFileSync(lockPath, 'utf8');
+    return new PnpmLockParser().parse(content, this.packageJson);
+  }
+
+  private loadYarnLock(lockPath: string): NpmLockFile {
+    const content = fs.readFileSync(lockPath, 'utf8');
+    return new YarnLockParser().parse(content, this.packageJson);
+  }
+
+  private detectPackageManager(): PackageManager {
     if (this.fileExists(path.join(this.projectRoot, 'pnpm-lock.yaml'))) {
       return 'pnpm';
     }
@@ -120,6 +135,10 @@ export abstract class BaseAnalyzer {
     return 'npm';
   }
 
+  public getPackageManager(): PackageManager {
+    return this.packageManager;
+  }
+
   public getAllDependencies(): Record<string, string> {
     const allDeps = {
       ...this.packageJson.dependencies,
@@ -157,6 +176,13 @@ export abstract class BaseAnalyzer {
     );
   }
 
+  /**
+   * Packages publiés par l'équipe Angular, versionnés avec le framework et mis à jour par ng update
+   */
+  protected isFrameworkPackage(packageName: string): boolean {
+    return isFrameworkPackage(packageName);
+  }
+
   /**
    * Obtient la version réellement installée d'un package depuis le lock file
    * @param packageName Nom du package
@@ -213,6 +239,72 @@ export abstract class BaseAnalyzer {
     return this.getAllDependencies()[packageName] || null;
   }
 
+  /**
+   * Nom du package installé à un emplacement du lock file (`node_modules/a/node_modules/b`)
+   * @returns Nom réel (alias résolus) ou null pour la racine et les workspaces
+   */
+  protected getLockPackageName(location: string): string | null {
+    const marker = location.lastIndexOf('node_modules/');
+    if (marker < 0) return null;
+
+    const entry = this.lockFile?.packages?.[location];
+    return entry?.name || location.slice(marker + 'node_modules/'.length);
+  }
+
+  /**
+   * Résout une dépendance comme le ferait Node depuis un emplacement du lock file,
+   * en remontant les dossiers node_modules parents et en suivant les liens de workspace
+   * @returns Emplacement de la copie utilisée ou null si introuvable
+   */
+  protected resolveLockDependency(fromLocation: string, dependencyName: string): string | null {
+    const packages = this.lockFile?.packages;
+    if (!packages) return null;
+
+    let base = fromLocation;
+    for (;;) {
+      const candidate = base ? `${base}/node_modules/${dependencyName}` : `node_modules/${dependencyName}`;
+      const entry = packages[candidate];
+
+      if (entry) {
+        if (entry.link && entry.resolved && packages[entry.resolved]) {
+          return entry.resolved;
+        }
+        return candidate;
+      }
+
+      if (!base) return null;
+      const parent = base.lastIndexOf('/node_modules/');
+      base = parent >= 0 ? base.slice(0, parent) : '';
+    }
+  }
+
+  /**
+   * Dépendances déclarées par une entrée du lock file, résolues vers la copie utilisée
+   * (les devDependencies ne sont installées que pour la racine et les workspaces)
+   */
+  protected getLockDependencyEdges(location: string): LockDependencyEdge[] {
+    const entry = this.lockFile?.packages?.[location];
+    if (!entry || entry.link) return [];
+
+    const types: DependencyType[] = ['dependencies', 'optionalDependencies', 'peerDependencies'];
+    if (!location.includes('node_modules/')) types.push('devDependencies');
+
+    const edges: LockDependencyEdge[] = [];
+    const seen = new Set<string>();
+
+    for (const type of types) {
+      for (const [name, range] of Object.entries(entry[type] || {})) {
+        if (seen.has(name)) continue;
+        seen.add(name);
+
+        const target = this.resolveLockDependency(location, name);
+        if (target && target !== location) edges.push({ name, range, type, target });
+      }
+    }
+
+    return edges;
+  }
+
   protected fileExists(filePath: string): boolean {
     try {
       return fs.statSync(filePath).isFile();
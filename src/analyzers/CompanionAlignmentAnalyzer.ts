@@ -0,0 +1,241 @@
+import * as semver from 'semver';
+
+import type { AnalysisResult, CompanionAlignment } from '../types/index.js';
+import { ValidationError } from '../types/index.js';
+import type { NpmPackageInfo, NpmVersionInfo } from '../utils/NpmRegistryClient.js';
+import { installCommand } from '../utils/PackageManagerCommands.js';
+import { acceptsTarget, sortedVersions } from '../utils/PeerCompatibility.js';
+
+import { BaseAnalyzer } from './BaseAnalyzer.js';
+
+interface CompanionEcosystem {
+  name: string;
+  pattern: RegExp;
+  // Tous les paquets de la famille sont publiés à la même version
+  lockstep: boolean;
+}
+
+/**
+ * Familles de bibliothèques dont les versions suivent les majeures d'Angular
+ */
+const COMPANION_ECOSYSTEMS: CompanionEcosystem[] = [
+  {
+    name: 'Angular Material',
+    pattern:
+      /^@angular\/(cdk|cdk-experimental|material|material-experimental|material-[\w-]+-adapter|google-maps|youtube-player)$/,
+    lockstep: true,
+  },
+  { name: 'NgRx', pattern: /^@ngrx\//, lockstep: true },
+  { name: 'NGXS', pattern: /^@ngxs\//, lockstep: true },
+  { name: 'angular-eslint', pattern: /^(@angular-eslint\/|angular-eslint$)/, lockstep: true },
+  { name: 'Angular Builders', pattern: /^@angular-builders\//, lockstep: false },
+  { name: 'ngx-translate', pattern: /^@ngx-translate\//, lockstep: false },
+  { name: 'Transloco', pattern: /^@(jsverse|ngneat)\/transloco/, lockstep: false },
+  { name: 'ng-bootstrap', pattern: /^@ng-bootstrap\/ng-bootstrap$/, lockstep: false },
+  { name: 'AngularFire', pattern: /^@angular\/fire$/, lockstep: false },
+];
+
+/**
+ * Paquets du framework dont une peer dependency (ou à défaut une dépendance) indique
+ * la majeure d'Angular visée par une version. Leur numéro de version suit celui d'Angular.
+ */
+const ANCHOR_PACKAGES = [
+  '@angular/core',
+  '@angular/common',
+  '@angular/compiler-cli',
+  '@angular/cli',
+  '@angular/build',
+  '@angular-devkit/core',
+  '@angular-devkit/build-angular',
+];
+
+type DependencySection = 'dependencies' | 'devDependencies';
+
+interface CompanionMember {
+  name: string;
+  section: DependencySection;
+  current: string | null;
+  info: NpmPackageInfo | undefined;
+}
+
+/**
+ * Aligne les bibliothèques compagnes (Material, NgRx, angular-eslint...) sur la version
+ * Angular cible : pour chaque famille, la version exacte à installer est déduite des peer
+ * dependencies publiées sur le registry.
+ */
+export class CompanionAlignmentAnalyzer extends BaseAnalyzer {
+  async analyze(): Promise<Partial<AnalysisResult>> {
+    if (!this.config.targetAngularVersion) return {};
+
+    return { companionAlignment: await this.align(this.config.targetAngularVersion) };
+  }
+
+  async align(targetVersion: string): Promise<CompanionAlignment[]> {
+    const targetMajor = semver.coerce(targetVersion)?.major;
+    if (targetMajor === undefined) {
+      throw new ValidationError(`Invalid target Angular version: ${targetVersion}`);
+    }
+
+    const families = this.collectFamilies();
+    if (families.size === 0) return [];
+
+    const names = [...families.values()].flat().map(member => member.name);
+    const packageInfos = await this.npmClient.getBulkPackageInfo(names);
+    // Une version exacte (20.0.0-rc.1) ou seulement la majeure (20)
+    const target = semver.valid(targetVersion) || String(targetMajor);
+
+    const alignments: CompanionAlignment[] = [];
+    for (const ecosystem of COMPANION_ECOSYSTEMS) {
+      const members = families.get(ecosystem.name);
+      if (!members) continue;
+
+      members.forEach(member => {
+        member.info = packageInfos[member.name];
+      });
+      alignments.push(this.alignEcosystem(ecosystem, members, target));
+    }
+
+    return alignments;
+  }
+
+  /**
+   * Dépendances directes du projet regroupées par famille
+   */
+  private collectFamilies(): Map<string, CompanionMember[]> {
+    const families = new Map<string, CompanionMember[]>();
+    const seen = new Set<string>();
+
+    for (const section of ['dependencies', 'devDependencies'] as const) {
+      for (const name of Object.keys(this.packageJson[section] || {})) {
+        if (seen.has(name) || this.isPackageExcluded(name)) continue;
+
+        const ecosystem = COMPANION_ECOSYSTEMS.find(candidate => candidate.pattern.test(name));
+        if (!ecosystem) continue;
+
+        seen.add(name);
+        if (!families.has(ecosystem.name)) families.set(ecosystem.name, []);
+        const installed = this.getInstalledVersion(name);
+        families.get(ecosystem.name).push({
+          name,
+          section,
+          current: semver.valid(installed) || installed,
+          info: undefined,
+        });
+      }
+    }
+
+    return families;
+  }
+
+  private alignEcosystem(
+    ecosystem: CompanionEcosystem,
+    members: CompanionMember[],
+    target: string
+  ): CompanionAlignment {
+    const missing = members.find(member => !member.info);
+    const recommended = new Map<string, string | null>();
+
+    if (!missing) {
+      if (ecosystem.lockstep) {
+        const version = this.findLockstepVersion(members, target);
+        members.forEach(member => recommended.set(member.name, version));
+      } else {
+        members.forEach(member => {
+          recommended.set(member.name, this.findVersion(member.info, target));
+        });
+      }
+    }
+
+    const packages = members.map(member => ({
+      package: member.name,
+      current: member.current,
+      recommended: recommended.get(member.name) || null,
+      section: member.section,
+    }));
+    const unsupported = packages.filter(pkg => !pkg.recommended);
+
+    let reason: string | undefined;
+    if (missing) {
+      reason = `Registry metadata unavailable for ${missing.name}`;
+    } else if (unsupported.length > 0) {
+      reason = ecosystem.lockstep
+        ? `No ${ecosystem.name} release supports Angular ${target} for every installed package`
+        : `No release of ${unsupported.map(pkg => pkg.package).join(', ')} supports Angular ${target}`;
+    }
+
+    return {
+      ecosystem: ecosystem.name,
+      lockstep: ecosystem.lockstep,
+      packages,
+      installCommand: unsupported.length === 0 ? this.installCommand(packages) : null,
+      ...(reason ? { reason } : {}),
+    };
+  }
+
+  /**
+   * Commande du gestionnaire de paquets du projet, chaque paquet restant dans sa section
+   */
+  private installCommand(packages: CompanionAlignment['packages']): string {
+    return (['dependencies', 'devDependencies'] as const)
+      .map(section => packages.filter(pkg => pkg.section === section))
+      .filter(group => group.length > 0)
+      .map(group =>
+        installCommand(
+          this.packageManager,
+          group.map(pkg => `${pkg.package}@${pkg.recommended}`),
+          { dev: group[0].section === 'devDependencies' }
+        )
+      )
+      .join(' && ');
+  }
+
+  /**
+   * Plus haute version publiée par tous les membres dont les métadonnées acceptent la cible ;
+   * les membres sans dépendance vers le framework (plugins ESLint...) suivent les autres
+   */
+  private findLockstepVersion(members: CompanionMember[], target: string): string | null {
+    const [first, ...others] = members;
+
+    for (const info of this.candidateVersions(first.info, target)) {
+      const releases = [info, ...others.map(member => member.info.versions?.[info.version])];
+      if (releases.some(release => !release || release.deprecated)) continue;
+
+      const verdicts = releases.map(release => this.supportsTarget(release, target));
+      if (verdicts.includes(false) || !verdicts.includes(true)) continue;
+
+      return info.version;
+    }
+
+    return null;
+  }
+
+  private findVersion(packageInfo: NpmPackageInfo, target: string): string | null {
+    const info = this.candidateVersions(packageInfo, target).find(
+      candidate => !candidate.deprecated && this.supportsTarget(candidate, target) === true
+    );
+    return info?.version || null;
+  }
+
+  /**
+   * Versions de la plus récente à la plus ancienne ; les préversions ne sont proposées que
+   * pour une cible en préversion
+   */
+  private candidateVersions(packageInfo: NpmPackageInfo, target: string): NpmVersionInfo[] {
+    return sortedVersions(packageInfo, {
+      includePrerelease: semver.prerelease(target) !== null,
+    }).reverse();
+  }
+
+  /**
+   * @returns null quand la version ne dépend d'aucun paquet du framework
+   */
+  private supportsTarget(info: NpmVersionInfo, target: string): boolean | null {
+    const ranges = ANCHOR_PACKAGES.map(
+      anchor => info.peerDependencies?.[anchor] || info.dependencies?.[anchor]
+    ).filter((range): range is string => Boolean(range));
+    if (ranges.length === 0) return null;
+
+    // Une plage comme `^20.1.0` vise Angular 20 même si elle exclut 20.0.0
+    return ranges.every(range => acceptsTarget(range, target));
+  }
+}
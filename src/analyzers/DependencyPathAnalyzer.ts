@@ -0,0 +1,173 @@
+import type {
+  AnalysisResult,
+  DependencyExplanation,
+  DependencyPathStep,
+  LockDependencyEdge,
+} from '../types/index.js';
+import { ValidationError } from '../types/index.js';
+import { acceptsVersion } from '../utils/PeerCompatibility.js';
+
+import { BaseAnalyzer } from './BaseAnalyzer.js';
+
+/**
+ * Nombre maximal de chemins listés pour un package
+ */
+const MAX_PATHS = 100;
+
+/**
+ * Explique pourquoi un package est installé : tous les chemins du lock file qui mènent
+ * de la racine (ou d'un workspace) à chacune de ses copies, avec les ranges déclarés et
+ * les peer dependencies rencontrées en route.
+ */
+export class DependencyPathAnalyzer extends BaseAnalyzer {
+  // Analyseur à la demande : les chemins dépendent du package demandé, voir explain()
+  async analyze(): Promise<Partial<AnalysisResult>> {
+    return {};
+  }
+
+  public explain(packageName: string): DependencyExplanation {
+    const packages = this.lockFile?.packages;
+    if (!packages) {
+      throw new ValidationError('A lock file is required to explain dependency chains');
+    }
+
+    const targets = new Set(
+      Object.keys(packages).filter(
+        location => this.getLockPackageName(location) === packageName && !packages[location].link
+      )
+    );
+
+    const explanation: DependencyExplanation = {
+      package: packageName,
+      versions: [...new Set([...targets].map(location => packages[location].version || ''))]
+        .filter(Boolean)
+        .sort(),
+      paths: [],
+      truncated: false,
+    };
+    if (targets.size === 0) return explanation;
+
+    const edges = new Map<string, LockDependencyEdge[]>();
+    for (const location of Object.keys(packages)) {
+      edges.set(location, this.getLockDependencyEdges(location));
+    }
+
+    const relevant = this.collectLocationsReaching(targets, edges);
+    const roots = Object.keys(packages).filter(location => !location.includes('node_modules/'));
+
+    for (const root of roots) {
+      if (!relevant.has(root)) continue;
+
+      this.walk([this.createStep(root)], new Set([root]), targets, relevant, edges, explanation);
+      if (explanation.truncated) break;
+    }
+
+    explanation.paths.sort(
+      (a, b) => a.length - b.length || this.formatPath(a).localeCompare(this.formatPath(b))
+    );
+    return explanation;
+  }
+
+  /**
+   * Parcours en profondeur limité aux emplacements qui mènent à une copie du package
+   */
+  private walk(
+    path: DependencyPathStep[],
+    visited: Set<string>,
+    targets: Set<string>,
+    relevant: Set<string>,
+    edges: Map<string, LockDependencyEdge[]>,
+    explanation: DependencyExplanation
+  ): void {
+    const current = path[path.length - 1].location;
+
+    for (const edge of edges.get(current) || []) {
+      if (visited.has(edge.target) || !relevant.has(edge.target)) continue;
+
+      if (explanation.paths.length >= MAX_PATHS) {
+        explanation.truncated = true;
+        return;
+      }
+
+      const step = this.createStep(edge.target, edge);
+      if (targets.has(edge.target)) {
+        explanation.paths.push([...path, step]);
+        continue;
+      }
+
+      visited.add(edge.target);
+      this.walk([...path, step], visited, targets, relevant, edges, explanation);
+      visited.delete(edge.target);
+    }
+  }
+
+  /**
+   * Parcours inverse depuis les copies du package : emplacements d'où elles sont atteignables
+   */
+  private collectLocationsReaching(
+    targets: Set<string>,
+    edges: Map<string, LockDependencyEdge[]>
+  ): Set<string> {
+    const dependents = new Map<string, string[]>();
+    for (const [location, locationEdges] of edges) {
+      for (const edge of locationEdges) {
+        if (!dependents.has(edge.target)) dependents.set(edge.target, []);
+        dependents.get(edge.target).push(location);
+      }
+    }
+
+    const relevant = new Set(targets);
+    const queue = [...targets];
+    while (queue.length > 0) {
+      const location = queue.shift();
+      for (const dependent of dependents.get(location) || []) {
+        if (relevant.has(dependent)) continue;
+        relevant.add(dependent);
+        queue.push(dependent);
+      }
+    }
+
+    return relevant;
+  }
+
+  private createStep(location: string, edge?: LockDependencyEdge): DependencyPathStep {
+    const entry = this.lockFile.packages[location];
+    const isRoot = location === '';
+
+    const step: DependencyPathStep = {
+      name: isRoot
+        ? this.packageJson.name
+        : this.getLockPackageName(location) || entry?.name || location,
+      version: (isRoot ? this.packageJson.version : entry?.version) || '',
+      location,
+      peers: [],
+    };
+
+    if (edge) {
+      step.range = edge.range;
+      step.type = edge.type;
+    }
+
+    for (const [peerName, range] of Object.entries(entry?.peerDependencies || {})) {
+      const resolvedLocation = this.resolveLockDependency(location, peerName);
+      const version =
+        entry.peerResolutions?.[peerName] ||
+        (resolvedLocation && this.lockFile.packages[resolvedLocation]?.version) ||
+        null;
+
+      step.peers.push({
+        name: peerName,
+        range,
+        version,
+        optional: entry.peerDependenciesMeta?.[peerName]?.optional === true,
+        satisfied: version !== null && acceptsVersion(range, version),
+      });
+    }
+
+    return step;
+  }
+
+  private formatPath(path: DependencyPathStep[]): string {
+    return path.map(step => `${step.name}@${step.version}`).join(' > ');
+  }
+}
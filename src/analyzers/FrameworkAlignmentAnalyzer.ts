@@ -0,0 +1,180 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import * as semver from 'semver';
+
+import type {
+  AnalysisResult,
+  FrameworkAlignment,
+  FrameworkMisalignment,
+  FrameworkPackageGroup,
+} from '../types/index.js';
+import { FRAMEWORK_CORE_PACKAGES, MATERIAL_PACKAGES } from '../utils/FrameworkPackages.js';
+import type { NpmVersionInfo } from '../utils/NpmRegistryClient.js';
+
+import { BaseAnalyzer } from './BaseAnalyzer.js';
+
+const CORE_LEADER = '@angular/core';
+// Material et le CDK suivent leur propre cycle de patchs, avec la même majeure que le core
+const MATERIAL_LEADERS = ['@angular/material', '@angular/cdk'];
+
+type NgUpdateMetadata = NpmVersionInfo['ng-update'];
+
+/**
+ * Vérifie que les paquets `@angular/*` installés sont alignés : les membres du
+ * `ng-update.packageGroup` d'un leader (`@angular/core`, `@angular/material`) doivent être
+ * à la même version que lui, et l'outillage publié avec le framework (CLI, devkit, ssr...) sur
+ * la majeure du core. Les autres paquets `@angular/*` (fire, flex-layout...) ont leurs propres
+ * versions et relèvent de l'analyse des bibliothèques compagnons.
+ */
+export class FrameworkAlignmentAnalyzer extends BaseAnalyzer {
+  async analyze(): Promise<Partial<AnalysisResult>> {
+    return { frameworkAlignment: await this.checkAlignment() };
+  }
+
+  public async checkAlignment(): Promise<FrameworkAlignment> {
+    const installed = this.getInstalledAngularPackages();
+    const coreVersion = installed[CORE_LEADER];
+    if (!coreVersion) return { groups: [], misaligned: [] };
+
+    const groups = [await this.loadPackageGroup(CORE_LEADER, coreVersion, FRAMEWORK_CORE_PACKAGES)];
+    const materialLeader = MATERIAL_LEADERS.find(name => installed[name]);
+    if (materialLeader) {
+      groups.push(
+        await this.loadPackageGroup(materialLeader, installed[materialLeader], MATERIAL_PACKAGES)
+      );
+    }
+
+    const misaligned: FrameworkMisalignment[] = [];
+    const grouped = new Set<string>();
+    for (const group of groups) {
+      for (const name of group.packages) {
+        grouped.add(name);
+        const version = installed[name];
+        if (!version || name === group.leader) continue;
+
+        const misalignment = this.compare(name, version, group.version, group.leader);
+        if (misalignment) misaligned.push(misalignment);
+      }
+    }
+
+    // Material et l'outillage du framework hors groupe ne suivent que la majeure du core
+    const coreMajor = `${semver.coerce(coreVersion)?.major}.x`;
+    for (const [name, version] of Object.entries(installed)) {
+      if (name === CORE_LEADER) continue;
+      if (name !== materialLeader && (grouped.has(name) || !this.isFrameworkPackage(name))) {
+        continue;
+      }
+
+      const misalignment = this.compare(name, version, coreMajor, CORE_LEADER);
+      if (misalignment) misaligned.push(misalignment);
+    }
+
+    return {
+      groups,
+      misaligned: misaligned.sort((a, b) => {
+        if (a.severity !== b.severity) return a.severity === 'error' ? -1 : 1;
+        return a.package.localeCompare(b.package);
+      }),
+    };
+  }
+
+  /**
+   * Versions installées (lock file) des paquets `@angular/*` et de l'outillage du framework
+   * déclarés par le projet
+   */
+  private getInstalledAngularPackages(): Record<string, string> {
+    const installed: Record<string, string> = {};
+    for (const name of Object.keys(this.getAllDependencies())) {
+      if (!name.startsWith('@angular/') && !this.isFrameworkPackage(name)) continue;
+
+      const version = this.getInstalledVersion(name);
+      if (version) installed[name] = version;
+    }
+    return installed;
+  }
+
+  /**
+   * Sans lock file, la version est une plage : seule la majeure est comparée
+   */
+  private compare(
+    name: string,
+    installed: string,
+    expected: string,
+    leader: string
+  ): FrameworkMisalignment | null {
+    const exact = semver.valid(installed) && semver.valid(expected);
+    const installedMajor = semver.coerce(installed)?.major;
+    const expectedMajor = semver.coerce(expected)?.major;
+    if (installedMajor === undefined || expectedMajor === undefined) return null;
+
+    if (installedMajor !== expectedMajor) {
+      return {
+        package: name,
+        installed,
+        expected,
+        group: leader,
+        severity: 'error',
+        resolution: `Update ${name} to Angular ${expectedMajor}, it must share the major of ${leader}`,
+      };
+    }
+
+    if (exact && installed !== expected) {
+      return {
+        package: name,
+        installed,
+        expected,
+        group: leader,
+        severity: 'warning',
+        resolution: `Install ${name}@${expected} so that it matches ${leader}`,
+      };
+    }
+
+    return null;
+  }
+
+  private async loadPackageGroup(
+    leader: string,
+    version: string,
+    fallback: string[]
+  ): Promise<FrameworkPackageGroup> {
+    const metadata =
+      this.readInstalledNgUpdate(leader, version) || (await this.fetchNgUpdate(leader, version));
+    const packageGroup = metadata?.packageGroup;
+    const members = Array.isArray(packageGroup) ? packageGroup : Object.keys(packageGroup || {});
+
+    return members.length > 0
+      ? {
+          leader,
+          version,
+          packages: [...new Set([leader, ...members])].sort(),
+          source: 'ng-update',
+        }
+      : { leader, version, packages: fallback, source: 'default' };
+  }
+
+  /**
+   * Métadonnées du leader installé, ignorées si node_modules n'est pas à la version du lock file
+   */
+  private readInstalledNgUpdate(leader: string, version: string): NgUpdateMetadata | null {
+    const manifestPath = path.join(this.projectRoot, 'node_modules', leader, 'package.json');
+    if (!this.fileExists(manifestPath)) return null;
+
+    try {
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+      return manifest.version === version ? manifest['ng-update'] || null : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * `ng-update` n'est publié que dans le packument complet
+   */
+  private async fetchNgUpdate(leader: string, version: string): Promise<NgUpdateMetadata | null> {
+    if (!semver.valid(version)) return null;
+
+    const packageInfo = await this.npmClient.getPackageInfo(leader, { full: true });
+    return packageInfo?.versions?.[version]?.['ng-update'] || null;
+  }
+}
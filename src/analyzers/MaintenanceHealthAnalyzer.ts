@@ -0,0 +1,198 @@
+import * as semver from 'semver';
+
+import type {
+  AnalysisResult,
+  MaintenanceHealth,
+  MaintenanceHealthEntry,
+  MaintenanceRisk,
+} from '../types/index.js';
+import { ValidationError } from '../types/index.js';
+import type { NpmPackageInfo } from '../utils/NpmRegistryClient.js';
+
+import { BaseAnalyzer } from './BaseAnalyzer.js';
+
+// Sans release depuis ce nombre de mois, un paquet est considéré comme abandonné
+export const DEFAULT_STALE_AFTER_MONTHS = 24;
+
+// Majeures d'Angular qu'une bibliothèque maintenue doit accepter : la cible et les deux précédentes
+const RECENT_MAJOR_COUNT = 3;
+
+const MONTH_MS = 30.44 * 24 * 60 * 60 * 1000;
+
+const RISK_ORDER: MaintenanceRisk[] = ['high', 'medium', 'low'];
+
+/**
+ * Formulations des messages de dépréciation qui nomment un remplaçant :
+ * "Use @scope/new-lib instead", "moved to new-lib", "replaced by `new-lib`"...
+ */
+const REPLACEMENT_PATTERN =
+  /\b(?:use|replaced (?:by|with)|moved to|renamed to|switch to|migrate to|superseded by|in favou?r of)\s+(?:the\s+)?(?:new\s+)?(?:package\s+)?[`'"]?((?:@[a-z0-9][\w.-]*\/)?[a-z0-9][\w.-]*)/i;
+
+// Mots captés par REPLACEMENT_PATTERN qui ne sont pas des noms de paquets
+const NOT_PACKAGE_NAMES = new Set(['a', 'an', 'it', 'this', 'that', 'latest', 'version', 'npm']);
+
+export interface MaintenanceHealthOptions {
+  staleAfterMonths?: number;
+  // Date de référence, maintenant par défaut
+  now?: Date;
+}
+
+/**
+ * Santé des dépendances tierces d'après les métadonnées du registry : dépréciation npm,
+ * date de la dernière release et support des majeures récentes d'Angular
+ */
+export class MaintenanceHealthAnalyzer extends BaseAnalyzer {
+  async analyze(): Promise<Partial<AnalysisResult>> {
+    if (!this.config.targetAngularVersion) return {};
+
+    return { maintenanceHealth: await this.assess(this.config.targetAngularVersion) };
+  }
+
+  async assess(
+    targetVersion: string,
+    options: MaintenanceHealthOptions = {}
+  ): Promise<MaintenanceHealth> {
+    const targetMajor = semver.coerce(targetVersion)?.major;
+    if (targetMajor === undefined) {
+      throw new ValidationError(`Invalid target Angular version: ${targetVersion}`);
+    }
+
+    const staleAfterMonths = options.staleAfterMonths ?? DEFAULT_STALE_AFTER_MONTHS;
+    if (!Number.isInteger(staleAfterMonths) || staleAfterMonths <= 0) {
+      throw new ValidationError(`Invalid number of months: ${staleAfterMonths}`);
+    }
+
+    const recentMajors = Array.from(
+      { length: RECENT_MAJOR_COUNT },
+      (_, index) => targetMajor - RECENT_MAJOR_COUNT + 1 + index
+    ).filter(major => major > 1);
+
+    // Les paquets publiés avec le framework suivent Angular ; les autres `@angular/*`
+    // (flex-layout, fire...) sont évalués comme toute dépendance tierce
+    const names = Object.keys(this.getAllDependencies()).filter(
+      name => !this.isFrameworkPackage(name)
+    );
+    // Seul le packument complet date les releases (`time`) ; le champ modified de l'abrégé
+    // bouge aussi sur une dépréciation ou un dist-tag
+    const packageInfos = await this.npmClient.getBulkPackageInfo(names, { full: true });
+    const now = options.now || new Date();
+
+    const packages = names
+      .filter(name => packageInfos[name])
+      .map(name =>
+        this.assessPackage(name, packageInfos[name], { staleAfterMonths, recentMajors, now })
+      )
+      .sort(
+        (a, b) =>
+          RISK_ORDER.indexOf(a.risk) - RISK_ORDER.indexOf(b.risk) ||
+          a.package.localeCompare(b.package)
+      );
+
+    return { staleAfterMonths, recentMajors, packages };
+  }
+
+  private assessPackage(
+    name: string,
+    info: NpmPackageInfo,
+    context: { staleAfterMonths: number; recentMajors: number[]; now: Date }
+  ): MaintenanceHealthEntry {
+    const installed = this.getInstalledVersion(name);
+    const installedVersion = semver.valid(installed) || this.cleanVersion(installed);
+    const reasons: string[] = [];
+    let risk: MaintenanceRisk = 'low';
+    const raise = (level: MaintenanceRisk): void => {
+      if (RISK_ORDER.indexOf(level) < RISK_ORDER.indexOf(risk)) risk = level;
+    };
+
+    // Un paquet déprécié l'est sur sa dernière version ; sinon seule la version installée l'est
+    const latestDeprecation = info.versions[info['dist-tags']?.latest]?.deprecated;
+    const installedDeprecation = installedVersion
+      ? info.versions[installedVersion]?.deprecated
+      : undefined;
+    const deprecated = latestDeprecation || installedDeprecation || undefined;
+    if (latestDeprecation) {
+      raise('high');
+      reasons.push(`Deprecated on npm: ${latestDeprecation}`);
+    } else if (installedDeprecation) {
+      raise('medium');
+      reasons.push(`Installed version ${installedVersion} is deprecated: ${installedDeprecation}`);
+    }
+
+    const lastPublish = this.findLastPublish(info);
+    const monthsSinceLastPublish = lastPublish
+      ? Math.max(0, Math.floor((context.now.getTime() - Date.parse(lastPublish)) / MONTH_MS))
+      : null;
+    if (monthsSinceLastPublish !== null && monthsSinceLastPublish >= context.staleAfterMonths) {
+      raise('medium');
+      reasons.push(`No release for ${monthsSinceLastPublish} months`);
+    }
+
+    const supportsRecentAngular = this.supportsRecentAngular(info, context.recentMajors);
+    if (supportsRecentAngular === false) {
+      raise('high');
+      reasons.push(`No release supports Angular ${context.recentMajors.join(', ')}`);
+    }
+
+    const replacement = deprecated ? findReplacement(deprecated, name) : null;
+
+    return {
+      package: name,
+      installedVersion: installedVersion || installed,
+      risk,
+      ...(deprecated ? { deprecated } : {}),
+      ...(replacement ? { replacement } : {}),
+      lastPublish,
+      monthsSinceLastPublish,
+      supportsRecentAngular,
+      reasons,
+    };
+  }
+
+  /**
+   * Date de la release la plus récente ; `time` manque dans les packuments abrégés
+   * (cache hors ligne) et la date est alors inconnue
+   */
+  private findLastPublish(info: NpmPackageInfo): string | null {
+    const dates = Object.entries(info.time || {})
+      .filter(([key]) => key !== 'created' && key !== 'modified')
+      .map(([, date]) => date)
+      .filter(date => !Number.isNaN(Date.parse(date)));
+    if (dates.length === 0) return null;
+
+    return dates.reduce((latest, date) => (Date.parse(date) > Date.parse(latest) ? date : latest));
+  }
+
+  /**
+   * @returns null quand aucune version ne déclare de peer dependency sur Angular
+   */
+  private supportsRecentAngular(info: NpmPackageInfo, recentMajors: number[]): boolean | null {
+    const ranges = Object.values(info.versions || {})
+      .map(
+        version =>
+          version.peerDependencies?.['@angular/core'] ||
+          version.peerDependencies?.['@angular/common']
+      )
+      .filter((range): range is string => Boolean(range));
+    if (ranges.length === 0) return null;
+
+    return ranges.some(range =>
+      recentMajors.some(
+        major =>
+          semver.validRange(range) !== null &&
+          semver.intersects(range, `^${major}.0.0`, { includePrerelease: true })
+      )
+    );
+  }
+}
+
+/**
+ * Paquet nommé comme remplaçant par un message de dépréciation, null s'il n'en nomme aucun
+ */
+function findReplacement(message: string, packageName: string): string | null {
+  const candidate = REPLACEMENT_PATTERN.exec(message)?.[1]
+    ?.replace(/[.-]+$/, '')
+    .toLowerCase();
+  if (!candidate || candidate === packageName || NOT_PACKAGE_NAMES.has(candidate)) return null;
+
+  return candidate;
+}
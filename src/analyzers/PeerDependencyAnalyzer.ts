@@ -1,6 +1,8 @@
 import * as semver from 'semver';
 
-import type { AnalysisResult, MissingPeerDep } from '../types/index.js';
+import type { AnalysisResult, IncompatibleVersion, MissingPeerDep } from '../types/index.js';
+import type { NpmPackageInfo } from '../utils/NpmRegistryClient.js';
+import { acceptsTarget, findLowestCompatibleVersion } from '../utils/PeerCompatibility.js';
 
 import { BaseAnalyzer } from './BaseAnalyzer.js';
 
@@ -22,28 +24,34 @@ export class PeerDependencyAnalyzer extends BaseAnalyzer {
         if (!packageInfo) return [];
 
         try {
+          const installedVersion = this.cleanVersion(
+            this.getInstalledVersion(depName) || depVersion
+          );
+          const versionInfo = installedVersion ? packageInfo.versions[installedVersion] : undefined;
+
           // Essayer d'abord les peer dependencies du package-lock.json
           let lockFilePeerDeps = this.getPeerDependenciesFromLockFile(depName);
           
           // Si pas trouvé dans le lock file, fallback vers l'API npm
           if (!lockFilePeerDeps || Object.keys(lockFilePeerDeps).length === 0) {
-            const installedVersion = this.getInstalledVersion(depName) || depVersion;
-            const cleanVersion = this.cleanVersion(installedVersion);
-            
-            if (!cleanVersion) return [];
-
-            const versionInfo = packageInfo.versions[cleanVersion];
             if (!versionInfo?.peerDependencies) return [];
             
             lockFilePeerDeps = versionInfo.peerDependencies;
           }
 
+          // Les peers optionnels (peerDependenciesMeta) ne sont requis que s'ils sont installés
+          const peerDependenciesMeta =
+            this.getPeerDependenciesMetaFromLockFile(depName) ||
+            versionInfo?.peerDependenciesMeta ||
+            {};
+
           // Si toujours pas de peer dependencies, rien à analyser
           if (!lockFilePeerDeps || Object.keys(lockFilePeerDeps).length === 0) {
             return [];
           }
 
           const peerDeps: MissingPeerDep[] = [];
+          const peerResolutions = this.getPeerResolutionsFromLockFile(depName);
 
           // Analyser chaque peer dependency
           for (const [peerName, peerVersion] of Object.entries(lockFilePeerDeps)) {
@@ -52,8 +60,31 @@ export class PeerDependencyAnalyzer extends BaseAnalyzer {
               continue;
             }
             
+            const isOptional = peerDependenciesMeta[peerName]?.optional === true;
+            const isAbsent = !allDeps[peerName] && !peerResolutions[peerName];
+
+            // Un peer optionnel absent n'est pas une erreur, sa version est vérifiée s'il est présent
+            if (isOptional && isAbsent) {
+              if (this.config.analysis.skipOptionalPeerDeps) continue;
+
+              peerDeps.push({
+                package: peerName,
+                requiredBy: depName,
+                requiredVersion: peerVersion,
+                severity: 'warning',
+              });
+              continue;
+            }
+            
             // Vérifier si la peer dependency est satisfaite
-            if (!this.isPeerDependencySatisfied(peerName, peerVersion, allDeps)) {
+            if (
+              !this.isPeerDependencySatisfied(
+                peerName,
+                peerVersion,
+                allDeps,
+                peerResolutions[peerName]
+              )
+            ) {
               peerDeps.push({
                 package: peerName,
                 requiredBy: depName,
@@ -75,9 +106,72 @@ export class PeerDependencyAnalyzer extends BaseAnalyzer {
     const results = await Promise.all(analysisPromises);
     results.forEach(deps => missingPeerDeps.push(...deps));
 
+    // Mode cible : vérifier que les versions installées acceptent la version Angular visée
+    if (this.config.targetAngularVersion) {
+      const incompatibleVersions = this.checkTargetCompatibility(
+        allDeps,
+        packageInfos,
+        this.config.targetAngularVersion
+      );
+      return { missingPeerDeps, incompatibleVersions };
+    }
+
     return { missingPeerDeps };
   }
 
+  /**
+   * Identifie les packages tiers dont la peer dependency sur @angular/core refuse la
+   * version cible, et propose la première version publiée qui l'accepte
+   */
+  private checkTargetCompatibility(
+    allDeps: Record<string, string>,
+    packageInfos: Record<string, NpmPackageInfo>,
+    targetAngularVersion: string
+  ): IncompatibleVersion[] {
+    // Une version exacte (20.0.0-rc.1) ou seulement la majeure (20) : `>=20.1.0` vise bien 20
+    const major = semver.coerce(targetAngularVersion)?.major;
+    const target =
+      semver.valid(targetAngularVersion) || (major === undefined ? null : String(major));
+    if (!target) return [];
+
+    const incompatible: IncompatibleVersion[] = [];
+
+    for (const [depName, depVersion] of Object.entries(allDeps)) {
+      // Les packages du framework sont mis à jour par ng update
+      if (this.isFrameworkPackage(depName)) continue;
+
+      const packageInfo = packageInfos[depName];
+      if (!packageInfo) continue;
+
+      const installedVersion = this.cleanVersion(this.getInstalledVersion(depName) || depVersion);
+      if (!installedVersion) continue;
+
+      const peerRange =
+        packageInfo.versions?.[installedVersion]?.peerDependencies?.['@angular/core'] ||
+        this.getPeerDependenciesFromLockFile(depName)?.['@angular/core'];
+      if (!peerRange || acceptsTarget(peerRange, target)) continue;
+
+      const upgrade = findLowestCompatibleVersion(
+        packageInfo,
+        '@angular/core',
+        target,
+        installedVersion
+      );
+
+      incompatible.push({
+        package: depName,
+        currentVersion: installedVersion,
+        requiredVersion: upgrade?.version || '',
+        reason: upgrade
+          ? `${depName}@${installedVersion} requires @angular/core ${peerRange}; ${upgrade.version} is the first version supporting Angular ${target} (${upgrade.peerDependencies['@angular/core']})`
+          : `${depName}@${installedVersion} requires @angular/core ${peerRange} and no published version supports Angular ${target}`,
+        severity: upgrade ? 'warning' : 'error',
+      });
+    }
+
+    return incompatible;
+  }
+
   private getPeerDependenciesFromLockFile(packageName: string): Record<string, string> | null {
     if (!this.lockFile) return null;
 
@@ -102,19 +196,39 @@ export class PeerDependencyAnalyzer extends BaseAnalyzer {
     return null;
   }
 
+  private getPeerDependenciesMetaFromLockFile(
+    packageName: string
+  ): Record<string, { optional?: boolean }> | null {
+    const packageInfo = this.lockFile?.packages?.[`node_modules/${packageName}`];
+    return packageInfo?.peerDependenciesMeta || null;
+  }
+
+  /**
+   * Versions liées pour chaque peer dependency, telles qu'enregistrées par pnpm
+   * (ex: `@angular/cdk@17.3.0(@angular/core@17.3.0)`)
+   */
+  private getPeerResolutionsFromLockFile(packageName: string): Record<string, string> {
+    const packageInfo = this.lockFile?.packages?.[`node_modules/${packageName}`];
+    return packageInfo?.peerResolutions || {};
+  }
+
   private isPeerDependencySatisfied(
     peerName: string,
     requiredVersion: string,
-    installedDeps: Record<string, string>
+    installedDeps: Record<string, string>,
+    resolvedVersion?: string
   ): boolean {
     // Utiliser la version réellement installée depuis le lock file
     const declaredVersion = installedDeps[peerName];
     
-    if (!declaredVersion) {
+    // Une résolution enregistrée par le gestionnaire de paquets fait foi, même si le
+    // peer n'est pas déclaré dans le package.json (auto-install-peers)
+    if (!declaredVersion && !resolvedVersion) {
       return false;
     }
     
-    const installedVersion = this.getInstalledVersion(peerName) || declaredVersion;
+    const installedVersion =
+      resolvedVersion || this.getInstalledVersion(peerName) || declaredVersion;
 
     try {
       // Nettoyer la version installée (enlever ^, ~, etc.)
@@ -0,0 +1,358 @@
+import * as semver from 'semver';
+
+import type {
+  AnalysisResult,
+  UnsatisfiableConstraint,
+  UpgradeChange,
+  UpgradeResolution,
+} from '../types/index.js';
+import { ValidationError } from '../types/index.js';
+import type { NpmPackageInfo, NpmVersionInfo } from '../utils/NpmRegistryClient.js';
+import { acceptsVersion, sortedVersions } from '../utils/PeerCompatibility.js';
+
+import { BaseAnalyzer } from './BaseAnalyzer.js';
+
+/**
+ * Nombre maximal de versions testées avant d'abandonner la recherche
+ */
+const MAX_CHECKS = 100000;
+
+/**
+ * Nombre de contraintes listées pour expliquer un échec
+ */
+const MAX_EXPLAINED_CONSTRAINTS = 5;
+
+type DependencySection = 'dependencies' | 'devDependencies';
+
+interface DeclaredDependency {
+  name: string;
+  section: DependencySection;
+  spec: string;
+}
+
+interface ResolverVariable extends DeclaredDependency {
+  currentVersion: string | null;
+  // Versions candidates dans l'ordre de préférence
+  candidates: NpmVersionInfo[];
+}
+
+interface SearchResult {
+  solved: boolean;
+  // Index des variables responsables de l'échec, pour le saut arrière
+  conflicts: Set<number>;
+}
+
+/**
+ * Propose un ensemble complet de versions pour les dépendances directes dans lequel
+ * chaque peer dependency est satisfaite pour la version Angular cible, sous forme de
+ * patch du package.json.
+ *
+ * Les packages du framework prennent la dernière version de la majeure cible, les autres
+ * gardent la version installée ou montent vers la plus petite version compatible.
+ * La recherche procède par retour arrière dirigé par les conflits.
+ */
+export class UpgradeResolver extends BaseAnalyzer {
+  private checks = 0;
+  private deepestFailure: { index: number; constraint: UnsatisfiableConstraint } | null = null;
+
+  async analyze(): Promise<Partial<AnalysisResult>> {
+    if (!this.config.targetAngularVersion) return {};
+
+    return { upgradeResolution: await this.resolve(this.config.targetAngularVersion) };
+  }
+
+  /**
+   * @param baseline Specs laissées par une étape précédente (migration sur plusieurs majeures),
+   * elles remplacent celles du package.json et leur version minimale sert de version installée
+   */
+  async resolve(
+    targetVersion: string,
+    baseline: Record<string, string> = {}
+  ): Promise<UpgradeResolution> {
+    const targetMajor = semver.coerce(targetVersion)?.major;
+    if (targetMajor === undefined) {
+      throw new ValidationError(`Invalid target Angular version: ${targetVersion}`);
+    }
+
+    const declared = this.getDeclaredDependencies().map(dep =>
+      baseline[dep.name] ? { ...dep, spec: baseline[dep.name] } : dep
+    );
+    const packageInfos = await this.npmClient.getBulkPackageInfo(declared.map(dep => dep.name));
+    const variables = this.buildVariables(
+      declared,
+      packageInfos,
+      semver.valid(targetVersion) || targetMajor,
+      baseline
+    );
+
+    // Un package du framework sans release pour la majeure cible bloque tout
+    const unavailable = variables.find(variable => variable.candidates.length === 0);
+    if (unavailable) {
+      return this.unsatisfiable(targetVersion, {
+        package: unavailable.name,
+        reason: `No published version of ${unavailable.name} targets Angular ${targetMajor}`,
+        constraints: [],
+      });
+    }
+
+    this.checks = 0;
+    this.deepestFailure = null;
+
+    const assignment: NpmVersionInfo[] = [];
+    const result = this.search(variables, 0, assignment);
+
+    if (!result.solved) {
+      return this.unsatisfiable(
+        targetVersion,
+        this.checks > MAX_CHECKS
+          ? {
+              package: variables[assignment.length]?.name || '',
+              reason: `Gave up after ${MAX_CHECKS} version checks without finding a compatible set`,
+              constraints: [],
+            }
+          : this.deepestFailure?.constraint || {
+              package: '',
+              reason: `No combination of versions satisfies every peer dependency for Angular ${targetMajor}`,
+              constraints: [],
+            }
+      );
+    }
+
+    const changes: UpgradeChange[] = [];
+    const packageJsonPatch: UpgradeResolution['packageJsonPatch'] = {};
+
+    variables.forEach((variable, index) => {
+      const chosen = assignment[index].version;
+      const unchanged = variable.currentVersion
+        ? chosen === variable.currentVersion
+        : acceptsVersion(variable.spec, chosen);
+      if (unchanged) return;
+
+      const to = this.formatSpec(variable.spec, chosen);
+      changes.push({ package: variable.name, section: variable.section, from: variable.spec, to });
+      packageJsonPatch[variable.section] = {
+        ...packageJsonPatch[variable.section],
+        [variable.name]: to,
+      };
+    });
+
+    return { targetVersion, satisfiable: true, packageJsonPatch, changes };
+  }
+
+  /**
+   * Dépendances directes publiées sur le registre (les specs file:, git ou workspace: sont ignorées)
+   */
+  private getDeclaredDependencies(): DeclaredDependency[] {
+    const declared: DeclaredDependency[] = [];
+    const seen = new Set<string>();
+
+    for (const section of ['dependencies', 'devDependencies'] as const) {
+      for (const [name, spec] of Object.entries(this.packageJson[section] || {})) {
+        if (seen.has(name) || this.isPackageExcluded(name)) continue;
+        if (!semver.validRange(spec)) continue;
+
+        seen.add(name);
+        declared.push({ name, section, spec });
+      }
+    }
+
+    return declared;
+  }
+
+  private buildVariables(
+    declared: DeclaredDependency[],
+    packageInfos: Record<string, NpmPackageInfo>,
+    target: string | number,
+    baseline: Record<string, string>
+  ): ResolverVariable[] {
+    const variables: ResolverVariable[] = [];
+
+    for (const dependency of declared) {
+      const packageInfo = packageInfos[dependency.name];
+      // Package introuvable sur le registre : on ne peut pas raisonner sur ses peers
+      if (!packageInfo) continue;
+
+      // Sans lock file, la version installée n'est pas connue
+      const installedVersion = baseline[dependency.name]
+        ? semver.minVersion(baseline[dependency.name])?.version
+        : this.lockFile && this.getInstalledVersion(dependency.name);
+      const currentVersion = installedVersion ? this.cleanVersion(installedVersion) : null;
+
+      variables.push({
+        ...dependency,
+        currentVersion,
+        candidates: this.isFrameworkPackage(dependency.name)
+          ? this.frameworkCandidates(packageInfo, target)
+          : this.upgradeCandidates(packageInfo, currentVersion, dependency.spec),
+      });
+    }
+
+    // Le framework d'abord : ses versions contraignent tout le reste
+    return variables.sort(
+      (a, b) => Number(this.isFrameworkPackage(b.name)) - Number(this.isFrameworkPackage(a.name))
+    );
+  }
+
+  /**
+   * Versions de la majeure cible, de la plus récente à la plus ancienne ; les préversions
+   * ne sont proposées que si aucune version stable n'est encore publiée. Une version exacte
+   * (ex. 20.0.0-rc.1) passe en premier quand le package la publie.
+   */
+  private frameworkCandidates(
+    packageInfo: NpmPackageInfo,
+    target: string | number
+  ): NpmVersionInfo[] {
+    const targetMajor = typeof target === 'number' ? target : semver.major(target);
+    const inMajor = sortedVersions(packageInfo, { includePrerelease: true }).filter(
+      info => semver.major(info.version) === targetMajor && !info.deprecated
+    );
+    const stable = inMajor.filter(info => !semver.prerelease(info.version));
+    const candidates = (stable.length > 0 ? stable : inMajor).reverse();
+
+    const pinned = typeof target === 'string' ? packageInfo.versions?.[target] : undefined;
+    return pinned
+      ? [pinned, ...candidates.filter(info => info.version !== pinned.version)]
+      : candidates;
+  }
+
+  /**
+   * Version installée en premier (à défaut, celle que la spec installerait), puis les
+   * versions plus récentes par ordre croissant
+   */
+  private upgradeCandidates(
+    packageInfo: NpmPackageInfo,
+    currentVersion: string | null,
+    spec: string
+  ): NpmVersionInfo[] {
+    const versions = sortedVersions(packageInfo);
+    const baseline =
+      currentVersion ||
+      semver.maxSatisfying(
+        versions.map(info => info.version),
+        spec
+      );
+    if (!baseline) return versions.filter(info => !info.deprecated);
+
+    const current = packageInfo.versions?.[baseline];
+    const newer = versions.filter(info => !info.deprecated && semver.gt(info.version, baseline));
+
+    return current ? [current, ...newer] : newer;
+  }
+
+  private search(
+    variables: ResolverVariable[],
+    index: number,
+    assignment: NpmVersionInfo[]
+  ): SearchResult {
+    if (index === variables.length) return { solved: true, conflicts: new Set() };
+
+    const variable = variables[index];
+    const conflicts = new Set<number>();
+    const rejections: string[] = [];
+
+    for (const candidate of variable.candidates) {
+      if (++this.checks > MAX_CHECKS) return { solved: false, conflicts: new Set() };
+
+      const blockers = this.findBlockers(variables, index, candidate, assignment);
+      if (blockers.length > 0) {
+        blockers.forEach(blocker => conflicts.add(blocker.index));
+        rejections.push(blockers[0].constraint);
+        continue;
+      }
+
+      assignment[index] = candidate;
+      const result = this.search(variables, index + 1, assignment);
+      if (result.solved) return result;
+      assignment.length = index;
+
+      if (this.checks > MAX_CHECKS) return result;
+
+      // Ce choix n'est pas en cause : remonter directement au responsable
+      if (!result.conflicts.has(index)) return result;
+      result.conflicts.forEach(conflict => conflict !== index && conflicts.add(conflict));
+    }
+
+    if (rejections.length > 0) this.recordFailure(index, variable, rejections);
+    return { solved: false, conflicts };
+  }
+
+  /**
+   * Variables déjà fixées dont les peer dependencies refusent le candidat, ou que le
+   * candidat refuse
+   */
+  private findBlockers(
+    variables: ResolverVariable[],
+    index: number,
+    candidate: NpmVersionInfo,
+    assignment: NpmVersionInfo[]
+  ): Array<{ index: number; constraint: string }> {
+    const name = variables[index].name;
+    const blockers: Array<{ index: number; constraint: string }> = [];
+
+    for (let other = 0; other < index; other++) {
+      const otherName = variables[other].name;
+      const chosen = assignment[other];
+
+      const required = candidate.peerDependencies?.[otherName];
+      if (required && !acceptsVersion(required, chosen.version)) {
+        blockers.push({
+          index: other,
+          constraint: `${name}@${candidate.version} requires ${otherName} ${required} (got ${chosen.version})`,
+        });
+        continue;
+      }
+
+      const requiredBy = chosen.peerDependencies?.[name];
+      if (requiredBy && !acceptsVersion(requiredBy, candidate.version)) {
+        blockers.push({
+          index: other,
+          constraint: `${otherName}@${chosen.version} requires ${name} ${requiredBy} (got ${candidate.version})`,
+        });
+      }
+    }
+
+    return blockers;
+  }
+
+  /**
+   * Garde l'échec le plus profond : c'est la contrainte qui a empêché d'aller le plus loin
+   */
+  private recordFailure(index: number, variable: ResolverVariable, rejections: string[]): void {
+    if (this.deepestFailure && this.deepestFailure.index > index) return;
+
+    // Les versions les plus récentes en premier, ce sont celles que l'utilisateur visera
+    const constraints = [...new Set(rejections.reverse())].slice(0, MAX_EXPLAINED_CONSTRAINTS);
+    const from = variable.currentVersion ? ` from ${variable.currentVersion} on` : '';
+
+    this.deepestFailure = {
+      index,
+      constraint: {
+        package: variable.name,
+        reason: `No version of ${variable.name}${from} is compatible with the rest of the dependency set`,
+        constraints,
+      },
+    };
+  }
+
+  private unsatisfiable(
+    targetVersion: string,
+    constraint: UnsatisfiableConstraint
+  ): UpgradeResolution {
+    return {
+      targetVersion,
+      satisfiable: false,
+      packageJsonPatch: {},
+      changes: [],
+      unsatisfiable: constraint,
+    };
+  }
+
+  /**
+   * Conserve le style de la spec d'origine (exacte, ~ ou ^)
+   */
+  private formatSpec(originalSpec: string, version: string): string {
+    if (semver.valid(originalSpec)) return version;
+    if (originalSpec.startsWith('~')) return `~${version}`;
+    return `^${version}`;
+  }
+}
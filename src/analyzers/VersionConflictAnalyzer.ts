@@ -0,0 +1,154 @@
+import type { AnalysisResult, NpmLockPackage, VersionConflict } from '../types/index.js';
+
+import { BaseAnalyzer } from './BaseAnalyzer.js';
+
+/**
+ * Paquets dont une seconde copie casse l'application à l'exécution
+ * (injecteurs, zones et observables dupliqués)
+ */
+const RUNTIME_SINGLETONS = ['rxjs', 'zone.js'];
+
+/**
+ * Détecte les paquets installés en plusieurs versions dans le lock file
+ * (entrées imbriquées `node_modules/foo/node_modules/@angular/core`) et indique
+ * la chaîne de dépendances qui a amené chaque copie.
+ */
+export class VersionConflictAnalyzer extends BaseAnalyzer {
+  async analyze(): Promise<Partial<AnalysisResult>> {
+    return { conflicts: this.findConflicts() };
+  }
+
+  public findConflicts(): VersionConflict[] {
+    const packages = this.lockFile?.packages;
+    if (!packages) return [];
+
+    const dependents = this.collectDependents(packages);
+    const parents = this.collectShortestParents(packages);
+
+    // Regrouper les copies par nom de package puis par version
+    const copies = new Map<string, Map<string, string[]>>();
+    for (const [location, entry] of Object.entries(packages)) {
+      const name = this.getLockPackageName(location);
+      if (!name || !entry.version || entry.link) continue;
+      if (this.isPackageExcluded(name)) continue;
+      if (entry.dev && !this.config.analysis.includeDevDependencies) continue;
+
+      if (!copies.has(name)) copies.set(name, new Map());
+      const byVersion = copies.get(name);
+      if (!byVersion.has(entry.version)) byVersion.set(entry.version, []);
+      byVersion.get(entry.version).push(location);
+    }
+
+    const conflicts: VersionConflict[] = [];
+    for (const [name, byVersion] of copies) {
+      if (byVersion.size < 2) continue;
+
+      const versions = [...byVersion.entries()].map(([version, locations]) => {
+        const requiredBy = new Set<string>();
+        for (const location of locations) {
+          for (const dependent of dependents.get(location) || []) {
+            requiredBy.add(this.formatChain(dependent, parents, packages));
+          }
+        }
+
+        return {
+          version,
+          requiredBy: [...requiredBy].sort(),
+          paths: locations.sort(),
+        };
+      });
+
+      conflicts.push({
+        package: name,
+        versions,
+        severity: this.isRuntimeSingleton(name) ? 'error' : 'warning',
+      });
+    }
+
+    return conflicts.sort((a, b) => {
+      if (a.severity !== b.severity) return a.severity === 'error' ? -1 : 1;
+      return a.package.localeCompare(b.package);
+    });
+  }
+
+  private isRuntimeSingleton(packageName: string): boolean {
+    return packageName.startsWith('@angular/') || RUNTIME_SINGLETONS.includes(packageName);
+  }
+
+  /**
+   * Pour chaque emplacement, les emplacements qui le résolvent comme dépendance
+   */
+  private collectDependents(packages: Record<string, NpmLockPackage>): Map<string, string[]> {
+    const dependents = new Map<string, string[]>();
+
+    for (const location of Object.keys(packages)) {
+      for (const target of this.resolveDependencies(location)) {
+        if (!dependents.has(target)) dependents.set(target, []);
+        dependents.get(target).push(location);
+      }
+    }
+
+    return dependents;
+  }
+
+  /**
+   * Parcours en largeur depuis la racine pour obtenir la chaîne la plus courte vers chaque copie
+   */
+  private collectShortestParents(packages: Record<string, NpmLockPackage>): Map<string, string> {
+    const parents = new Map<string, string>();
+    const queue = [''];
+    const visited = new Set(queue);
+
+    // Les workspaces sont des racines au même titre que le projet
+    for (const location of Object.keys(packages)) {
+      if (location && !location.includes('node_modules/')) {
+        parents.set(location, '');
+        visited.add(location);
+        queue.push(location);
+      }
+    }
+
+    while (queue.length > 0) {
+      const location = queue.shift();
+      for (const target of this.resolveDependencies(location)) {
+        if (visited.has(target)) continue;
+        visited.add(target);
+        parents.set(target, location);
+        queue.push(target);
+      }
+    }
+
+    return parents;
+  }
+
+  private resolveDependencies(location: string): string[] {
+    return this.getLockDependencyEdges(location).map(edge => edge.target);
+  }
+
+  private formatChain(
+    location: string,
+    parents: Map<string, string>,
+    packages: Record<string, NpmLockPackage>
+  ): string {
+    const labels: string[] = [];
+    const seen = new Set<string>();
+    let current: string | undefined = location;
+
+    while (current !== undefined && !seen.has(current)) {
+      seen.add(current);
+      labels.unshift(this.formatLocation(current, packages));
+      current = current === '' ? undefined : parents.get(current);
+    }
+
+    return labels.join(' > ');
+  }
+
+  private formatLocation(location: string, packages: Record<string, NpmLockPackage>): string {
+    if (location === '') return this.packageJson.name;
+
+    const name = this.getLockPackageName(location);
+    const version = packages[location]?.version;
+    if (!name) return packages[location]?.name || location;
+    return version ? `${name}@${version}` : name;
+  }
+}
@@ -0,0 +1,189 @@
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+
+import { createAnalyzerConfig } from '../../MigrationAnalyzerSimple.js';
+import { exportCache, importCache } from '../../utils/cache/CacheArchive.js';
+import { createCacheStore, type CacheStore } from '../../utils/cache/CacheStore.js';
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const parseDuration = (value: string): number => {
+  const match = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w)?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration "${value}", expected e.g. 90m, 12h or 7d`);
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2] || 'ms'];
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatAge = (storedAt: number): string => {
+  const minutes = Math.floor((Date.now() - storedAt) / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h`;
+  return `${Math.floor(minutes / (24 * 60))}d`;
+};
+
+const openCache = (project: string): CacheStore =>
+  createCacheStore(createAnalyzerConfig().cache, resolve(project));
+
+// Every subcommand reports errors the same way and exits with 1
+const run =
+  <T extends unknown[]>(action: (...args: T) => void) =>
+  (...args: T): void => {
+    try {
+      action(...args);
+    } catch (error) {
+      console.error(chalk.red(error.message));
+      process.exit(1);
+    }
+  };
+
+const statsCommand = new Command('stats')
+  .description('Show entry counts and sizes per namespace')
+  .option('-p, --project <path>', 'Path to Angular project', '.')
+  .option('--json', 'Output in JSON format')
+  .action(
+    run(options => {
+      const cache = openCache(options.project);
+      const stats = cache.stats();
+
+      if (options.json) {
+        console.log(JSON.stringify({ ...stats, backends: cache.backends() }, null, 2));
+        return;
+      }
+
+      console.log(chalk.bold('\nCache'));
+      cache.backends().forEach(backend => {
+        const mode = backend.readOnly ? ' (read-only)' : '';
+        console.log(chalk.gray(`  ${backend.name}${mode}: ${backend.location ?? 'in memory'}`));
+      });
+
+      console.log(`\n  ${stats.entries} entries, ${formatBytes(stats.bytes)}`);
+      Object.entries(stats.namespaces).forEach(([namespace, usage]) => {
+        console.log(`  - ${namespace}: ${usage.entries} entries, ${formatBytes(usage.bytes)}`);
+      });
+
+      if (stats.oldestEntry && stats.newestEntry) {
+        console.log(
+          chalk.gray(
+            `\n  Oldest entry: ${stats.oldestEntry.toISOString()}` +
+              `\n  Newest entry: ${stats.newestEntry.toISOString()}`
+          )
+        );
+      }
+    })
+  );
+
+const lsCommand = new Command('ls')
+  .description('List cached entries')
+  .option('-p, --project <path>', 'Path to Angular project', '.')
+  .option('-n, --namespace <name>', 'Only list one namespace, e.g. packuments')
+  .option('--json', 'Output in JSON format')
+  .action(
+    run(options => {
+      const entries = openCache(options.project).list(options.namespace);
+
+      if (options.json) {
+        console.log(JSON.stringify(entries, null, 2));
+        return;
+      }
+      if (entries.length === 0) {
+        console.log(chalk.yellow('The cache is empty'));
+        return;
+      }
+
+      entries.forEach(entry => {
+        const source = entry.source === 'bundle' ? chalk.gray(' [bundle]') : '';
+        console.log(
+          `${chalk.gray(entry.namespace)}  ${entry.key}  ` +
+            chalk.gray(`${formatBytes(entry.size)}, ${formatAge(entry.storedAt)} old`) +
+            source
+        );
+      });
+    })
+  );
+
+const clearCommand = new Command('clear')
+  .description('Delete cached entries')
+  .option('-p, --project <path>', 'Path to Angular project', '.')
+  .option('-n, --namespace <name>', 'Only clear one namespace, e.g. breaking-changes')
+  .action(
+    run(options => {
+      const cache = openCache(options.project);
+      const count = cache.list(options.namespace).filter(entry => entry.source !== 'bundle').length;
+
+      cache.clear(options.namespace);
+      console.log(chalk.green(`✓ Removed ${count} cache entries`));
+    })
+  );
+
+const pruneCommand = new Command('prune')
+  .description('Delete entries written before a given age')
+  .requiredOption('--older-than <duration>', 'Age such as 90m, 12h or 7d')
+  .option('-p, --project <path>', 'Path to Angular project', '.')
+  .option('-n, --namespace <name>', 'Only prune one namespace')
+  .action(
+    run(options => {
+      const removed = openCache(options.project).prune(
+        parseDuration(options.olderThan),
+        options.namespace
+      );
+      console.log(
+        chalk.green(`✓ Removed ${removed} cache entries older than ${options.olderThan}`)
+      );
+    })
+  );
+
+const exportCommand = new Command('export')
+  .description('Save the cache to a tarball, e.g. to pre-warm an offline build agent')
+  .argument('<file>', 'Tarball to write, e.g. ngma-cache.tgz')
+  .option('-p, --project <path>', 'Path to Angular project', '.')
+  .option('-n, --namespace <name>', 'Only export one namespace')
+  .action(
+    run((file: string, options) => {
+      const count = exportCache(openCache(options.project), file, options.namespace);
+      console.log(chalk.green(`✓ Exported ${count} cache entries to ${file}`));
+    })
+  );
+
+const importCommand = new Command('import')
+  .description('Load a tarball written by `ngma cache export`')
+  .argument('<file>', 'Tarball to read')
+  .option('-p, --project <path>', 'Path to Angular project', '.')
+  .action(
+    run((file: string, options) => {
+      if (!existsSync(file)) {
+        throw new Error(`File not found: ${file}`);
+      }
+
+      const result = importCache(openCache(options.project), file);
+      console.log(chalk.green(`✓ Imported ${result.imported} cache entries from ${file}`));
+      if (result.skipped > 0) {
+        console.log(chalk.gray(`  ${result.skipped} entries kept, the local copy is newer`));
+      }
+    })
+  );
+
+export const cacheCommand = new Command('cache')
+  .description('Inspect, prune, export and import the registry and breaking-change cache')
+  .addCommand(statsCommand)
+  .addCommand(lsCommand)
+  .addCommand(clearCommand)
+  .addCommand(pruneCommand)
+  .addCommand(exportCommand)
+  .addCommand(importCommand);
@@ -0,0 +1,55 @@
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+
+import {
+  getCompatibilityLayers,
+  validateCompatibilityFile,
+  type CompatibilityLayer,
+} from '../../services/CompatibilityDatabase.js';
+import { COMPATIBILITY_DATA_FILE } from '../../utils/PackagePaths.js';
+
+const validateCommand = new Command('validate')
+  .description('Check compatibility files against the schema, by default every layer in use')
+  .argument('[files...]', 'Compatibility files to check instead of the layers in use')
+  .option('-p, --project <path>', 'Path to Angular project', '.')
+  .action((files: string[], options) => {
+    const layers: Array<Pick<CompatibilityLayer, 'path'> & { layer?: string }> =
+      files.length > 0
+        ? files.map(path => ({ path }))
+        : getCompatibilityLayers(resolve(options.project), COMPATIBILITY_DATA_FILE);
+
+    let failed = false;
+    for (const { layer, path } of layers) {
+      const label = layer ? `${layer}: ${path}` : path;
+
+      if (!existsSync(path)) {
+        // The project file is optional, an explicit path is not
+        if (layer === 'project') {
+          console.log(chalk.gray(`- ${label} (not present)`));
+          continue;
+        }
+        failed = true;
+        console.log(chalk.red(`❌ ${label}: file not found`));
+        continue;
+      }
+
+      const { entries, errors } = validateCompatibilityFile(path);
+      if (errors.length === 0) {
+        console.log(chalk.green(`✅ ${label} (${entries} entries)`));
+        continue;
+      }
+
+      failed = true;
+      console.log(chalk.red(`❌ ${label}`));
+      errors.forEach(error => console.log(chalk.gray(`   - ${error}`)));
+    }
+
+    if (failed) process.exit(1);
+  });
+
+export const compatCommand = new Command('compat')
+  .description('Manage the third-party compatibility database and its overrides')
+  .addCommand(validateCommand);
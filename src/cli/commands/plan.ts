@@ -0,0 +1,98 @@
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { basename, join } from 'path';
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import ora from 'ora';
+
+import { MigrationAnalyzer } from '../../MigrationAnalyzerSimple.js';
+import {
+  formatMigrationPlanMarkdown,
+  generateHopScript,
+  hopScriptName,
+} from '../../utils/MigrationPlanFormatter.js';
+import { describeDegradedSources } from '../../utils/ReportFormatter.js';
+
+export const planCommand = new Command('plan')
+  .description('Plan a migration across several majors, one hop and one script per major')
+  .requiredOption(
+    '--to <version>',
+    'Target Angular version: a major, an exact version such as 20.0.0-rc.1 or a dist-tag such as next'
+  )
+  .option('-p, --project <path>', 'Path to Angular project', '.')
+  .option('--json', 'Output the plan in JSON format')
+  .option('--offline', 'Use only the cache and bundled data, never the network')
+  .action(async options => {
+    const spinner = ora('Detecting Angular version...').start();
+
+    try {
+      const analyzer = new MigrationAnalyzer({
+        projectPath: options.project,
+        toVersion: options.to,
+        offline: options.offline,
+      });
+
+      await analyzer.detectAngularVersion();
+
+      spinner.text = `Planning Angular ${analyzer.fromVersion} → ${analyzer.targetVersion}...`;
+      const projectName =
+        options.project === '.' || options.project === './'
+          ? basename(process.cwd())
+          : basename(options.project);
+      const plan = {
+        ...(await analyzer.planMigration(analyzer.targetVersion)),
+        projectPath: projectName,
+      };
+
+      if (options.json) {
+        spinner.stop();
+        console.log(JSON.stringify(plan, null, 2));
+      } else {
+        spinner.succeed(
+          `${plan.hops.length} hop(s) from Angular ${plan.fromVersion} to ${plan.toVersion}`
+        );
+        console.log('');
+        plan.hops.forEach((hop, index) => {
+          const peers = hop.peerUpdates.satisfiable
+            ? `${hop.peerUpdates.changes.length} package update(s)`
+            : chalk.red('no compatible dependency set');
+          console.log(
+            `  ${index + 1}. ${hop.fromVersion} → ${hop.toVersion}: ` +
+              `${hop.breakingChanges.length} breaking change(s), ${peers}`
+          );
+        });
+        describeDegradedSources(plan.metadata).forEach(line => {
+          console.log(chalk.yellow(`  ⚠️ ${line}`));
+        });
+      }
+
+      const dir = join(options.project, '.ngma');
+      const scriptsDir = join(dir, 'migration-plan');
+      // Scripts of an earlier plan with other hops must not be left behind
+      if (existsSync(scriptsDir)) {
+        rmSync(scriptsDir, { recursive: true, force: true });
+      }
+      mkdirSync(scriptsDir, { recursive: true });
+
+      writeFileSync(join(dir, 'migration-plan.json'), JSON.stringify(plan, null, 2));
+      writeFileSync(join(dir, 'migration-plan.md'), formatMigrationPlanMarkdown(plan));
+      plan.hops.forEach((hop, index) => {
+        writeFileSync(
+          join(scriptsDir, hopScriptName(hop, index)),
+          generateHopScript(plan, hop, index),
+          { mode: 0o755 }
+        );
+      });
+
+      if (!options.json) {
+        console.log(chalk.green(`\nPlan saved to: .ngma/migration-plan.md`));
+        console.log(chalk.green(`Hop scripts saved to: .ngma/migration-plan/`));
+      }
+
+      if (plan.hops.some(hop => !hop.peerUpdates.satisfiable)) process.exit(1);
+    } catch (error) {
+      spinner.fail('Migration planning failed');
+      console.error(chalk.red(error.message));
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,81 @@
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import ora from 'ora';
+
+import { MigrationAnalyzer } from '../../MigrationAnalyzerSimple.js';
+
+export const resolveCommand = new Command('resolve')
+  .description(
+    'Compute a package.json patch in which every peer dependency holds for the target version'
+  )
+  .option('-p, --project <path>', 'Path to Angular project', '.')
+  .option('--to <version>', 'Target Angular version: a major, an exact version such as 20.0.0-rc.1 or a dist-tag such as next')
+  .option('-o, --output <file>', 'Save the package.json patch to file')
+  .option('--json', 'Output the full resolution in JSON format')
+  .action(async options => {
+    const spinner = ora('Detecting Angular version...').start();
+
+    try {
+      const analyzer = new MigrationAnalyzer({
+        projectPath: options.project,
+        toVersion: options.to,
+      });
+
+      await analyzer.detectAngularVersion();
+
+      spinner.text = `Resolving dependencies for Angular ${analyzer.targetVersion}...`;
+      const resolution = await analyzer.resolveUpgrade();
+
+      if (options.json) {
+        spinner.stop();
+        console.log(JSON.stringify(resolution, null, 2));
+        if (!resolution.satisfiable) process.exit(1);
+        return;
+      }
+
+      if (!resolution.satisfiable) {
+        spinner.fail(
+          `No dependency set satisfies every peer dependency for Angular ${analyzer.targetVersion}`
+        );
+        console.error(chalk.red(`\n${resolution.unsatisfiable.reason}`));
+        resolution.unsatisfiable.constraints.forEach(constraint => {
+          console.error(chalk.gray(`  - ${constraint}`));
+        });
+        process.exit(1);
+      }
+
+      spinner.succeed(
+        `${resolution.changes.length} package(s) to update for Angular ${analyzer.targetVersion}`
+      );
+
+      if (resolution.changes.length > 0) {
+        console.log('');
+        resolution.changes.forEach(change => {
+          console.log(`  ${change.package}: ${chalk.red(change.from)} → ${chalk.green(change.to)}`);
+        });
+
+        console.log(chalk.bold('\npackage.json patch:'));
+        console.log(JSON.stringify(resolution.packageJsonPatch, null, 2));
+      }
+
+      // Save to file if requested
+      if (options.output) {
+        const dir = join(options.project, '.ngma');
+        if (!existsSync(dir)) {
+          mkdirSync(dir, { recursive: true });
+        }
+        writeFileSync(
+          join(dir, options.output),
+          JSON.stringify(resolution.packageJsonPatch, null, 2)
+        );
+        console.log(chalk.green(`\nPatch saved to: .ngma/${options.output}`));
+      }
+    } catch (error) {
+      spinner.fail('Dependency resolution failed');
+      console.error(chalk.red(error.message));
+      process.exit(1);
+    }
+  });
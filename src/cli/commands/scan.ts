@@ -1,26 +1,38 @@
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import { join, basename } from 'path';
 import * as path from 'path';
+import { DEFAULT_STALE_AFTER_MONTHS } from '../../analyzers/MaintenanceHealthAnalyzer.js';
 import { MigrationAnalyzer } from '../../MigrationAnalyzerSimple.js';
 import { formatAnalysisReport } from '../../utils/ReportFormatter.js';
 
 export const scanCommand = new Command('scan')
   .description('Analyze project for Angular migration issues')
   .option('-p, --project <path>', 'Path to Angular project', '.')
+  .option('--to <version>', 'Target Angular version: a major, an exact version such as 20.0.0-rc.1 or a dist-tag such as next')
   .option('-o, --output <file>', 'Output report to file')
   .option('--json', 'Output in JSON format')
   .option('--export-summary', 'Export migration summary as markdown')
   .option('--ci', 'CI mode: fail with exit code 1 if critical issues found')
   .option('--quiet', 'Suppress console output except errors')
   .option('--threshold <level>', 'Exit code threshold: critical, high, medium, low', 'critical')
+  .option('--offline', 'Use only the cache and bundled data, never the network')
+  .option('--stale-months <months>', 'Flag dependencies without a release for this many months', (value: string) => {
+    const months = Number(value);
+    if (!Number.isInteger(months) || months <= 0) {
+      throw new InvalidArgumentError('Expected a positive number of months.');
+    }
+    return months;
+  }, DEFAULT_STALE_AFTER_MONTHS)
   .action(async (options) => {
     const spinner = ora('Analyzing project...').start();
     
     try {
       const analyzer = new MigrationAnalyzer({
-        projectPath: options.project
+        projectPath: options.project,
+        toVersion: options.to,
+        offline: options.offline
       });
       
       // Step 1: Detect Angular version
@@ -28,8 +40,10 @@ export const scanCommand = new Command('scan')
       const detectedVersion = await analyzer.detectAngularVersion();
       
       if (!options.quiet) {
-        console.log(chalk.blue(`\nDetected Angular version: ${detectedVersion}`));
-        console.log(chalk.yellow(`Migration target: Angular ${analyzer.toVersion} (n+1)`));
+        const installed = analyzer.installedVersion ? ` (${analyzer.installedVersion} installed)` : '';
+        console.log(chalk.blue(`\nDetected Angular version: ${detectedVersion}${installed}`));
+        const target = options.to ? analyzer.targetVersion : `${analyzer.toVersion} (n+1)`;
+        console.log(chalk.yellow(`Migration target: Angular ${target}`));
       }
       
       // Step 2: Download breaking changes
@@ -55,6 +69,22 @@ export const scanCommand = new Command('scan')
       spinner.text = 'Checking peer dependencies...';
       const peerDeps = await analyzer.analyzePeerDependencies();
       
+      // Step 6: Detect duplicate installs
+      spinner.text = 'Detecting duplicate installs...';
+      const versionConflicts = await analyzer.analyzeVersionConflicts();
+      
+      // Step 7: Check that the @angular/* packages move together
+      spinner.text = 'Checking @angular/* alignment...';
+      const frameworkAlignment = await analyzer.analyzeFrameworkAlignment();
+      
+      // Step 8: Versions of Material, NgRx, angular-eslint... for the target
+      spinner.text = 'Aligning companion packages...';
+      const companionAlignment = await analyzer.analyzeCompanionAlignment();
+      
+      // Step 9: Deprecated and unmaintained third-party packages
+      spinner.text = 'Checking dependency maintenance...';
+      const maintenanceHealth = await analyzer.analyzeMaintenanceHealth({ staleAfterMonths: options.staleMonths });
+      
       if (!options.quiet) {
         spinner.succeed('Analysis complete!');
       } else {
@@ -70,6 +100,7 @@ export const scanCommand = new Command('scan')
         projectPath: projectName,
         fromVersion: analyzer.fromVersion,
         toVersion: analyzer.toVersion,
+        targetVersion: analyzer.targetVersion,
         summary: {
           filesImpacted: patterns.length,
           breakingChanges: analyzer.breakingChanges.length,
@@ -78,7 +109,13 @@ export const scanCommand = new Command('scan')
         dependencies: depAnalysis,
         patterns: patterns,
         peerDependencies: peerDeps,
-        breakingChanges: analyzer.breakingChanges
+        breakingChanges: analyzer.breakingChanges,
+        versionConflicts,
+        frameworkAlignment,
+        companionAlignment,
+        maintenanceHealth,
+        registry: analyzer.getRegistryStats(),
+        metadata: analyzer.getReportMetadata()
       };
       
       // Output report
@@ -132,7 +169,10 @@ export const scanCommand = new Command('scan')
           const patternPriority = severityMap[p.severity] || 'low';
           const priorityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
           return priorityOrder[patternPriority] <= priorityOrder[thresholdPriority];
-        }) || (report.peerDependencies?.conflicts?.length > 0 && thresholdPriority !== 'low');
+        }) || (report.peerDependencies?.conflicts?.some(c => c.severity !== 'warning')
+            && thresholdPriority !== 'low')
+          || report.versionConflicts.some(c => c.severity === 'error')
+          || report.frameworkAlignment.misaligned.some(m => m.severity === 'error');
         
         if (hasIssuesAboveThreshold) {
           if (!options.quiet) {
@@ -3,14 +3,17 @@ import chalk from 'chalk';
 import ora from 'ora';
 import { readFileSync } from 'fs';
 import { MigrationAnalyzer } from '../../MigrationAnalyzerSimple.js';
+import { BREAKING_CHANGE_DATASET_MIN_VERSION } from '../../services/BreakingChangeDataset.js';
 import { SuggestionEngine } from '../../utils/SuggestionEngine.js';
 
 export const suggestCommand = new Command('suggest')
   .description('Suggest migration fixes and improvements without modifying files')
   .option('-p, --project <path>', 'Path to Angular project', '.')
+  .option('--to <version>', 'Target Angular version: a major, an exact version such as 20.0.0-rc.1 or a dist-tag such as next')
   .option('-r, --report <file>', 'Path to existing scan report file')
   .option('--format <type>', 'Output format: console, markdown, json', 'console')
   .option('-o, --output <file>', 'Save suggestions to file')
+  .option('--offline', 'Use only the cache and bundled data, never the network')
   .action(async (options) => {
     const spinner = ora('Loading analysis report...').start();
     
@@ -23,14 +26,16 @@ export const suggestCommand = new Command('suggest')
       } else {
         spinner.text = 'Running analysis...';
         const analyzer = new MigrationAnalyzer({
-          projectPath: options.project
+          projectPath: options.project,
+          toVersion: options.to,
+          offline: options.offline
         });
         
         await analyzer.detectAngularVersion();
         
-        // Check minimum version (Angular 17+)
-        if (Number(analyzer.fromVersion) < 17) {
-          throw new Error(`This tool only supports Angular 17 and above. Detected version: ${analyzer.fromVersion}`);
+        // Check minimum version, the oldest one the bundled breaking-change dataset covers
+        if (Number(analyzer.fromVersion) < BREAKING_CHANGE_DATASET_MIN_VERSION) {
+          throw new Error(`This tool only supports Angular ${BREAKING_CHANGE_DATASET_MIN_VERSION} and above. Detected version: ${analyzer.fromVersion}`);
         }
         
         await analyzer.fetchBreakingChanges();
@@ -42,10 +47,13 @@ export const suggestCommand = new Command('suggest')
           projectPath: options.project,
           fromVersion: analyzer.fromVersion,
           toVersion: analyzer.toVersion,
+          targetVersion: analyzer.targetVersion,
           patterns: patterns,
           dependencies: depAnalysis,
           peerDependencies: peerDeps,
-          breakingChanges: analyzer.breakingChanges
+          breakingChanges: analyzer.breakingChanges,
+          registry: analyzer.getRegistryStats(),
+          metadata: analyzer.getReportMetadata()
         };
       }
       
@@ -3,19 +3,30 @@ import chalk from 'chalk';
 import ora from 'ora';
 import { MigrationAnalyzer } from '../../MigrationAnalyzerSimple.js';
 import { ValidationResult } from '../../types/index.js';
+import { describeDegradedSources } from '../../utils/ReportFormatter.js';
 
 export const validateCommand = new Command('validate')
   .description('Validate project after migration')
   .option('-p, --project <path>', 'Path to Angular project', '.')
+  .option('--to <version>', 'Target Angular version: a major, an exact version such as 20.0.0-rc.1 or a dist-tag such as next')
   .option('--strict', 'Enable strict validation')
+  .option('--offline', 'Use only the cache and bundled data, never the network')
   .action(async (options) => {
     const spinner = ora('Running validation...').start();
     
     try {
       const analyzer = new MigrationAnalyzer({
-        projectPath: options.project
+        projectPath: options.project,
+        toVersion: options.to,
+        offline: options.offline
       });
       
+      // With an explicit target, peer dependencies are checked against it
+      if (options.to) {
+        spinner.text = 'Resolving target version...';
+        await analyzer.detectAngularVersion();
+      }
+      
       interface ValidationCheck {
         name: string;
         check: () => Promise<ValidationResult>;
@@ -30,6 +41,10 @@ export const validateCommand = new Command('validate')
           name: 'Verifying peer dependencies',
           check: () => analyzer.validatePeerDependencies()
         },
+        {
+          name: 'Checking @angular/* alignment',
+          check: () => analyzer.validateFrameworkAlignment()
+        },
         {
           name: 'Checking TypeScript configuration',
           check: () => analyzer.validateTypeScriptConfig()
@@ -82,6 +97,11 @@ export const validateCommand = new Command('validate')
         }
       });
       
+      // Checks that ran on expired or bundled data
+      describeDegradedSources(analyzer.getReportMetadata()).forEach(line => {
+        console.log(chalk.yellow(`⚠️  ${line}`));
+      });
+      
       // Summary
       console.log('\n' + chalk.bold('Summary:'));
       if (allPassed) {
@@ -0,0 +1,75 @@
+import chalk from 'chalk';
+import { Command } from 'commander';
+
+import { MigrationAnalyzer } from '../../MigrationAnalyzerSimple.js';
+import type { DependencyPathStep } from '../../types/index.js';
+
+const formatStep = (step: DependencyPathStep): string => {
+  const label = `${step.name}@${step.version}`;
+  if (!step.range) return chalk.bold(label);
+
+  const kind = step.type === 'dependencies' ? '' : `${step.type.replace('Dependencies', '')} `;
+  return `${chalk.bold(label)} ${chalk.gray(`(${kind}${step.range})`)}`;
+};
+
+const formatPeer = (peer: DependencyPathStep['peers'][number]): string => {
+  const optional = peer.optional ? ' optional' : '';
+  const requirement = `peer${optional} ${peer.name} ${peer.range}`;
+
+  if (peer.satisfied) return chalk.green(`✓ ${requirement} → ${peer.version}`);
+  if (peer.version === null) {
+    return peer.optional
+      ? chalk.gray(`- ${requirement} → not installed`)
+      : chalk.red(`✗ ${requirement} → not installed`);
+  }
+  return chalk.red(`✗ ${requirement} → ${peer.version}`);
+};
+
+export const whyCommand = new Command('why')
+  .description('Explain why a package is installed by listing every dependency chain')
+  .argument('<package>', 'Package name, e.g. @angular/core')
+  .option('-p, --project <path>', 'Path to Angular project', '.')
+  .option('--json', 'Output in JSON format')
+  .action((packageName: string, options) => {
+    try {
+      const analyzer = new MigrationAnalyzer({
+        projectPath: options.project,
+      });
+
+      const explanation = analyzer.explainPackage(packageName);
+
+      if (options.json) {
+        console.log(JSON.stringify(explanation, null, 2));
+      } else if (explanation.paths.length === 0) {
+        console.log(chalk.yellow(`${packageName} is not installed`));
+      } else {
+        console.log(
+          chalk.bold(`\n${packageName}@${explanation.versions.join(', ')}`) +
+            chalk.gray(` - ${explanation.paths.length} dependency chain(s)\n`)
+        );
+
+        explanation.paths.forEach(path => {
+          path.forEach((step, depth) => {
+            const indent = depth === 0 ? '  ' : `  ${'   '.repeat(depth - 1)}└─ `;
+            console.log(`${indent}${formatStep(step)}`);
+
+            step.peers.forEach(peer => {
+              console.log(`  ${'   '.repeat(depth)}   ${formatPeer(peer)}`);
+            });
+          });
+          console.log('');
+        });
+
+        if (explanation.truncated) {
+          console.log(chalk.gray(`Only the first ${explanation.paths.length} chains are shown`));
+        }
+      }
+
+      if (explanation.paths.length === 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(chalk.red(error.message));
+      process.exit(1);
+    }
+  });
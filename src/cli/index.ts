@@ -2,11 +2,18 @@
 
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { readFileSync } from 'fs';
+import { existsSync, readFileSync } from 'fs';
 import { join } from 'path';
+
+import { configureHttpFixtures } from '../utils/HttpFixtures.js';
+import { cacheCommand } from './commands/cache.js';
+import { compatCommand } from './commands/compat.js';
+import { planCommand } from './commands/plan.js';
+import { resolveCommand } from './commands/resolve.js';
 import { scanCommand } from './commands/scan.js';
 import { suggestCommand } from './commands/suggest.js';
 import { validateCommand } from './commands/validate.js';
+import { whyCommand } from './commands/why.js';
 
 // Read package.json for version
 import { fileURLToPath } from 'url';
@@ -25,9 +32,29 @@ program
   .name('ngma')
   .description(chalk.blue('Angular Migration Analyzer - Smart migration assistant'))
   .version(packageJson.version)
+  .option('--record <dir>', 'Record registry and Angular API responses into a fixture directory')
+  .option('--replay <dir>', 'Serve registry and Angular API responses only from a fixture directory')
+  .hook('preAction', () => {
+    const { record, replay } = program.opts();
+    if (record && replay) {
+      console.error(chalk.red('--record and --replay cannot be used together'));
+      process.exit(1);
+    }
+    if (replay && !existsSync(replay)) {
+      console.error(chalk.red(`Fixture directory not found: ${replay}`));
+      process.exit(1);
+    }
+    if (record) configureHttpFixtures('record', record);
+    if (replay) configureHttpFixtures('replay', replay);
+  })
   .addCommand(scanCommand)
   .addCommand(suggestCommand)
-  .addCommand(validateCommand);
+  .addCommand(validateCommand)
+  .addCommand(resolveCommand)
+  .addCommand(planCommand)
+  .addCommand(whyCommand)
+  .addCommand(cacheCommand)
+  .addCommand(compatCommand);
 
 // Add examples
 program.on('--help', () => {
@@ -37,6 +64,13 @@ program.on('--help', () => {
   console.log('  $ ngma suggest                  # Get migration suggestions without modifying files');
   console.log('  $ ngma suggest --format markdown # Export suggestions as markdown');
   console.log('  $ ngma validate                 # Validate after migration');
+  console.log('  $ ngma resolve                  # Compute the package.json changes for n+1');
+  console.log('  $ ngma plan --to 19             # Plan a migration across several majors');
+  console.log('  $ ngma why @angular/core        # Explain why a package is installed');
+  console.log('  $ ngma scan --record fixtures   # Save every network response for later replays');
+  console.log('  $ ngma scan --replay fixtures   # Rerun a scan offline from recorded responses');
+  console.log('  $ ngma cache export cache.tgz   # Save the cache for a machine without network access');
+  console.log('  $ ngma compat validate          # Check the compatibility database and its overrides');
 });
 
 program.parse(process.argv);
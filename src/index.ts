@@ -12,6 +12,13 @@ export { AutoFixer } from './utils/AutoFixer.js';
 // Core analyzer exports (still needed by MVP)
 export { BaseAnalyzer } from './analyzers/BaseAnalyzer.js';
 export { PeerDependencyAnalyzer } from './analyzers/PeerDependencyAnalyzer.js';
+export { VersionConflictAnalyzer } from './analyzers/VersionConflictAnalyzer.js';
+export { UpgradeResolver } from './analyzers/UpgradeResolver.js';
+export { DependencyPathAnalyzer } from './analyzers/DependencyPathAnalyzer.js';
+export { FrameworkAlignmentAnalyzer } from './analyzers/FrameworkAlignmentAnalyzer.js';
+export { CompanionAlignmentAnalyzer } from './analyzers/CompanionAlignmentAnalyzer.js';
+export { MaintenanceHealthAnalyzer } from './analyzers/MaintenanceHealthAnalyzer.js';
+export type { MaintenanceHealthOptions } from './analyzers/MaintenanceHealthAnalyzer.js';
 
 // Utility exports (still needed)
 export { NpmRegistryClient } from './utils/NpmRegistryClient.js';
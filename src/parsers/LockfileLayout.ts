@@ -0,0 +1,204 @@
+import type { NpmLockFile, NpmLockPackage } from '../types/index.js';
+
+/**
+ * A package resolved by a lock file, independent of where it lives on disk.
+ */
+export interface ResolvedLockPackage {
+  name: string;
+  version: string;
+  resolved?: string;
+  integrity?: string;
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  peerDependenciesMeta?: Record<string, { optional?: boolean }>;
+  /** Versions the package manager linked for each peer dependency, when recorded */
+  peerResolutions?: Record<string, string>;
+  /** Resolved package id for each dependency name */
+  edges: Record<string, string>;
+}
+
+export interface ResolvedLockRoot {
+  name: string;
+  version: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  /** Resolved package id for each direct dependency name */
+  edges: Record<string, string>;
+}
+
+/**
+ * A workspace project living next to the root, such as a pnpm importer.
+ */
+export interface ResolvedLockWorkspace extends ResolvedLockRoot {
+  /** Path relative to the root, e.g. `libs/ui` */
+  path: string;
+}
+
+/**
+ * Lock file contents as a graph: the root project plus every resolved package keyed by id.
+ */
+export interface ResolvedLockGraph {
+  root: ResolvedLockRoot;
+  workspaces?: ResolvedLockWorkspace[];
+  packages: Map<string, ResolvedLockPackage>;
+}
+
+interface PlacementItem {
+  path: string;
+  id: string;
+  chain: string[];
+  chainIds: Set<string>;
+}
+
+type PlacementParent = Omit<PlacementItem, 'id'>;
+
+/**
+ * Lays a resolved graph out as an npm v3 `packages` map (`node_modules/a/node_modules/b`).
+ * Packages are hoisted to the top level unless another version already occupies the
+ * name on the resolution path, mirroring how npm would install the same tree.
+ */
+export function buildNpmLayout(graph: ResolvedLockGraph): NpmLockFile {
+  const { root } = graph;
+  const workspaces = graph.workspaces || [];
+  const packages: Record<string, NpmLockPackage> = { '': toWorkspaceEntry(root) };
+
+  const prodIds = collectProductionIds(graph);
+  const placed = new Map<string, string>();
+  const queue: PlacementItem[] = [];
+
+  const placeEdges = (parent: PlacementParent, edges: Array<[string, string]>): void => {
+    const prefix = parent.path ? `${parent.path}/` : '';
+
+    for (const [depName, depId] of edges) {
+      const pkg = graph.packages.get(depId);
+      // Cycles resolve to the ancestor already on the path
+      if (!pkg || parent.chainIds.has(depId)) continue;
+
+      const visible = findVisible(placed, parent.chain, depName);
+      if (visible && placed.get(visible) === depId) continue;
+
+      const path = visible ? `${prefix}node_modules/${depName}` : `node_modules/${depName}`;
+      placed.set(path, depId);
+      packages[path] = toLockPackage(pkg, depName, !prodIds.has(depId));
+      queue.push({
+        path,
+        id: depId,
+        chain: [...parent.chain, path],
+        chainIds: new Set([...parent.chainIds, depId]),
+      });
+    }
+  };
+
+  // Production dependencies first so they win the top-level slots
+  placeEdges({ path: '', chain: [], chainIds: new Set() }, sortedRootEdges(root));
+
+  for (const workspace of workspaces) {
+    packages[workspace.path] = toWorkspaceEntry(workspace);
+    placeEdges(
+      { path: workspace.path, chain: [workspace.path], chainIds: new Set() },
+      sortedRootEdges(workspace)
+    );
+  }
+
+  while (queue.length > 0) {
+    const item = queue.shift();
+    placeEdges(item, Object.entries(graph.packages.get(item.id).edges));
+  }
+
+  return {
+    name: root.name,
+    version: root.version,
+    lockfileVersion: 3,
+    requires: true,
+    packages,
+  };
+}
+
+/**
+ * Returns the layout path Node's resolution would pick for `name` from the deepest
+ * package in `chain`, or null when nothing is installed under that name yet.
+ */
+function findVisible(placed: Map<string, string>, chain: string[], name: string): string | null {
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const candidate = `${chain[i]}/node_modules/${name}`;
+    if (placed.has(candidate)) return candidate;
+  }
+
+  const topLevel = `node_modules/${name}`;
+  return placed.has(topLevel) ? topLevel : null;
+}
+
+function sortedRootEdges(root: ResolvedLockRoot): Array<[string, string]> {
+  return Object.entries(root.edges).sort(
+    ([a], [b]) => Number(isDevOnly(root, a)) - Number(isDevOnly(root, b))
+  );
+}
+
+function isDevOnly(root: ResolvedLockRoot, name: string): boolean {
+  return (
+    !!root.devDependencies?.[name] &&
+    !root.dependencies?.[name] &&
+    !root.optionalDependencies?.[name]
+  );
+}
+
+function collectProductionIds(graph: ResolvedLockGraph): Set<string> {
+  const seen = new Set<string>();
+  const stack: string[] = [];
+
+  for (const root of [graph.root, ...(graph.workspaces || [])]) {
+    for (const [name, id] of Object.entries(root.edges)) {
+      if (!isDevOnly(root, name)) stack.push(id);
+    }
+  }
+
+  while (stack.length > 0) {
+    const id = stack.pop();
+    if (seen.has(id)) continue;
+    seen.add(id);
+
+    const pkg = graph.packages.get(id);
+    if (pkg) stack.push(...Object.values(pkg.edges));
+  }
+
+  return seen;
+}
+
+function toWorkspaceEntry(root: ResolvedLockRoot): NpmLockPackage {
+  return {
+    name: root.name,
+    version: root.version,
+    dependencies: root.dependencies,
+    devDependencies: root.devDependencies,
+    optionalDependencies: root.optionalDependencies,
+    peerDependencies: root.peerDependencies,
+  };
+}
+
+function toLockPackage(
+  pkg: ResolvedLockPackage,
+  installName: string,
+  dev: boolean
+): NpmLockPackage {
+  const entry: NpmLockPackage = { version: pkg.version };
+
+  // Aliased installs (`"foo": "npm:bar@1.0.0"`) keep the real name like npm does
+  if (pkg.name !== installName) entry.name = pkg.name;
+  if (pkg.resolved) entry.resolved = pkg.resolved;
+  if (pkg.integrity) entry.integrity = pkg.integrity;
+  if (dev) entry.dev = true;
+  if (hasEntries(pkg.dependencies)) entry.dependencies = pkg.dependencies;
+  if (hasEntries(pkg.optionalDependencies)) entry.optionalDependencies = pkg.optionalDependencies;
+  if (hasEntries(pkg.peerDependencies)) entry.peerDependencies = pkg.peerDependencies;
+  if (hasEntries(pkg.peerDependenciesMeta)) entry.peerDependenciesMeta = pkg.peerDependenciesMeta;
+  if (hasEntries(pkg.peerResolutions)) entry.peerResolutions = pkg.peerResolutions;
+
+  return entry;
+}
+
+function hasEntries(record?: Record<string, unknown>): boolean {
+  return !!record && Object.keys(record).length > 0;
+}
@@ -0,0 +1,302 @@
+import YAML from 'yaml';
+
+import type { NpmLockFile, PackageInfo } from '../types/index.js';
+import { ParseError } from '../types/index.js';
+
+import type {
+  ResolvedLockGraph,
+  ResolvedLockPackage,
+  ResolvedLockRoot,
+  ResolvedLockWorkspace,
+} from './LockfileLayout.js';
+import { buildNpmLayout } from './LockfileLayout.js';
+
+type PnpmImporterDependency = string | { specifier: string; version: string };
+
+interface PnpmImporter {
+  /** v5 only, v6+ inline the specifier next to each version */
+  specifiers?: Record<string, string>;
+  dependencies?: Record<string, PnpmImporterDependency>;
+  devDependencies?: Record<string, PnpmImporterDependency>;
+  optionalDependencies?: Record<string, PnpmImporterDependency>;
+}
+
+interface PnpmPackageEntry {
+  resolution?: { integrity?: string; tarball?: string };
+  name?: string;
+  version?: string;
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  peerDependenciesMeta?: Record<string, { optional?: boolean }>;
+}
+
+interface PnpmLockDocument extends PnpmImporter {
+  lockfileVersion?: string | number;
+  importers?: Record<string, PnpmImporter>;
+  packages?: Record<string, PnpmPackageEntry>;
+  /** v9 splits per-install data (resolved dependencies) out of `packages` */
+  snapshots?: Record<string, PnpmPackageEntry>;
+}
+
+interface PnpmPackageKey {
+  name: string;
+  version: string;
+  peers: Record<string, string>;
+}
+
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'optionalDependencies'] as const;
+
+/**
+ * Reads pnpm-lock.yaml files (v5, v6 and v9 formats) and turns them into the same
+ * normalized view as a package-lock.json v3. Importers other than the root become
+ * workspace entries, and the peer versions pnpm encodes in package keys such as
+ * `@angular/cdk@17.3.0(@angular/core@17.3.0)` are kept as `peerResolutions`.
+ */
+export class PnpmLockParser {
+  parse(content: string, rootPackage: PackageInfo): NpmLockFile {
+    let document: PnpmLockDocument | null;
+    try {
+      document = YAML.parse(content) as PnpmLockDocument | null;
+    } catch (error) {
+      throw new ParseError(`Invalid pnpm-lock.yaml: ${(error as Error).message}`);
+    }
+
+    if (!document || typeof document !== 'object' || document.lockfileVersion === undefined) {
+      throw new ParseError('Invalid pnpm-lock.yaml: missing lockfileVersion');
+    }
+
+    const major = parseInt(String(document.lockfileVersion), 10);
+    if (isNaN(major) || major < 5) {
+      throw new ParseError(
+        `Unsupported pnpm-lock.yaml version: ${String(document.lockfileVersion)}`
+      );
+    }
+
+    const packages = this.collectPackages(document, major);
+    const importers = document.importers || { '.': document };
+    const root = this.toRoot(importers['.'] || {}, major, packages);
+
+    const workspaces: ResolvedLockWorkspace[] = Object.entries(importers)
+      .filter(([path]) => path !== '.')
+      .map(([path, importer]) => ({
+        ...this.toRoot(importer, major, packages),
+        path,
+        name: path,
+        version: '0.0.0',
+      }));
+
+    const graph: ResolvedLockGraph = {
+      root: {
+        ...root,
+        name: rootPackage.name,
+        version: rootPackage.version,
+        dependencies: rootPackage.dependencies,
+        devDependencies: rootPackage.devDependencies,
+        optionalDependencies: rootPackage.optionalDependencies,
+        peerDependencies: rootPackage.peerDependencies,
+      },
+      workspaces,
+      packages,
+    };
+
+    return buildNpmLayout(graph);
+  }
+
+  private collectPackages(
+    document: PnpmLockDocument,
+    major: number
+  ): Map<string, ResolvedLockPackage> {
+    const metadata = document.packages || {};
+    // Before v9 `packages` holds both metadata and resolved dependencies
+    const installs = major >= 9 ? { ...metadata, ...document.snapshots } : metadata;
+    const packages = new Map<string, ResolvedLockPackage>();
+
+    for (const [key, install] of Object.entries(installs)) {
+      const parsed = this.parseKey(key, major);
+      if (!parsed) continue;
+
+      const meta = major >= 9 ? metadata[`${parsed.name}@${parsed.version}`] || install : install;
+      packages.set(key, {
+        name: meta.name || parsed.name,
+        version: meta.version || parsed.version,
+        resolved: meta.resolution?.tarball,
+        integrity: meta.resolution?.integrity,
+        dependencies: this.cleanRefs(install.dependencies, major),
+        optionalDependencies: this.cleanRefs(install.optionalDependencies, major),
+        peerDependencies: meta.peerDependencies,
+        peerDependenciesMeta: meta.peerDependenciesMeta,
+        peerResolutions: parsed.peers,
+        edges: {},
+      });
+    }
+
+    for (const [key, install] of Object.entries(installs)) {
+      const pkg = packages.get(key);
+      if (!pkg) continue;
+
+      const refs = { ...install.dependencies, ...install.optionalDependencies };
+      for (const [depName, ref] of Object.entries(refs)) {
+        const id = this.refToKey(depName, String(ref), major);
+        if (id && packages.has(id)) pkg.edges[depName] = id;
+      }
+    }
+
+    return packages;
+  }
+
+  private toRoot(
+    importer: PnpmImporter,
+    major: number,
+    packages: Map<string, ResolvedLockPackage>
+  ): ResolvedLockRoot {
+    const root: ResolvedLockRoot = { name: '', version: '', edges: {} };
+
+    for (const field of DEPENDENCY_FIELDS) {
+      const entries = importer[field];
+      if (!entries) continue;
+
+      const declared: Record<string, string> = {};
+      for (const [depName, dependency] of Object.entries(entries)) {
+        const ref = typeof dependency === 'string' ? dependency : dependency.version;
+        declared[depName] =
+          typeof dependency === 'string'
+            ? importer.specifiers?.[depName] || this.cleanRef(ref, major)
+            : dependency.specifier;
+
+        const id = this.refToKey(depName, String(ref), major);
+        if (id && packages.has(id)) root.edges[depName] = id;
+      }
+      root[field] = declared;
+    }
+
+    return root;
+  }
+
+  /**
+   * Maps a resolved reference from a `dependencies` block to the key of its package entry.
+   */
+  private refToKey(name: string, ref: string, major: number): string | null {
+    if (ref.startsWith('link:') || ref.startsWith('file:')) return null;
+
+    if (major >= 9) {
+      // Aliases reference the real package: `string-width@4.2.3`
+      return /^\d/.test(ref) ? `${name}@${ref}` : ref;
+    }
+    if (ref.startsWith('/')) return ref;
+    return major >= 6 ? `/${name}@${ref}` : `/${name}/${ref}`;
+  }
+
+  private parseKey(key: string, major: number): PnpmPackageKey | null {
+    const bare = key.startsWith('/') ? key.slice(1) : key;
+
+    if (major < 6) {
+      const segments = bare.split('/');
+      const nameLength = bare.startsWith('@') ? 2 : 1;
+      if (segments.length !== nameLength + 1) return null;
+
+      const [version, peerSuffix] = this.splitOnce(segments[nameLength], '_');
+      return {
+        name: segments.slice(0, nameLength).join('/'),
+        version,
+        peers: this.parseUnderscorePeers(peerSuffix),
+      };
+    }
+
+    const separator = bare.indexOf('@', bare.startsWith('@') ? 1 : 0);
+    if (separator <= 0) return null;
+
+    const rest = bare.slice(separator + 1);
+    const paren = rest.indexOf('(');
+    return {
+      name: bare.slice(0, separator),
+      version: paren < 0 ? rest : rest.slice(0, paren),
+      peers: paren < 0 ? {} : this.parseParenPeers(rest.slice(paren)),
+    };
+  }
+
+  /**
+   * Parses v6+ peer suffixes such as `(@angular/cdk@17.3.0(@angular/core@17.3.0))(rxjs@7.8.1)`,
+   * keeping only the top-level peers.
+   */
+  private parseParenPeers(suffix: string): Record<string, string> {
+    const peers: Record<string, string> = {};
+    let depth = 0;
+    let start = -1;
+
+    for (let i = 0; i < suffix.length; i++) {
+      if (suffix[i] === '(') {
+        if (depth === 0) start = i + 1;
+        depth++;
+      } else if (suffix[i] === ')') {
+        depth--;
+        if (depth === 0 && start >= 0) {
+          const group = suffix.slice(start, i);
+          const nested = group.indexOf('(');
+          const descriptor = nested < 0 ? group : group.slice(0, nested);
+          const separator = descriptor.indexOf('@', descriptor.startsWith('@') ? 1 : 0);
+          if (separator > 0) {
+            peers[descriptor.slice(0, separator)] = descriptor.slice(separator + 1);
+          }
+        }
+      }
+    }
+
+    return peers;
+  }
+
+  /**
+   * Parses v5 peer suffixes such as `@angular+core@17.3.0+rxjs@7.8.1`. Long suffixes are
+   * hashed by pnpm and carry no information.
+   */
+  private parseUnderscorePeers(suffix?: string): Record<string, string> {
+    const peers: Record<string, string> = {};
+    if (!suffix) return peers;
+
+    const parts = suffix.split('+');
+    for (let i = 0; i < parts.length; i++) {
+      let descriptor = parts[i];
+      // Scoped names have their slash encoded as `+`
+      if (descriptor.startsWith('@') && descriptor.indexOf('@', 1) < 0 && i + 1 < parts.length) {
+        descriptor = `${descriptor}/${parts[++i]}`;
+      }
+
+      const separator = descriptor.indexOf('@', descriptor.startsWith('@') ? 1 : 0);
+      if (separator > 0) {
+        peers[descriptor.slice(0, separator)] = descriptor.slice(separator + 1);
+      }
+    }
+
+    return peers;
+  }
+
+  private cleanRefs(
+    refs: Record<string, string> | undefined,
+    major: number
+  ): Record<string, string> | undefined {
+    if (!refs) return undefined;
+    return Object.fromEntries(
+      Object.entries(refs).map(([name, ref]) => [name, this.cleanRef(String(ref), major)])
+    );
+  }
+
+  /**
+   * Turns a resolved reference into a plain version, or an `npm:` alias like npm writes.
+   */
+  private cleanRef(ref: string, major: number): string {
+    if (ref.startsWith('link:') || ref.startsWith('file:')) return ref;
+
+    const bare = ref.startsWith('/') ? ref.slice(1) : ref;
+    if (/^\d/.test(bare)) {
+      return major < 6 ? this.splitOnce(bare, '_')[0] : bare.replace(/\(.*$/, '');
+    }
+
+    const parsed = this.parseKey(bare, major);
+    return parsed ? `npm:${parsed.name}@${parsed.version}` : ref;
+  }
+
+  private splitOnce(value: string, separator: string): [string, string | undefined] {
+    const index = value.indexOf(separator);
+    return index < 0 ? [value, undefined] : [value.slice(0, index), value.slice(index + 1)];
+  }
+}
@@ -0,0 +1,290 @@
+import * as semver from 'semver';
+import YAML from 'yaml';
+
+import type { NpmLockFile, PackageInfo } from '../types/index.js';
+import { ParseError } from '../types/index.js';
+
+import type { ResolvedLockGraph, ResolvedLockPackage } from './LockfileLayout.js';
+import { buildNpmLayout } from './LockfileLayout.js';
+
+interface YarnLockEntry {
+  version: string;
+  resolved?: string;
+  resolution?: string;
+  integrity?: string;
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  peerDependenciesMeta?: Record<string, { optional?: boolean }>;
+}
+
+interface BerryLockEntry {
+  version?: string | number;
+  resolution?: string;
+  dependencies?: Record<string, string | number>;
+  optionalDependencies?: Record<string, string | number>;
+  peerDependencies?: Record<string, string | number>;
+  peerDependenciesMeta?: Record<string, { optional?: boolean }>;
+}
+
+interface YarnLockEntries {
+  /** Every `name@range` descriptor mapped to the entry it resolves to */
+  descriptors: Map<string, YarnLockEntry>;
+  berry: boolean;
+}
+
+/**
+ * Reads yarn.lock files, both the classic v1 text format and the Berry (v2+) YAML format,
+ * and turns them into the same normalized view as a package-lock.json v3.
+ */
+export class YarnLockParser {
+  parse(content: string, rootPackage: PackageInfo): NpmLockFile {
+    const entries = this.isBerry(content) ? this.parseBerry(content) : this.parseClassic(content);
+    return buildNpmLayout(this.toGraph(entries, rootPackage));
+  }
+
+  private isBerry(content: string): boolean {
+    return /^__metadata:/m.test(content);
+  }
+
+  private parseBerry(content: string): YarnLockEntries {
+    let document: Record<string, BerryLockEntry> | null;
+    try {
+      document = YAML.parse(content) as Record<string, BerryLockEntry> | null;
+    } catch (error) {
+      throw new ParseError(`Invalid yarn.lock: ${(error as Error).message}`);
+    }
+
+    if (!document || typeof document !== 'object') {
+      throw new ParseError('Invalid yarn.lock: empty document');
+    }
+
+    const descriptors = new Map<string, YarnLockEntry>();
+    for (const [key, value] of Object.entries(document)) {
+      if (key === '__metadata' || !value || typeof value !== 'object') continue;
+      // An entry without a version was never resolved, it has no place in the install tree
+      if (value.version === undefined || value.version === null || value.version === '') continue;
+
+      const entry: YarnLockEntry = {
+        version: String(value.version),
+        resolution: value.resolution,
+        dependencies: this.stringifyValues(value.dependencies),
+        optionalDependencies: this.stringifyValues(value.optionalDependencies),
+        peerDependencies: this.stringifyValues(value.peerDependencies),
+        peerDependenciesMeta: value.peerDependenciesMeta,
+      };
+
+      for (const descriptor of key.split(/,\s*/)) {
+        descriptors.set(descriptor.trim(), entry);
+      }
+    }
+
+    return { descriptors, berry: true };
+  }
+
+  private parseClassic(content: string): YarnLockEntries {
+    const descriptors = new Map<string, YarnLockEntry>();
+    let current: YarnLockEntry | null = null;
+    let section: Record<string, string> | null = null;
+
+    content.split(/\r?\n/).forEach((rawLine, index) => {
+      if (!rawLine.trim() || rawLine.trimStart().startsWith('#')) return;
+
+      const indent = rawLine.length - rawLine.trimStart().length;
+      const line = rawLine.trim();
+
+      if (indent === 0) {
+        if (!line.endsWith(':')) {
+          throw new ParseError(`Invalid yarn.lock: unexpected content on line ${index + 1}`);
+        }
+
+        current = { version: '' };
+        section = null;
+        for (const descriptor of line.slice(0, -1).split(/,\s*/)) {
+          descriptors.set(this.unquote(descriptor.trim()), current);
+        }
+        return;
+      }
+
+      if (!current) {
+        throw new ParseError(
+          `Invalid yarn.lock: indented content outside an entry on line ${index + 1}`
+        );
+      }
+
+      if (indent <= 2) {
+        section = null;
+
+        if (line.endsWith(':')) {
+          const sectionName = this.unquote(line.slice(0, -1));
+          if (
+            sectionName === 'dependencies' ||
+            sectionName === 'optionalDependencies' ||
+            sectionName === 'peerDependencies'
+          ) {
+            section = current[sectionName] = {};
+          }
+          return;
+        }
+
+        const [key, value] = this.splitKeyValue(line);
+        if (key === 'version' || key === 'resolved' || key === 'integrity') {
+          current[key] = value;
+        }
+        return;
+      }
+
+      if (section) {
+        const [key, value] = this.splitKeyValue(line);
+        section[key] = value;
+      }
+    });
+
+    return { descriptors, berry: false };
+  }
+
+  private toGraph(entries: YarnLockEntries, rootPackage: PackageInfo): ResolvedLockGraph {
+    const packages = new Map<string, ResolvedLockPackage>();
+    const ids = new Map<YarnLockEntry, string>();
+
+    // One graph node per resolved entry, whatever the number of descriptors pointing to it
+    for (const [descriptor, entry] of entries.descriptors) {
+      if (ids.has(entry)) continue;
+
+      const name = this.packageName(descriptor, entry);
+      const id = entry.resolution || `${name}@${entry.version}`;
+      ids.set(entry, id);
+
+      packages.set(id, {
+        name,
+        version: entry.version,
+        resolved: entry.resolved,
+        integrity: entry.integrity,
+        dependencies: this.normalizeRanges(entry.dependencies),
+        optionalDependencies: this.normalizeRanges(entry.optionalDependencies),
+        peerDependencies: entry.peerDependencies,
+        peerDependenciesMeta: entry.peerDependenciesMeta,
+        edges: {},
+      });
+    }
+
+    for (const [entry, id] of ids) {
+      const edges = packages.get(id).edges;
+      const declared = { ...entry.dependencies, ...entry.optionalDependencies };
+
+      for (const [depName, range] of Object.entries(declared)) {
+        const target = this.lookup(entries, depName, range);
+        if (target) edges[depName] = ids.get(target);
+      }
+    }
+
+    const workspace = this.findRootWorkspace(entries);
+    const rootEdges: Record<string, string> = {};
+    const rootDeps = {
+      ...rootPackage.devDependencies,
+      ...rootPackage.optionalDependencies,
+      ...rootPackage.dependencies,
+    };
+
+    for (const [depName, range] of Object.entries(rootDeps)) {
+      const target =
+        this.lookup(entries, depName, range) ||
+        (workspace?.dependencies?.[depName] &&
+          this.lookup(entries, depName, workspace.dependencies[depName]));
+      if (target) rootEdges[depName] = ids.get(target);
+    }
+
+    return {
+      root: {
+        name: rootPackage.name,
+        version: rootPackage.version,
+        dependencies: rootPackage.dependencies,
+        devDependencies: rootPackage.devDependencies,
+        optionalDependencies: rootPackage.optionalDependencies,
+        peerDependencies: rootPackage.peerDependencies,
+        edges: rootEdges,
+      },
+      packages,
+    };
+  }
+
+  private lookup(entries: YarnLockEntries, name: string, range: string): YarnLockEntry | null {
+    const candidates = [`${name}@${range}`];
+    if (entries.berry && !/^[a-z]+:/i.test(range)) {
+      // Berry keys plain semver ranges with the default protocol
+      candidates.push(`${name}@npm:${range}`);
+    }
+
+    for (const candidate of candidates) {
+      const entry = entries.descriptors.get(candidate);
+      if (entry) return entry;
+    }
+    return null;
+  }
+
+  private findRootWorkspace(entries: YarnLockEntries): YarnLockEntry | null {
+    for (const entry of entries.descriptors.values()) {
+      if (entry.resolution?.endsWith('@workspace:.')) return entry;
+    }
+    return null;
+  }
+
+  /**
+   * Real package name behind a descriptor, following `npm:` aliases.
+   */
+  private packageName(descriptor: string, entry: YarnLockEntry): string {
+    if (entry.resolution) {
+      return this.splitDescriptor(entry.resolution).name;
+    }
+
+    const { name, range } = this.splitDescriptor(descriptor);
+    if (range.startsWith('npm:') && range.lastIndexOf('@') > 4) {
+      return this.splitDescriptor(range.slice(4)).name;
+    }
+    return name;
+  }
+
+  private splitDescriptor(descriptor: string): { name: string; range: string } {
+    const separator = descriptor.indexOf('@', descriptor.startsWith('@') ? 1 : 0);
+    if (separator <= 0) {
+      return { name: descriptor, range: '' };
+    }
+    return { name: descriptor.slice(0, separator), range: descriptor.slice(separator + 1) };
+  }
+
+  /**
+   * Strips Berry's default `npm:` protocol so ranges read like package.json ones.
+   */
+  private normalizeRanges(ranges?: Record<string, string>): Record<string, string> | undefined {
+    if (!ranges) return undefined;
+
+    const normalized: Record<string, string> = {};
+    for (const [name, range] of Object.entries(ranges)) {
+      const bare = range.startsWith('npm:') ? range.slice(4) : range;
+      normalized[name] = semver.validRange(bare) ? bare : range;
+    }
+    return normalized;
+  }
+
+  private stringifyValues(record?: Record<string, unknown>): Record<string, string> | undefined {
+    if (!record) return undefined;
+    return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, String(value)]));
+  }
+
+  private splitKeyValue(line: string): [string, string] {
+    const match = line.match(/^("(?:[^"\\]|\\.)*"|\S+)\s+(.*)$/);
+    if (!match) return [this.unquote(line), ''];
+    return [this.unquote(match[1]), this.unquote(match[2].trim())];
+  }
+
+  private unquote(value: string): string {
+    if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value.slice(1, -1);
+      }
+    }
+    return value;
+  }
+}
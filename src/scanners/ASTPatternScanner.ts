@@ -9,8 +9,13 @@ export class ASTPatternScanner {
   private patternConfigs: DeprecatedPatternConfig[] = [];
   private patternLibrary: PatternLibraryService;
   
-  constructor(tsconfigPath: string, fromVersion?: string, toVersion?: string) {
-    this.patternLibrary = new PatternLibraryService();
+  constructor(
+    tsconfigPath: string,
+    fromVersion?: string,
+    toVersion?: string,
+    patternLibrary?: PatternLibraryService
+  ) {
+    this.patternLibrary = patternLibrary || new PatternLibraryService();
     
     // Load pattern configurations if versions provided
     if (fromVersion && toVersion) {
@@ -1,5 +1,7 @@
-import fetch from 'node-fetch';
-import { BreakingChange } from '../types/index.js';
+import { BreakingChange, FixtureMissingError, NetworkError, ProjectFeatures } from '../types/index.js';
+import { fetchWithFixtures } from '../utils/HttpFixtures.js';
+import { PROJECT_FEATURES } from '../utils/ProjectFeatures.js';
+import { createBreakingChangeId, mergeBreakingChanges } from './BreakingChangeIdentity.js';
 
 interface UpdateGuideStep {
   action: string;
@@ -9,6 +11,12 @@ interface UpdateGuideStep {
   necessaryAsOf?: number;
   issues?: string[];
   commit?: string;
+  // Set on steps the guide only shows for the matching options
+  material?: boolean;
+  ssr?: boolean;
+  i18n?: boolean;
+  ngUpgrade?: boolean;
+  complexity?: 1 | 2 | 3;
 }
 
 interface UpdateGuideResponse {
@@ -19,7 +27,21 @@ interface UpdateGuideResponse {
 export class AngularUpdateGuideApi {
   private readonly apiUrl = 'https://angular-update-guide-server.web.app/api/updateGuide';
   
-  async fetchBreakingChanges(fromVersion: string, toVersion: string): Promise<BreakingChange[]> {
+  constructor(private readonly offline = false) {}
+  
+  /**
+   * Steps for the given project options, basic level with no option when none are given
+   */
+  async fetchBreakingChanges(
+    fromVersion: string,
+    toVersion: string,
+    features?: ProjectFeatures
+  ): Promise<BreakingChange[]> {
+    // Callers fall back to the cache or the bundled data
+    if (this.offline) {
+      throw new NetworkError('Offline mode: the Angular Update Guide is not queried');
+    }
+    
     try {
       // Angular Update Guide API expects versions like "17.0" not just "17"
       const from = `${fromVersion}.0`;
@@ -30,9 +52,12 @@ export class AngularUpdateGuideApi {
       url.searchParams.append('to', to);
       url.searchParams.append('advanced', 'true');
       url.searchParams.append('package', 'Angular');
-      url.searchParams.append('level', '1'); // 1 = Basic, 2 = Medium, 3 = Advanced
+      url.searchParams.append('level', String(features?.complexity || 1)); // 1 = Basic, 2 = Medium, 3 = Advanced
+      PROJECT_FEATURES.filter(feature => features?.[feature]).forEach(feature => {
+        url.searchParams.append(feature, 'true');
+      });
       
-      const response = await fetch(url.toString(), {
+      const response = await fetchWithFixtures(url.toString(), {
         headers: {
           'Accept': 'application/json',
           'User-Agent': 'ng-migration-analyzer'
@@ -48,20 +73,24 @@ export class AngularUpdateGuideApi {
       // Combine recommendations and steps
       const allSteps = [...(data.recommendations || []), ...(data.steps || [])];
       
-      // Convert to our BreakingChange format
-      return allSteps.map((step, index) => this.convertToBreakingChange(step, index, fromVersion, toVersion));
+      // Convert to our BreakingChange format, a step listed both as recommendation and step is kept once
+      return mergeBreakingChanges(allSteps.map(step => this.convertToBreakingChange(step, fromVersion, toVersion)));
       
     } catch (error) {
+      if (error instanceof FixtureMissingError) throw error;
       console.error('Failed to fetch from Angular Update Guide:', error);
       // Fallback to GitHub releases
       return this.fetchFromGitHubReleases(fromVersion, toVersion);
     }
   }
   
-  private convertToBreakingChange(step: UpdateGuideStep, index: number, fromVersion: string, toVersion: string): BreakingChange {
+  private convertToBreakingChange(step: UpdateGuideStep, fromVersion: string, toVersion: string): BreakingChange {
+    const title = this.extractTitle(step.action);
+    const features = PROJECT_FEATURES.filter(feature => step[feature]);
+    
     return {
-      id: `ng-update-${index}`,
-      title: this.extractTitle(step.action),
+      id: createBreakingChangeId(toVersion, title, step.action),
+      title,
       description: step.description || step.action,
       impact: this.determineImpact(step.level),
       effort: this.determineEffort(step.action),
@@ -70,7 +99,10 @@ export class AngularUpdateGuideApi {
       documentation: this.extractDocumentationUrl(step),
       fromVersion,
       toVersion,
-      category: this.categorizeChange(step.action)
+      category: this.categorizeChange(step.action),
+      sources: ['update-guide'],
+      features: features.length > 0 ? features : undefined,
+      complexity: step.complexity
     };
   }
   
@@ -167,7 +199,7 @@ export class AngularUpdateGuideApi {
   private async fetchFromGitHubReleases(fromVersion: string, toVersion: string): Promise<BreakingChange[]> {
     try {
       const releaseUrl = `https://api.github.com/repos/angular/angular/releases`;
-      const response = await fetch(releaseUrl, {
+      const response = await fetchWithFixtures(releaseUrl, {
         headers: {
           'Accept': 'application/vnd.github.v3+json',
           'User-Agent': 'ng-migration-analyzer'
@@ -194,6 +226,7 @@ export class AngularUpdateGuideApi {
       return this.parseBreakingChangesFromReleaseNotes(targetRelease.body, fromVersion, toVersion);
       
     } catch (error) {
+      if (error instanceof FixtureMissingError) throw error;
       console.error('Failed to fetch from GitHub:', error);
       return [];
     }
@@ -211,13 +244,13 @@ export class AngularUpdateGuideApi {
     // Parse each breaking change
     const changes = breakingSection[1].split(/\n\*\s+/).filter(c => c.trim());
     
-    changes.forEach((change, index) => {
+    changes.forEach(change => {
       const lines = change.trim().split('\n');
       const title = lines[0].replace(/^\*\s*/, '').trim();
       const description = lines.slice(1).join(' ').trim();
       
       breakingChanges.push({
-        id: `gh-release-${index}`,
+        id: createBreakingChangeId(toVersion, title, change),
         title: title.substring(0, 80),
         description: description || title,
         impact: 'high', // Breaking changes are always high impact
@@ -227,7 +260,8 @@ export class AngularUpdateGuideApi {
         documentation: `https://github.com/angular/angular/releases/tag/v${toVersion}.0.0`,
         fromVersion,
         toVersion,
-        category: this.categorizeChange(title)
+        category: this.categorizeChange(title),
+        sources: ['release-notes']
       });
     });
     
@@ -0,0 +1,72 @@
+import type { AngularVersionRequirements } from '../types/index.js';
+
+/**
+ * Tooling supported by the latest minor of each Angular major, from
+ * https://angular.dev/reference/versions. Node.js ranges only use `^x.y.z` alternatives so
+ * that generated scripts can check them without semver.
+ */
+const REQUIREMENTS: Record<number, AngularVersionRequirements> = {
+  13: {
+    node: '^12.20.0 || ^14.15.0 || ^16.10.0',
+    typescript: '>=4.4.2 <4.7.0',
+    zoneJs: '~0.11.4',
+    rxjs: '^6.5.3 || ^7.4.0',
+  },
+  14: {
+    node: '^14.15.0 || ^16.10.0',
+    typescript: '>=4.6.2 <4.9.0',
+    zoneJs: '~0.11.4',
+    rxjs: '^6.5.3 || ^7.4.0',
+  },
+  15: {
+    node: '^14.20.0 || ^16.13.0 || ^18.10.0',
+    typescript: '>=4.8.2 <5.0.0',
+    zoneJs: '~0.11.4 || ~0.12.0',
+    rxjs: '^6.5.3 || ^7.4.0',
+  },
+  16: {
+    node: '^16.14.0 || ^18.10.0',
+    typescript: '>=4.9.3 <5.2.0',
+    zoneJs: '~0.13.0',
+    rxjs: '^6.5.3 || ^7.4.0',
+  },
+  17: {
+    node: '^18.13.0 || ^20.9.0',
+    typescript: '>=5.2.0 <5.5.0',
+    zoneJs: '~0.14.0',
+    rxjs: '^6.5.3 || ^7.4.0',
+  },
+  18: {
+    node: '^18.19.1 || ^20.11.1 || ^22.0.0',
+    typescript: '>=5.4.0 <5.6.0',
+    zoneJs: '~0.14.0',
+    rxjs: '^6.5.3 || ^7.4.0',
+  },
+  19: {
+    node: '^18.19.1 || ^20.11.1 || ^22.0.0',
+    typescript: '>=5.5.0 <5.9.0',
+    zoneJs: '~0.15.0',
+    rxjs: '^6.5.3 || ^7.4.0',
+  },
+  20: {
+    node: '^20.19.0 || ^22.12.0 || ^24.0.0',
+    typescript: '>=5.8.0 <5.10.0',
+    zoneJs: '~0.15.0',
+    rxjs: '^6.5.3 || ^7.4.0',
+  },
+  21: {
+    node: '^20.19.0 || ^22.12.0 || ^24.0.0',
+    typescript: '>=5.9.0 <6.0.0',
+    zoneJs: '~0.15.0',
+    rxjs: '^6.5.3 || ^7.4.0',
+  },
+};
+
+/**
+ * Requirements of an Angular major, null for majors ngma has no data for
+ */
+export function getAngularVersionRequirements(
+  version: string | number
+): AngularVersionRequirements | null {
+  return REQUIREMENTS[parseInt(String(version), 10)] || null;
+}
@@ -0,0 +1,104 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+import { z } from 'zod';
+
+import type { BreakingChange } from '../types/index.js';
+
+export const BREAKING_CHANGE_DATASET_SCHEMA_VERSION = 1;
+
+// Oldest source version covered by the bundled files (12 → 13)
+export const BREAKING_CHANGE_DATASET_MIN_VERSION = 12;
+
+const DatasetEntrySchema = z.object({
+  id: z.string().regex(/^angular-v\d+-[a-z0-9-]+$/),
+  title: z.string().min(1),
+  description: z.string().min(1),
+  category: z.string().min(1),
+  impact: z.enum(['low', 'medium', 'high']),
+  effort: z.enum(['low', 'medium', 'high', 'very-high']),
+  migration: z.string().min(1),
+  automated: z.boolean(),
+  documentation: z.string().url(),
+  // Same options as the update guide, the entry is skipped for projects not using them
+  features: z.array(z.enum(['material', 'ssr', 'i18n', 'ngUpgrade'])).optional(),
+  complexity: z.union([z.literal(1), z.literal(2), z.literal(3)]).optional(),
+});
+
+const DatasetFileSchema = z.object({
+  schemaVersion: z.literal(BREAKING_CHANGE_DATASET_SCHEMA_VERSION),
+  from: z.string(),
+  to: z.string(),
+  // Date the entries were last checked against the Angular changelog
+  reviewed: z.string(),
+  changes: z.array(DatasetEntrySchema),
+});
+
+export interface BreakingChangeDatasetFile {
+  schemaVersion: number;
+  from: string;
+  to: string;
+  reviewed: string;
+  changes: Array<Omit<BreakingChange, 'fromVersion' | 'toVersion' | 'sources'>>;
+}
+
+/**
+ * Breaking changes shipped with ngma, one JSON file per target major in `data/breaking-changes`.
+ * Used on its own offline and merged with the Angular Update Guide otherwise.
+ */
+export class BreakingChangeDataset {
+  private files = new Map<number, BreakingChangeDatasetFile | null>();
+
+  constructor(private readonly dataDir: string) {}
+
+  /**
+   * Every change between two majors, one hop at a time (14 → 16 covers 15 and 16)
+   */
+  getChanges(fromVersion: string, toVersion: string): BreakingChange[] {
+    const from = parseInt(fromVersion, 10);
+    const to = parseInt(toVersion, 10);
+    if (Number.isNaN(from) || Number.isNaN(to)) return [];
+
+    const changes: BreakingChange[] = [];
+    for (
+      let major = Math.max(from, BREAKING_CHANGE_DATASET_MIN_VERSION) + 1;
+      major <= to;
+      major++
+    ) {
+      const file = this.load(major);
+      if (!file) continue;
+
+      changes.push(
+        ...file.changes.map(
+          (entry): BreakingChange => ({
+            ...entry,
+            fromVersion: file.from,
+            toVersion: file.to,
+            sources: ['bundled'],
+          })
+        )
+      );
+    }
+    return changes;
+  }
+
+  private load(major: number): BreakingChangeDatasetFile | null {
+    if (this.files.has(major)) return this.files.get(major);
+
+    const path = join(this.dataDir, `${major}.json`);
+    let file: BreakingChangeDatasetFile | null = null;
+
+    if (existsSync(path)) {
+      try {
+        file = DatasetFileSchema.parse(
+          JSON.parse(readFileSync(path, 'utf-8'))
+        ) as BreakingChangeDatasetFile;
+      } catch (error) {
+        console.warn(`Ignoring invalid breaking-change dataset ${path}:`, error.message);
+      }
+    }
+
+    this.files.set(major, file);
+    return file;
+  }
+}
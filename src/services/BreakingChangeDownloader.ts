@@ -1,126 +1,100 @@
-import { CacheManager } from '../utils/SimpleCacheManager.js';
-import { BreakingChange } from '../types/index.js';
+import { BreakingChange, DataSource, FixtureMissingError, ProjectFeatures } from '../types/index.js';
+import type { CacheStore } from '../utils/cache/CacheStore.js';
+import { getFixtureMode } from '../utils/HttpFixtures.js';
+import { appliesToProject, projectFeaturesKey } from '../utils/ProjectFeatures.js';
+
 import { AngularUpdateGuideApi } from './AngularUpdateGuideApi.js';
+import type { BreakingChangeDataset } from './BreakingChangeDataset.js';
+import { mergeBreakingChanges } from './BreakingChangeIdentity.js';
+
+// Bumped when cached entries change shape (v2: content-derived ids and sources)
+const CACHE_KEY_PREFIX = 'v2:';
 
 export class BreakingChangeDownloader {
-  private cache: CacheManager;
+  private cache: CacheStore;
+  private dataset: BreakingChangeDataset;
   private updateGuideApi: AngularUpdateGuideApi;
+  private offline: boolean;
+  private lastSource: DataSource = 'network';
   
-  constructor(cache: CacheManager) {
+  constructor(cache: CacheStore, dataset: BreakingChangeDataset, offline = false) {
     this.cache = cache;
-    this.updateGuideApi = new AngularUpdateGuideApi();
+    this.dataset = dataset;
+    this.offline = offline;
+    this.updateGuideApi = new AngularUpdateGuideApi(offline);
+  }
+  
+  /**
+   * Where the live part of the last download() came from, 'fallback' when only
+   * the bundled dataset was available
+   */
+  getLastSource(): DataSource {
+    return this.lastSource;
   }
   
-  async download(fromVersion: string, toVersion: string): Promise<BreakingChange[]> {
-    const cacheKey = `breaking-changes-${fromVersion}-${toVersion}`;
+  /**
+   * With project features, only the changes the update guide would show for them are kept
+   */
+  async download(fromVersion: string, toVersion: string, features?: ProjectFeatures): Promise<BreakingChange[]> {
+    const live = await this.downloadLive(fromVersion, toVersion, features);
+    // Live entries first, duplicates of bundled entries become one record listing both sources
+    const changes = mergeBreakingChanges(live || [], this.dataset.getChanges(fromVersion, toVersion));
+    return features ? changes.filter(change => appliesToProject(change, features)) : changes;
+  }
+  
+  private async downloadLive(
+    fromVersion: string,
+    toVersion: string,
+    features?: ProjectFeatures
+  ): Promise<BreakingChange[] | null> {
+    // The guide answers differently for each set of options
+    const cacheKey = `${CACHE_KEY_PREFIX}${fromVersion}-${toVersion}` +
+      (features ? `:${projectFeaturesKey(features)}` : '');
     
-    // Try cache first
-    const cached = await this.cache.get<BreakingChange[]>(cacheKey);
+    // Try cache first, except when recording or replaying fixtures
+    const cached = getFixtureMode() && !this.offline
+      ? null
+      : this.cache.get<BreakingChange[]>('breaking-changes', cacheKey);
     if (cached) {
+      this.lastSource = 'cache';
       return cached;
     }
     
+    if (this.offline) {
+      return this.getStaleBreakingChanges(cacheKey);
+    }
+    
     try {
       // Fetch from Angular Update Guide API
-      const breakingChanges = await this.updateGuideApi.fetchBreakingChanges(fromVersion, toVersion);
+      const breakingChanges = await this.updateGuideApi.fetchBreakingChanges(fromVersion, toVersion, features);
       
       // Cache the results
-      await this.cache.set(cacheKey, breakingChanges, 24 * 60 * 60 * 1000); // 24 hours
+      this.cache.set('breaking-changes', cacheKey, breakingChanges, {
+        ttl: 24 * 60 * 60 * 1000, // 24 hours
+      });
       
+      this.lastSource = 'network';
       return breakingChanges;
     } catch (error) {
+      if (error instanceof FixtureMissingError) throw error;
       console.warn('Failed to fetch breaking changes from API:', error.message);
       
-      // Only support Angular 17+ - return empty array for older versions
-      if (Number(fromVersion) < 17) {
-        return [];
-      }
-      
-      // Fallback to minimal hardcoded data for known versions
-      return this.getFallbackBreakingChanges(fromVersion, toVersion);
+      return this.getStaleBreakingChanges(cacheKey);
     }
   }
   
-  private getFallbackBreakingChanges(from: string, to: string): BreakingChange[] {
-    const changes: BreakingChange[] = [];
-    
-    // Helper function to create properly formatted BreakingChange
-    const createBreakingChange = (
-      id: string,
-      title: string,
-      description: string,
-      migration: string,
-      impact: 'low' | 'medium' | 'high' = 'medium',
-      automated = false,
-      category = 'api'
-    ): BreakingChange => ({
-      id,
-      title,
-      description,
-      impact,
-      effort: impact === 'high' ? 'high' : impact === 'low' ? 'low' : 'medium',
-      migration,
-      automated,
-      documentation: `https://angular.io/guide/update-to-version-${to}`,
-      fromVersion: from,
-      toVersion: to,
-      category
-    });
-    
-    // Angular 17 to 18
-    if (from === '17' && to === '18') {
-      changes.push(
-        createBreakingChange(
-          'angular-v18-control-flow',
-          'New control flow syntax is stable',
-          'The new @if, @for, and @switch control flow syntax is now stable and recommended',
-          'Run ng g @angular/core:control-flow to migrate templates',
-          'medium',
-          true
-        ),
-        createBreakingChange(
-          'angular-v18-zoneless',
-          'Experimental zoneless change detection',
-          'Angular 18 introduces experimental zoneless change detection',
-          'Consider migrating to zoneless for better performance in new applications',
-          'low',
-          false
-        ),
-        createBreakingChange(
-          'angular-v18-material-3',
-          'Material 3 design system',
-          'Angular Material now supports Material Design 3',
-          'Update your theme to use Material 3 design tokens',
-          'medium',
-          false,
-          'material'
-        )
-      );
-    }
-    
-    // Angular 18 to 19
-    if (from === '18' && to === '19') {
-      changes.push(
-        createBreakingChange(
-          'angular-v19-standalone-default',
-          'Standalone is the default',
-          'Standalone components are now the default for new projects',
-          'All new components should be standalone by default',
-          'low',
-          false
-        ),
-        createBreakingChange(
-          'angular-v19-signals-stable',
-          'Signals API is stable',
-          'The Signals API is now stable and recommended for reactive state management',
-          'Consider migrating from RxJS subjects to signals for component state',
-          'medium',
-          false
-        )
-      );
+  /**
+   * Without network: an expired cache entry if there is one, null to rely on the dataset alone
+   */
+  private getStaleBreakingChanges(cacheKey: string): BreakingChange[] | null {
+    const stale = this.cache.getRecord<BreakingChange[]>('breaking-changes', cacheKey);
+    if (stale) {
+      this.lastSource = 'stale-cache';
+      return stale.value;
     }
     
-    return changes;
+    this.lastSource = 'fallback';
+    return null;
   }
   
   private transformBreakingChanges(data: any): BreakingChange[] {
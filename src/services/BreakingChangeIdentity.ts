@@ -0,0 +1,108 @@
+import { createHash } from 'crypto';
+
+import type { BreakingChange } from '../types/index.js';
+
+// Generic link used when a source has nothing more specific
+const GENERIC_DOCUMENTATION = 'https://angular.io/guide/updating';
+
+const IMPACT_RANK = { low: 0, medium: 1, high: 2 };
+
+// Minimum overlap between the significant words of two titles to treat them as the same change
+const TITLE_SIMILARITY_THRESHOLD = 0.6;
+
+const STOP_WORDS = new Set(
+  (
+    'a an and are as be by for from has have in is it its no now of on or the to was were ' +
+    'with you your'
+  ).split(' ')
+);
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function significantWords(title: string): Set<string> {
+  return new Set(
+    normalize(title)
+      .split(' ')
+      .filter(word => word && !STOP_WORDS.has(word))
+  );
+}
+
+/**
+ * ID derived from the target major, the title and the text of a change, so it stays the same
+ * when upstream reorders its steps: `angular-v17-<title slug>-<hash>`
+ */
+export function createBreakingChangeId(toVersion: string, title: string, content: string): string {
+  const major = parseInt(toVersion, 10);
+  const slug = normalize(title).split(' ').slice(0, 6).join('-').slice(0, 48).replace(/-+$/, '');
+  const hash = createHash('sha1').update(normalize(content)).digest('hex').slice(0, 8);
+
+  return `angular-v${Number.isNaN(major) ? 'x' : major}-${slug || 'change'}-${hash}`;
+}
+
+function isSameChange(a: BreakingChange, b: BreakingChange): boolean {
+  if (a.id === b.id) return true;
+  if (a.toVersion && b.toVersion && parseInt(a.toVersion, 10) !== parseInt(b.toVersion, 10)) {
+    return false;
+  }
+  // One source never lists the same change twice under different wording
+  if ((a.sources || []).some(source => b.sources?.includes(source))) return false;
+  if (normalize(a.title) === normalize(b.title)) return true;
+
+  const wordsA = significantWords(a.title);
+  const wordsB = significantWords(b.title);
+  if (wordsA.size < 2 || wordsB.size < 2) return false;
+
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared) >= TITLE_SIMILARITY_THRESHOLD;
+}
+
+/**
+ * Combines two records of the same change. Text from the first one wins, the curated bundled ID
+ * is kept because it does not depend on upstream wording, and the most cautious impact is used.
+ */
+function combine(kept: BreakingChange, duplicate: BreakingChange): BreakingChange {
+  const sources = [...(kept.sources || [])];
+  (duplicate.sources || []).forEach(source => {
+    if (!sources.includes(source)) sources.push(source);
+  });
+
+  const documentation =
+    kept.documentation && kept.documentation !== GENERIC_DOCUMENTATION
+      ? kept.documentation
+      : duplicate.documentation || kept.documentation;
+
+  return {
+    ...kept,
+    id: duplicate.sources?.includes('bundled') ? duplicate.id : kept.id,
+    impact:
+      IMPACT_RANK[duplicate.impact] > IMPACT_RANK[kept.impact] ? duplicate.impact : kept.impact,
+    effort: kept.effort || duplicate.effort,
+    automated: kept.automated || duplicate.automated,
+    documentation,
+    sources,
+  };
+}
+
+/**
+ * Merges breaking changes from several sources into one record per change, keeping the order
+ * in which they were first seen. Pass the lists from the most to the least authoritative.
+ */
+export function mergeBreakingChanges(...lists: BreakingChange[][]): BreakingChange[] {
+  const merged: BreakingChange[] = [];
+
+  for (const change of lists.flat()) {
+    const index = merged.findIndex(existing => isSameChange(existing, change));
+    if (index === -1) {
+      merged.push({ ...change, sources: [...(change.sources || [])] });
+    } else {
+      merged[index] = combine(merged[index], change);
+    }
+  }
+
+  return merged;
+}
@@ -0,0 +1,191 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+import { z } from 'zod';
+
+export const COMPATIBILITY_SCHEMA_VERSION = 1;
+
+// Project overrides, next to package.json
+export const PROJECT_COMPATIBILITY_FILE = 'ngma.compatibility.json';
+
+// Organization overrides, shared by every project of a team
+export const ORGANIZATION_COMPATIBILITY_ENV = 'NGMA_COMPATIBILITY_FILE';
+
+const CompatibilityEntrySchema = z
+  .object({
+    status: z.enum(['active', 'deprecated', 'removed']).optional(),
+    maxAngular: z.number().int().positive().optional(),
+    replacement: z.string().min(1).optional(),
+    migrationGuide: z.string().url().optional(),
+    reason: z.string().min(1).optional(),
+    // Decision of the platform team per Angular major, e.g. { "18": "approved", "19": "blocked" }
+    majors: z.record(z.string().regex(/^\d+$/), z.enum(['approved', 'blocked'])).optional(),
+  })
+  .strict();
+
+const CompatibilityFileSchema = z.object({
+  schemaVersion: z.literal(COMPATIBILITY_SCHEMA_VERSION),
+  // Date the entries were last checked
+  reviewed: z.string().optional(),
+  packages: z.record(z.string().min(1), CompatibilityEntrySchema),
+});
+
+export type CompatibilityLayerName = 'bundled' | 'organization' | 'project';
+
+export interface CompatibilityEntry {
+  status?: 'active' | 'deprecated' | 'removed';
+  maxAngular?: number;
+  replacement?: string;
+  migrationGuide?: string;
+  reason?: string;
+  majors?: Record<string, 'approved' | 'blocked'>;
+}
+
+export interface CompatibilityFile {
+  schemaVersion: number;
+  reviewed?: string;
+  packages: Record<string, CompatibilityEntry>;
+}
+
+export interface ResolvedCompatibilityEntry extends CompatibilityEntry {
+  // Layers that defined or overrode the entry, lowest first
+  sources: CompatibilityLayerName[];
+  // Layer behind each per-major decision
+  majorSources?: Record<string, CompatibilityLayerName>;
+}
+
+export interface CompatibilityLayer {
+  layer: CompatibilityLayerName;
+  path: string;
+}
+
+export interface CompatibilityValidation {
+  entries: number;
+  errors: string[];
+  file: CompatibilityFile | null;
+}
+
+/**
+ * Bundled file first, then the organization file named by NGMA_COMPATIBILITY_FILE, then the
+ * project file: later layers override earlier ones field by field.
+ */
+export function getCompatibilityLayers(
+  projectPath: string,
+  bundledPath: string,
+  env: NodeJS.ProcessEnv = process.env
+): CompatibilityLayer[] {
+  const layers: CompatibilityLayer[] = [{ layer: 'bundled', path: bundledPath }];
+  if (env[ORGANIZATION_COMPATIBILITY_ENV]) {
+    layers.push({ layer: 'organization', path: env[ORGANIZATION_COMPATIBILITY_ENV] });
+  }
+  layers.push({ layer: 'project', path: join(projectPath, PROJECT_COMPATIBILITY_FILE) });
+  return layers;
+}
+
+/**
+ * Checks a compatibility file against the schema, then the consistency of each entry
+ */
+export function validateCompatibilityFile(path: string): CompatibilityValidation {
+  let content: unknown;
+  try {
+    content = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    return { entries: 0, errors: [`Cannot read ${path}: ${error.message}`], file: null };
+  }
+
+  const parsed = CompatibilityFileSchema.safeParse(content);
+  if (!parsed.success) {
+    return {
+      entries: 0,
+      errors: parsed.error.issues.map(
+        issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`
+      ),
+      file: null,
+    };
+  }
+
+  const file = parsed.data as CompatibilityFile;
+  const errors: string[] = [];
+  for (const [name, entry] of Object.entries(file.packages)) {
+    if (entry.replacement === name) {
+      errors.push(`packages.${name}: the replacement is the package itself`);
+    }
+    for (const [major, decision] of Object.entries(entry.majors || {})) {
+      if (decision === 'approved' && entry.maxAngular && Number(major) > entry.maxAngular) {
+        errors.push(
+          `packages.${name}: approved for Angular ${major} but maxAngular is ${entry.maxAngular}`
+        );
+      }
+    }
+  }
+
+  return { entries: Object.keys(file.packages).length, errors, file: errors.length ? null : file };
+}
+
+/**
+ * Known third-party packages: status, highest supported Angular major, replacement and the
+ * approved or blocked majors set by platform teams
+ */
+export class CompatibilityDatabase {
+  private entries = new Map<string, ResolvedCompatibilityEntry>();
+
+  constructor(layers: CompatibilityLayer[]) {
+    for (const { layer, path } of layers) {
+      if (!existsSync(path)) {
+        // Only the organization file is named explicitly, a missing one is a mistake
+        if (layer === 'organization') {
+          console.warn(`Compatibility file not found: ${path}`);
+        }
+        continue;
+      }
+
+      const { file, errors } = validateCompatibilityFile(path);
+      if (!file) {
+        console.warn(`Ignoring invalid compatibility file ${path}: ${errors[0]}`);
+        continue;
+      }
+      Object.entries(file.packages).forEach(([name, entry]) => this.merge(name, entry, layer));
+    }
+  }
+
+  getEntry(packageName: string): ResolvedCompatibilityEntry | null {
+    return this.entries.get(packageName) || null;
+  }
+
+  /**
+   * Why a package cannot move to the target major, null when nothing stops it. A decision
+   * for the major wins over maxAngular.
+   */
+  getIncompatibility(packageName: string, targetMajor: number): string | null {
+    const entry = this.getEntry(packageName);
+    if (!entry) return null;
+
+    const decision = entry.majors?.[String(targetMajor)];
+    if (decision === 'blocked') {
+      const layer = entry.majorSources?.[String(targetMajor)];
+      return `Blocked for Angular ${targetMajor} by the ${layer} compatibility file`;
+    }
+    if (decision === 'approved') return null;
+
+    if (entry.maxAngular && targetMajor > entry.maxAngular) {
+      return entry.reason || `Only supports Angular up to version ${entry.maxAngular}`;
+    }
+    return null;
+  }
+
+  private merge(name: string, entry: CompatibilityEntry, layer: CompatibilityLayerName): void {
+    const existing = this.entries.get(name);
+    const majorSources = { ...existing?.majorSources };
+    Object.keys(entry.majors || {}).forEach(major => {
+      majorSources[major] = layer;
+    });
+
+    this.entries.set(name, {
+      ...existing,
+      ...entry,
+      majors: { ...existing?.majors, ...entry.majors },
+      sources: [...(existing?.sources || []), layer],
+      majorSources,
+    });
+  }
+}
@@ -0,0 +1,140 @@
+import type { UpgradeResolver } from '../analyzers/UpgradeResolver.js';
+import {
+  ValidationError,
+  type BreakingChange,
+  type DataSource,
+  type MigrationHop,
+  type MigrationSchematic,
+  type ProjectFeatures,
+} from '../types/index.js';
+
+import { getAngularVersionRequirements } from './AngularVersionRequirements.js';
+import type { BreakingChangeDownloader } from './BreakingChangeDownloader.js';
+
+// Schematics mentioned in migration instructions, e.g. "ng generate @angular/core:control-flow"
+const SCHEMATIC_PATTERN =
+  /\bng (generate|g|update) (@[\w-]+\/[\w-]+(?::[\w-]+)?)((?: --[\w-]+(?:[ =][\w-]+)?)*)/g;
+
+// Worst data source wins when hops come from different places
+const SOURCE_RANK: Record<DataSource, number> = {
+  network: 0,
+  cache: 1,
+  'stale-cache': 2,
+  fallback: 3,
+};
+
+/**
+ * Splits a multi-major migration into one hop per major, since `ng update` only moves one
+ * major at a time. Peer updates of each hop are resolved from the versions chosen for the
+ * previous one.
+ */
+export class MigrationPlanner {
+  private breakingChangeSource: DataSource | null = null;
+
+  constructor(
+    private readonly downloader: BreakingChangeDownloader,
+    private readonly resolver: UpgradeResolver
+  ) {}
+
+  /**
+   * Worst data source of the breaking changes across all hops of the last plan
+   */
+  getBreakingChangeSource(): DataSource | null {
+    return this.breakingChangeSource;
+  }
+
+  async plan(
+    fromVersion: string,
+    toVersion: string,
+    dependencies: Record<string, string>,
+    features?: ProjectFeatures
+  ): Promise<MigrationHop[]> {
+    const from = parseInt(fromVersion, 10);
+    const to = parseInt(toVersion, 10);
+    if (Number.isNaN(from) || Number.isNaN(to) || to <= from) {
+      throw new ValidationError(
+        `The target version (${toVersion}) must be a major above the current one (${fromVersion})`
+      );
+    }
+
+    const hops: MigrationHop[] = [];
+    const specs: Record<string, string> = {};
+    this.breakingChangeSource = null;
+
+    for (let major = from + 1; major <= to; major++) {
+      const hopFrom = String(major - 1);
+      const hopTo = String(major);
+      // The last hop lands on the exact target when one was given, e.g. 20.0.0-rc.1
+      const hopTarget = major === to ? toVersion.trim() : hopTo;
+
+      const breakingChanges = await this.downloader.download(hopFrom, hopTo, features);
+      this.recordSource(this.downloader.getLastSource());
+
+      const peerUpdates = await this.resolver.resolve(hopTarget, { ...specs });
+      peerUpdates.changes.forEach(change => {
+        specs[change.package] = change.to;
+      });
+
+      hops.push({
+        fromVersion: hopFrom,
+        toVersion: hopTo,
+        breakingChanges,
+        requirements: getAngularVersionRequirements(major),
+        peerUpdates,
+        schematics: this.collectSchematics(hopTarget, breakingChanges, dependencies),
+      });
+    }
+
+    return hops;
+  }
+
+  /**
+   * `ng update` for the framework packages, then the optional migrations named by the
+   * breaking changes of the hop
+   */
+  private collectSchematics(
+    toVersion: string,
+    breakingChanges: BreakingChange[],
+    dependencies: Record<string, string>
+  ): MigrationSchematic[] {
+    const schematics: MigrationSchematic[] = [
+      {
+        command: `ng update @angular/core@${toVersion} @angular/cli@${toVersion}`,
+        optional: false,
+        description: 'Updates the framework and runs its migrations',
+      },
+    ];
+
+    if (dependencies['@angular/material'] || dependencies['@angular/cdk']) {
+      const target = dependencies['@angular/material'] ? '@angular/material' : '@angular/cdk';
+      schematics.push({
+        command: `ng update ${target}@${toVersion}`,
+        optional: false,
+        description: 'Updates Angular Material and the CDK and runs their migrations',
+      });
+    }
+
+    const seen = new Set(schematics.map(schematic => schematic.command));
+    for (const change of breakingChanges) {
+      for (const match of change.migration.matchAll(SCHEMATIC_PATTERN)) {
+        const verb = match[1] === 'g' ? 'generate' : match[1];
+        const command = `ng ${verb} ${match[2]}${match[3]}`;
+        if (seen.has(command)) continue;
+
+        seen.add(command);
+        schematics.push({ command, optional: true, description: change.title });
+      }
+    }
+
+    return schematics;
+  }
+
+  private recordSource(source: DataSource): void {
+    if (
+      !this.breakingChangeSource ||
+      SOURCE_RANK[source] > SOURCE_RANK[this.breakingChangeSource]
+    ) {
+      this.breakingChangeSource = source;
+    }
+  }
+}
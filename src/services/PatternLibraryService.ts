@@ -1,5 +1,6 @@
-import fetch from 'node-fetch';
-import { DeprecatedPatternConfig } from '../types/index.js';
+import { DataSource, DeprecatedPatternConfig, FixtureMissingError } from '../types/index.js';
+import type { CacheStore } from '../utils/cache/CacheStore.js';
+import { fetchWithFixtures, getFixtureMode } from '../utils/HttpFixtures.js';
 
 interface GitHubFile {
   name: string;
@@ -11,12 +12,32 @@ interface GitHubFile {
 export class PatternLibraryService {
   private readonly PATTERN_REPO = 'angular/angular';
   private readonly PATTERN_PATH = 'packages/core/schematics/migrations';
+  private lastSource: DataSource = 'network';
+  
+  constructor(private readonly cache?: CacheStore, private readonly offline = false) {}
+  
+  /**
+   * Where the result of the last fetchPatterns() came from
+   */
+  getLastSource(): DataSource {
+    return this.lastSource;
+  }
   
   async fetchPatterns(fromVersion: string, toVersion: string): Promise<DeprecatedPatternConfig[]> {
+    const cacheKey = `${fromVersion}-${toVersion}`;
+    
     try {
-      // Only support Angular 17+
-      if (Number(fromVersion) < 17) {
-        return this.getBuiltInPatterns(fromVersion, toVersion);
+      // Try cache first, except when recording or replaying fixtures
+      const useCache = this.cache && (this.offline || !getFixtureMode());
+      const cached = useCache ? this.cache.get<DeprecatedPatternConfig[]>('patterns', cacheKey) : null;
+      if (cached) {
+        this.lastSource = 'cache';
+        return cached;
+      }
+      
+      // Only Angular 17+ migrations are fetched from the repository
+      if (this.offline || Number(fromVersion) < 17) {
+        return this.getFallbackPatterns(fromVersion, toVersion);
       }
       
       // Fetch migration configs from Angular repository
@@ -24,23 +45,44 @@ export class PatternLibraryService {
       
       if (patterns.length === 0) {
         // Fallback to built-in patterns
-        return this.getBuiltInPatterns(fromVersion, toVersion);
+        return this.getFallbackPatterns(fromVersion, toVersion);
       }
       
+      if (!getFixtureMode()) {
+        this.cache?.set('patterns', cacheKey, patterns, {
+          ttl: 24 * 60 * 60 * 1000, // 24 hours
+        });
+      }
+      this.lastSource = 'network';
       return patterns;
     } catch (error) {
+      if (error instanceof FixtureMissingError) throw error;
       console.warn('Failed to fetch patterns from repository:', error.message);
-      return this.getBuiltInPatterns(fromVersion, toVersion);
+      return this.getFallbackPatterns(fromVersion, toVersion);
     }
   }
   
+  /**
+   * Without fresh patterns: an expired cache entry if there is one, the built-in patterns otherwise
+   */
+  private getFallbackPatterns(fromVersion: string, toVersion: string): DeprecatedPatternConfig[] {
+    const stale = this.cache?.getRecord<DeprecatedPatternConfig[]>('patterns', `${fromVersion}-${toVersion}`);
+    if (stale) {
+      this.lastSource = 'stale-cache';
+      return stale.value;
+    }
+    
+    this.lastSource = 'fallback';
+    return this.getBuiltInPatterns(fromVersion, toVersion);
+  }
+  
   private async fetchFromAngularRepo(fromVersion: string, toVersion: string): Promise<DeprecatedPatternConfig[]> {
     const patterns: DeprecatedPatternConfig[] = [];
     
     try {
       // Get list of migration directories
       const apiUrl = `https://api.github.com/repos/${this.PATTERN_REPO}/contents/${this.PATTERN_PATH}`;
-      const response = await fetch(apiUrl, {
+      const response = await fetchWithFixtures(apiUrl, {
         headers: {
           'Accept': 'application/vnd.github.v3+json',
           'User-Agent': 'ng-migration-analyzer'
@@ -66,6 +108,7 @@ export class PatternLibraryService {
       }
       
     } catch (error) {
+      if (error instanceof FixtureMissingError) throw error;
       console.error('Error fetching from Angular repo:', error);
     }
     
@@ -91,7 +134,7 @@ export class PatternLibraryService {
     try {
       // Look for migration.json in the folder
       const configUrl = `https://api.github.com/repos/${this.PATTERN_REPO}/contents/${folderPath}/migration.json`;
-      const response = await fetch(configUrl, {
+      const response = await fetchWithFixtures(configUrl, {
         headers: {
           'Accept': 'application/vnd.github.v3+json',
           'User-Agent': 'ng-migration-analyzer'
@@ -111,6 +154,7 @@ export class PatternLibraryService {
         }
       }
     } catch (error) {
+      if (error instanceof FixtureMissingError) throw error;
       console.error(`Error fetching migration config from ${folderPath}:`, error);
     }
     
@@ -3,6 +3,7 @@ export interface PackageInfo {
   version: string;
   dependencies?: Record<string, string>;
   devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
   peerDependencies?: Record<string, string>;
   peerDependenciesMeta?: Record<string, { optional?: boolean }>;
   scripts?: Record<string, string>;
@@ -19,6 +20,7 @@ export interface NpmLockFile {
 }
 
 export interface NpmLockPackage {
+  name?: string;
   version?: string;
   resolved?: string;
   integrity?: string;
@@ -26,7 +28,13 @@ export interface NpmLockPackage {
   optional?: boolean;
   requires?: Record<string, string>;
   dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
   peerDependencies?: Record<string, string>;
+  peerDependenciesMeta?: Record<string, { optional?: boolean }>;
+  // Peer versions linked by the package manager (pnpm records them per install)
+  peerResolutions?: Record<string, string>;
+  link?: boolean;
 }
 
 export interface LockFileEntry {
@@ -54,6 +62,10 @@ export interface AnalyzerConfig {
       bypassList: string[];
     };
     strictSSL: boolean;
+    // PEM bundle added to the trusted authorities, `cafile` from .npmrc is used when unset
+    cafile?: string;
+    // Total time budget in ms for retrying one registry lookup, 60s when unset
+    maxRetryTime?: number;
     timeout: number;
   };
   cache: {
@@ -61,7 +73,12 @@ export interface AnalyzerConfig {
     ttl: number;
     maxSize: number;
     persistToDisk: boolean;
+    // Directory of the on-disk cache, relative to the project
     diskCachePath: string;
+    // Size limit in bytes across all namespaces, oldest entries are evicted first (256 MiB when unset)
+    maxBytes?: number;
+    // Read-only JSON bundle consulted when an entry is not in the cache
+    bundlePath?: string;
   };
   analysis: {
     includeDevDependencies: boolean;
@@ -81,6 +98,10 @@ export interface AnalysisResult {
   recommendations: Recommendation[];
   migrationPath: MigrationStep[];
   ngUpdateInfo?: string | null;
+  upgradeResolution?: UpgradeResolution;
+  frameworkAlignment?: FrameworkAlignment;
+  companionAlignment?: CompanionAlignment[];
+  maintenanceHealth?: MaintenanceHealth;
   metadata?: {
     timestamp: string;
     projectPath: string;
@@ -109,11 +130,150 @@ export interface VersionConflict {
   package: string;
   versions: Array<{
     version: string;
+    // Dependency chains from the project root, e.g. "my-app > legacy-lib@1.4.0"
     requiredBy: string[];
+    // Lock file locations of this copy, e.g. "node_modules/legacy-lib/node_modules/rxjs"
+    paths?: string[];
   }>;
   severity: 'error' | 'warning';
 }
 
+// Framework packages released together, read from the ng-update.packageGroup of their leader
+export interface FrameworkPackageGroup {
+  // Package whose version the others must follow, e.g. "@angular/core"
+  leader: string;
+  version: string | null;
+  packages: string[];
+  // 'default' when no ng-update metadata could be read for the installed leader
+  source: 'ng-update' | 'default';
+}
+
+export interface FrameworkMisalignment {
+  package: string;
+  installed: string;
+  // Version of the group leader, or "17.x" when only the major has to match
+  expected: string;
+  group: string;
+  severity: 'error' | 'warning';
+  resolution: string;
+}
+
+export interface FrameworkAlignment {
+  groups: FrameworkPackageGroup[];
+  misaligned: FrameworkMisalignment[];
+}
+
+// A library family versioned along Angular majors, e.g. NgRx or angular-eslint
+export interface CompanionAlignment {
+  ecosystem: string;
+  // Members share one version when true, e.g. every @ngrx/* package
+  lockstep: boolean;
+  packages: Array<{
+    package: string;
+    current: string | null;
+    // Exact version to install for the target, null when no release declares support for it
+    recommended: string | null;
+    section: 'dependencies' | 'devDependencies';
+  }>;
+  // Install command with the exact versions, null when a package has no release for the target
+  installCommand: string | null;
+  reason?: string;
+}
+
+export type MaintenanceRisk = 'high' | 'medium' | 'low';
+
+export interface MaintenanceHealthEntry {
+  package: string;
+  installedVersion: string | null;
+  risk: MaintenanceRisk;
+  // npm deprecation message of the package, or of the installed version only
+  deprecated?: string;
+  // Package named by the deprecation message, e.g. "Use @scope/new-lib instead"
+  replacement?: string;
+  // Date of the most recent release from the packument `time` field, null when it is missing
+  // (abbreviated packument from the offline cache)
+  lastPublish: string | null;
+  monthsSinceLastPublish: number | null;
+  // False when no release accepts one of the recent Angular majors, null for non-Angular packages
+  supportsRecentAngular: boolean | null;
+  reasons: string[];
+}
+
+export interface MaintenanceHealth {
+  staleAfterMonths: number;
+  // Angular majors a maintained library is expected to support, up to the target
+  recentMajors: number[];
+  packages: MaintenanceHealthEntry[];
+}
+
+export interface UpgradeResolution {
+  targetVersion: string;
+  satisfiable: boolean;
+  // Entries to merge into package.json, limited to packages whose version changes
+  packageJsonPatch: {
+    dependencies?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+  };
+  changes: UpgradeChange[];
+  unsatisfiable?: UnsatisfiableConstraint;
+}
+
+export interface UpgradeChange {
+  package: string;
+  section: 'dependencies' | 'devDependencies';
+  from: string;
+  to: string;
+}
+
+export interface UnsatisfiableConstraint {
+  package: string;
+  reason: string;
+  // Peer requirements that rejected every candidate, e.g. "ngx-foo@3.1.0 requires @angular/core ^16.0.0"
+  constraints: string[];
+}
+
+export type DependencyType =
+  | 'dependencies'
+  | 'devDependencies'
+  | 'optionalDependencies'
+  | 'peerDependencies';
+
+// Detected from the lock file of the project, npm when there is none
+export type PackageManager = 'npm' | 'pnpm' | 'yarn';
+
+// Dependency declared by a lock file entry, resolved to the location of the copy in use
+export interface LockDependencyEdge {
+  name: string;
+  range: string;
+  type: DependencyType;
+  target: string;
+}
+
+export interface DependencyPathStep {
+  name: string;
+  version: string;
+  // Lock file location, '' for the root package.json
+  location: string;
+  // Range declared by the previous step, absent for the root
+  range?: string;
+  type?: DependencyType;
+  peers: Array<{
+    name: string;
+    range: string;
+    version: string | null;
+    optional: boolean;
+    satisfied: boolean;
+  }>;
+}
+
+export interface DependencyExplanation {
+  package: string;
+  versions: string[];
+  // Each path starts at the root package.json (or a workspace) and ends at a copy of the package
+  paths: DependencyPathStep[][];
+  truncated: boolean;
+}
+
 export interface AngularPackageInfo {
   name: string;
   currentVersion: string;
@@ -162,6 +322,17 @@ export class ParseError extends Error {
   }
 }
 
+// Raised in replay mode when a request has no recorded response
+export class FixtureMissingError extends Error {
+  constructor(
+    message: string,
+    public url: string
+  ) {
+    super(message);
+    this.name = 'FixtureMissingError';
+  }
+}
+
 // Schema for configuration validation
 import { z } from 'zod';
 
@@ -183,6 +354,8 @@ export const AnalyzerConfigSchema = z.object({
         })
         .optional(),
       strictSSL: z.boolean().default(true),
+      cafile: z.string().optional(),
+      maxRetryTime: z.number().min(0).optional(),
       timeout: z.number().default(30000),
     })
     .default({}),
@@ -191,9 +364,11 @@ export const AnalyzerConfigSchema = z.object({
     .object({
       enabled: z.boolean().default(true),
       ttl: z.number().min(60000).max(3600000).default(300000),
-      maxSize: z.number().min(10).max(1000).default(100),
+      maxSize: z.number().min(10).max(1000).default(1000),
       persistToDisk: z.boolean().default(false),
       diskCachePath: z.string().default('./.ng-migrate-cache'),
+      maxBytes: z.number().min(1024 * 1024).optional(),
+      bundlePath: z.string().optional(),
     })
     .default({}),
 
@@ -215,6 +390,8 @@ export interface MigrationConfig {
   projectPath: string;
   fromVersion?: string;
   toVersion?: string;
+  // Never touch the network: use the cache, even expired, then the bundled data
+  offline?: boolean;
 }
 
 export interface DeprecatedPattern {
@@ -239,7 +416,27 @@ export interface DeprecatedPatternConfig {
   documentation?: string;
 }
 
+// Update guide options, see https://angular.dev/update-guide
+export type ProjectFeature = 'material' | 'ssr' | 'i18n' | 'ngUpgrade';
+
+// Update guide application complexity: 1 basic, 2 medium, 3 advanced
+export type ApplicationComplexity = 1 | 2 | 3;
+
+export interface ProjectFeatures {
+  material: boolean;
+  ssr: boolean;
+  i18n: boolean;
+  ngUpgrade: boolean;
+  complexity: ApplicationComplexity;
+  // What each assumed flag was inferred from, e.g. "package.json: @angular/material"
+  evidence: Partial<Record<ProjectFeature | 'complexity', string>>;
+}
+
+// Where a breaking change was reported
+export type BreakingChangeSource = 'update-guide' | 'release-notes' | 'bundled';
+
 export interface BreakingChange {
+  // Derived from the content, stable across runs and upstream reordering
   id: string;
   title: string;
   description: string;
@@ -251,6 +448,12 @@ export interface BreakingChange {
   fromVersion: string;
   toVersion: string;
   category: string;
+  // Every source that reported this change once duplicates are merged
+  sources?: BreakingChangeSource[];
+  // Only relevant to projects using one of these features
+  features?: ProjectFeature[];
+  // Lowest application complexity the change is shown for
+  complexity?: ApplicationComplexity;
 }
 
 
@@ -261,11 +464,13 @@ export interface DependencyAnalysis {
     maxSupportedAngular?: number;
     reason: string;
     alternative?: string;
+    migrationGuide?: string;
   }>;
   deprecated: Array<{
     package: string;
     status: string;
     alternative?: string;
+    migrationGuide?: string;
   }>;
   total: number;
 }
@@ -286,6 +491,8 @@ export interface AnalysisReport {
   projectPath: string;
   fromVersion: string;
   toVersion: string;
+  // Target given with --to, e.g. "20.0.0-rc.1" or the version behind "next"
+  targetVersion?: string;
   summary: {
     filesImpacted: number;
     breakingChanges: number;
@@ -295,6 +502,73 @@ export interface AnalysisReport {
   patterns: DeprecatedPattern[];
   peerDependencies: PeerDependencyAnalysis;
   breakingChanges?: BreakingChange[];
+  versionConflicts?: VersionConflict[];
+  frameworkAlignment?: FrameworkAlignment;
+  companionAlignment?: CompanionAlignment[];
+  maintenanceHealth?: MaintenanceHealth;
+  registry?: RegistryLookupStats;
+  metadata?: ReportMetadata;
+}
+
+// Tooling an Angular major needs, as npm ranges
+export interface AngularVersionRequirements {
+  node: string;
+  typescript: string;
+  zoneJs: string;
+  rxjs: string;
+}
+
+export interface MigrationSchematic {
+  command: string;
+  // Optional migrations are offered, not run by ng update
+  optional: boolean;
+  description: string;
+}
+
+// One major version step of a migration plan
+export interface MigrationHop {
+  fromVersion: string;
+  toVersion: string;
+  breakingChanges: BreakingChange[];
+  requirements: AngularVersionRequirements | null;
+  // Resolved from the package.json left by the previous hop
+  peerUpdates: UpgradeResolution;
+  schematics: MigrationSchematic[];
+}
+
+export interface MigrationPlan {
+  projectPath: string;
+  fromVersion: string;
+  toVersion: string;
+  hops: MigrationHop[];
+  // Package manager the hop scripts install with, detected from the lock file
+  packageManager: PackageManager;
+  metadata?: ReportMetadata;
+}
+
+// Where the data behind a report section came from
+export type DataSource = 'network' | 'cache' | 'stale-cache' | 'fallback';
+
+export interface ReportMetadata {
+  timestamp: string;
+  offline: boolean;
+  // False in offline mode or when the registry could not be reached
+  networkAccessible: boolean;
+  // Data source per section: breakingChanges, patterns, dependencies
+  sources: Record<string, DataSource>;
+  // Features the breaking changes were filtered with
+  features?: ProjectFeatures;
+}
+
+export interface RegistryLookupStats {
+  // Lookups that still failed after every retry, their packages are missing from the analysis
+  failedLookups: number;
+  failedPackages: Array<{ package: string; reason: string }>;
+  retries: number;
+  // Expired cache entries the registry confirmed unchanged with a 304
+  revalidated: number;
+  // Expired cache entries used as is because the registry was not reachable
+  stale: number;
 }
 
 export interface ValidationResult {
@@ -331,4 +605,5 @@ export interface SuggestionsReport {
   totalSuggestions: number;
   byCriteria: Record<string, number>;
   estimatedEffort: string;
+  metadata?: ReportMetadata;
 }
\ No newline at end of file
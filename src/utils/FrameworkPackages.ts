@@ -0,0 +1,63 @@
+/**
+ * `ng-update.packageGroup` of `@angular/core`: published together at the same version. Also the
+ * group checked when the metadata of the installed core cannot be read.
+ */
+export const FRAMEWORK_CORE_PACKAGES = [
+  '@angular/animations',
+  '@angular/common',
+  '@angular/compiler',
+  '@angular/compiler-cli',
+  '@angular/core',
+  '@angular/elements',
+  '@angular/forms',
+  '@angular/language-service',
+  '@angular/localize',
+  '@angular/platform-browser',
+  '@angular/platform-browser-dynamic',
+  '@angular/platform-server',
+  '@angular/router',
+  '@angular/service-worker',
+  '@angular/upgrade',
+];
+
+/**
+ * CLI and build tooling released with each framework version, under the same major, and moved
+ * by `ng update @angular/cli`. The 0.x devkit packages (architect, build-webpack...) are not listed.
+ */
+export const FRAMEWORK_TOOLING_PACKAGES = [
+  '@angular-devkit/build-angular',
+  '@angular-devkit/core',
+  '@angular-devkit/schematics',
+  '@angular/build',
+  '@angular/cli',
+  '@angular/pwa',
+  '@angular/ssr',
+  '@ngtools/webpack',
+  '@schematics/angular',
+];
+
+/**
+ * `ng-update.packageGroup` of `@angular/material`, moved by `ng update @angular/material`. Its
+ * patches follow their own cycle, under the major of the framework.
+ */
+export const MATERIAL_PACKAGES = [
+  '@angular/cdk',
+  '@angular/cdk-experimental',
+  '@angular/google-maps',
+  '@angular/material',
+  '@angular/material-date-fns-adapter',
+  '@angular/material-experimental',
+  '@angular/material-luxon-adapter',
+  '@angular/material-moment-adapter',
+  '@angular/youtube-player',
+];
+
+const FRAMEWORK_PACKAGES = new Set([...FRAMEWORK_CORE_PACKAGES, ...FRAMEWORK_TOOLING_PACKAGES]);
+
+/**
+ * Packages that release with the framework. Other `@angular/*` packages such as
+ * `@angular/fire` or `@angular/flex-layout` follow their own versioning.
+ */
+export function isFrameworkPackage(packageName: string): boolean {
+  return FRAMEWORK_PACKAGES.has(packageName);
+}
@@ -0,0 +1,127 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import fetch, { Response, type RequestInit } from 'node-fetch';
+
+import { FixtureMissingError } from '../types/index.js';
+
+export type FixtureMode = 'record' | 'replay';
+
+export interface RecordedResponse {
+  url: string;
+  status: number;
+  statusText?: string;
+  // Erreur réseau sans réponse HTTP (status 0)
+  error?: { message: string; code?: string | number };
+  encoding?: 'json' | 'text';
+  body?: unknown;
+}
+
+let settings: { mode: FixtureMode; directory: string } | null = null;
+
+/**
+ * Active l'enregistrement ou le rejeu du trafic HTTP pour tout le processus
+ * (registry npm, Angular Update Guide, API GitHub)
+ */
+export function configureHttpFixtures(mode: FixtureMode, directory: string): void {
+  settings = { mode, directory: path.resolve(directory) };
+}
+
+export function resetHttpFixtures(): void {
+  settings = null;
+}
+
+export function getFixtureMode(): FixtureMode | null {
+  return settings?.mode ?? null;
+}
+
+/**
+ * Chemin de la fixture d'une URL : `<dossier>/<hôte>/<chemin lisible>-<hash>.json`.
+ * Le hash couvre l'URL complète, deux requêtes distinctes ne partagent jamais un fichier.
+ */
+export function fixturePath(url: string, directory: string = settings?.directory ?? '.'): string {
+  const parsed = new URL(url);
+  const readable = `${parsed.pathname}${parsed.search}`
+    .replace(/^\/+/, '')
+    .replace(/[^A-Za-z0-9@._-]+/g, '_')
+    .slice(0, 80);
+  const hash = createHash('sha1').update(url).digest('hex').slice(0, 10);
+  const host = parsed.host.replace(/[^A-Za-z0-9.-]+/g, '_');
+
+  return path.join(directory, host, `${readable || 'index'}-${hash}.json`);
+}
+
+/**
+ * Enregistre une réponse en mode record (sans effet sinon).
+ * Les en-têtes ne sont pas conservés, les jetons d'authentification ne finissent pas dans les fixtures.
+ */
+export function recordResponse(response: RecordedResponse): void {
+  if (settings?.mode !== 'record') return;
+
+  const file = fixturePath(response.url);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(response, null, 2) + '\n');
+}
+
+/**
+ * Réponse enregistrée pour une URL
+ * @throws FixtureMissingError si aucune fixture n'existe
+ */
+export function replayResponse(url: string): RecordedResponse {
+  const file = fixturePath(url);
+
+  if (!fs.existsSync(file)) {
+    throw new FixtureMissingError(
+      `No recorded response for GET ${url} (expected ${file}). ` +
+        'Record the fixtures again with --record to capture it.',
+      url
+    );
+  }
+
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as RecordedResponse;
+}
+
+/**
+ * node-fetch avec enregistrement/rejeu : en replay aucune requête ne part sur le réseau
+ */
+export async function fetchWithFixtures(url: string, init?: RequestInit): Promise<Response> {
+  if (settings?.mode === 'replay') {
+    const recorded = replayResponse(url);
+    if (recorded.error) {
+      throw Object.assign(new Error(recorded.error.message), { code: recorded.error.code });
+    }
+    const body =
+      recorded.encoding === 'json' ? JSON.stringify(recorded.body) : String(recorded.body ?? '');
+    return new Response(body, { status: recorded.status, statusText: recorded.statusText, url });
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    recordResponse({ url, status: 0, error: { message: error.message, code: error.code } });
+    throw error;
+  }
+
+  if (settings?.mode !== 'record') return response;
+
+  const text = await response.text();
+  const recorded: RecordedResponse = {
+    url,
+    status: response.status,
+    statusText: response.statusText,
+    encoding: 'text',
+    body: text,
+  };
+  try {
+    // Les corps JSON restent lisibles dans les fixtures
+    recorded.body = JSON.parse(text);
+    recorded.encoding = 'json';
+  } catch {
+    // Corps non JSON, conservé tel quel
+  }
+  recordResponse(recorded);
+
+  return new Response(text, { status: response.status, statusText: response.statusText, url });
+}
@@ -0,0 +1,310 @@
+import { StringDecoder } from 'string_decoder';
+
+import { ParseError } from '../types/index.js';
+
+/**
+ * Chemin d'une valeur dans le document : clés d'objet, `*` pour les éléments de tableau
+ */
+export type JsonPath = readonly string[];
+
+type Mode =
+  | 'value'
+  | 'firstValue'
+  | 'firstKey'
+  | 'key'
+  | 'colon'
+  | 'comma'
+  | 'string'
+  | 'literal'
+  | 'done';
+
+interface Frame {
+  kind: 'object' | 'array';
+  keep: boolean;
+  value: any;
+  path: JsonPath;
+  key: string;
+}
+
+const WHITESPACE = new Set([' ', '\t', '\n', '\r']);
+const LITERAL_CHAR = /[0-9a-zA-Z+\-.]/;
+const NUMBER = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+/**
+ * Analyseur JSON incrémental : le document est lu par morceaux au fil de la réponse HTTP,
+ * et seules les valeurs acceptées par `keep` sont construites. Les autres sont parcourues
+ * sans être conservées, ce qui évite de garder en mémoire le texte complet d'un gros packument.
+ */
+export class JsonStreamParser {
+  private readonly decoder = new StringDecoder('utf8');
+  private readonly stack: Frame[] = [];
+  private mode: Mode = 'value';
+  private root: unknown;
+
+  // Valeur primitive en cours de lecture
+  private buffer = '';
+  private stringIsKey = false;
+  private escape: 'none' | 'char' | 'unicode' = 'none';
+  private unicode = '';
+  private pendingKeep = true;
+
+  constructor(private readonly keep: (path: JsonPath) => boolean = () => true) {}
+
+  write(chunk: Buffer | string): void {
+    const text = typeof chunk === 'string' ? chunk : this.decoder.write(chunk);
+    let i = 0;
+
+    while (i < text.length) {
+      if (this.mode === 'string') {
+        i = this.readString(text, i);
+        continue;
+      }
+
+      const char = text[i];
+
+      if (this.mode === 'literal') {
+        if (LITERAL_CHAR.test(char)) {
+          this.buffer += char;
+          i++;
+          continue;
+        }
+        this.endLiteral();
+        // Le caractère courant est relu en mode 'comma'
+        continue;
+      }
+
+      i++;
+      if (WHITESPACE.has(char)) continue;
+
+      switch (this.mode) {
+        case 'value':
+        case 'firstValue':
+          if (char === ']' && this.mode === 'firstValue') {
+            this.closeContainer('array');
+          } else {
+            this.startValue(char);
+          }
+          break;
+        case 'firstKey':
+        case 'key':
+          if (char === '"') {
+            this.startString(true);
+          } else if (char === '}' && this.mode === 'firstKey') {
+            this.closeContainer('object');
+          } else {
+            throw this.unexpected(char);
+          }
+          break;
+        case 'colon':
+          if (char !== ':') throw this.unexpected(char);
+          this.mode = 'value';
+          break;
+        case 'comma':
+          if (char === ',') {
+            this.mode = this.top().kind === 'object' ? 'key' : 'value';
+          } else if (char === '}') {
+            this.closeContainer('object');
+          } else if (char === ']') {
+            this.closeContainer('array');
+          } else {
+            throw this.unexpected(char);
+          }
+          break;
+        case 'done':
+          throw this.unexpected(char);
+      }
+    }
+  }
+
+  end(): unknown {
+    const rest = this.decoder.end();
+    if (rest) this.write(rest);
+    if (this.mode === 'literal') this.endLiteral();
+
+    if (this.mode !== 'done') {
+      throw new ParseError('JSON incomplet : fin de flux inattendue');
+    }
+    return this.root;
+  }
+
+  private top(): Frame {
+    return this.stack[this.stack.length - 1];
+  }
+
+  /**
+   * Décide si la valeur qui commence doit être construite
+   */
+  private shouldKeep(): boolean {
+    const parent = this.top();
+    if (!parent) return true;
+    if (!parent.keep) return false;
+    return this.keep(this.childPath(parent));
+  }
+
+  private childPath(parent: Frame): JsonPath {
+    return [...parent.path, parent.kind === 'object' ? parent.key : '*'];
+  }
+
+  private startValue(char: string): void {
+    const keep = this.shouldKeep();
+
+    if (char === '{' || char === '[') {
+      const parent = this.top();
+      const kind = char === '{' ? 'object' : 'array';
+      this.stack.push({
+        kind,
+        keep,
+        value: keep ? (kind === 'object' ? {} : []) : undefined,
+        path: parent && keep ? this.childPath(parent) : [],
+        key: '',
+      });
+      this.mode = kind === 'object' ? 'firstKey' : 'firstValue';
+    } else if (char === '"') {
+      this.pendingKeep = keep;
+      this.startString(false);
+    } else if (LITERAL_CHAR.test(char)) {
+      this.pendingKeep = keep;
+      this.buffer = char;
+      this.mode = 'literal';
+    } else {
+      throw this.unexpected(char);
+    }
+  }
+
+  private startString(isKey: boolean): void {
+    this.stringIsKey = isKey;
+    this.buffer = '';
+    this.escape = 'none';
+    this.mode = 'string';
+  }
+
+  /**
+   * Lit la suite d'une chaîne à partir de `start`
+   * @returns Position du prochain caractère à traiter
+   */
+  private readString(text: string, start: number): number {
+    // Les valeurs ignorées sont parcourues sans accumuler leur contenu
+    const collect = this.stringIsKey ? this.top().keep : this.pendingKeep;
+    let i = start;
+
+    while (i < text.length) {
+      if (this.escape === 'unicode') {
+        const part = text.slice(i, i + 4 - this.unicode.length);
+        this.unicode += part;
+        i += part.length;
+        if (this.unicode.length < 4) return i;
+        if (!/^[0-9a-fA-F]{4}$/.test(this.unicode)) {
+          throw new ParseError(`Séquence unicode invalide : \\u${this.unicode}`);
+        }
+        if (collect) this.buffer += String.fromCharCode(parseInt(this.unicode, 16));
+        this.escape = 'none';
+        continue;
+      }
+
+      if (this.escape === 'char') {
+        const char = text[i++];
+        if (char === 'u') {
+          this.escape = 'unicode';
+          this.unicode = '';
+          continue;
+        }
+        if (!(char in ESCAPES)) throw new ParseError(`Échappement invalide : \\${char}`);
+        if (collect) this.buffer += ESCAPES[char];
+        this.escape = 'none';
+        continue;
+      }
+
+      // Avancer directement jusqu'au prochain guillemet ou échappement
+      let next = i;
+      while (next < text.length && text[next] !== '"' && text[next] !== '\\') next++;
+      if (collect) this.buffer += text.slice(i, next);
+      if (next === text.length) return next;
+
+      i = next + 1;
+      if (text[next] === '\\') {
+        this.escape = 'char';
+        continue;
+      }
+
+      this.endString();
+      return i;
+    }
+
+    return i;
+  }
+
+  private endString(): void {
+    if (this.stringIsKey) {
+      this.top().key = this.buffer;
+      this.buffer = '';
+      this.mode = 'colon';
+      return;
+    }
+    const value = this.buffer;
+    this.buffer = '';
+    this.emit(value, this.pendingKeep);
+  }
+
+  private endLiteral(): void {
+    const literal = this.buffer;
+    this.buffer = '';
+
+    let value: unknown;
+    if (literal === 'true') value = true;
+    else if (literal === 'false') value = false;
+    else if (literal === 'null') value = null;
+    else if (NUMBER.test(literal)) value = Number(literal);
+    else throw new ParseError(`Valeur JSON invalide : ${literal}`);
+
+    this.emit(value, this.pendingKeep);
+  }
+
+  private closeContainer(kind: Frame['kind']): void {
+    const frame = this.stack.pop();
+    if (!frame || frame.kind !== kind) {
+      throw this.unexpected(kind === 'object' ? '}' : ']');
+    }
+    this.emit(frame.value, frame.keep);
+  }
+
+  private emit(value: unknown, keep: boolean): void {
+    const parent = this.top();
+
+    if (!parent) {
+      this.root = value;
+      this.mode = 'done';
+      return;
+    }
+
+    if (keep) {
+      if (parent.kind === 'object' && parent.key === '__proto__') {
+        // Propriété propre, comme JSON.parse, sans toucher au prototype
+        Object.defineProperty(parent.value, '__proto__', {
+          value,
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        });
+      } else if (parent.kind === 'object') {
+        parent.value[parent.key] = value;
+      } else {
+        parent.value.push(value);
+      }
+    }
+    this.mode = 'comma';
+  }
+
+  private unexpected(char: string): ParseError {
+    return new ParseError(`JSON invalide : caractère inattendu '${char}'`);
+  }
+}
@@ -0,0 +1,198 @@
+import type { MigrationHop, MigrationPlan } from '../types/index.js';
+
+import { isFrameworkPackage, MATERIAL_PACKAGES } from './FrameworkPackages.js';
+import { execCommand, installCommand, runScriptCommand } from './PackageManagerCommands.js';
+import { describeDegradedSources, describeProjectFeatures } from './ReportFormatter.js';
+
+/**
+ * File name of the script of a hop, ordered so that `ls` lists them in execution order
+ */
+export function hopScriptName(hop: MigrationHop, index: number): string {
+  return `${String(index + 1).padStart(2, '0')}-angular-${hop.fromVersion}-to-${hop.toVersion}.sh`;
+}
+
+export function formatMigrationPlanMarkdown(plan: MigrationPlan): string {
+  const lines: string[] = [
+    `# Angular Migration Plan: ${plan.fromVersion} → ${plan.toVersion}`,
+    '',
+    `**Project:** ${plan.projectPath}`,
+    `**Hops:** ${plan.hops.map(hop => `${hop.fromVersion} → ${hop.toVersion}`).join(', ')}`,
+  ];
+
+  if (plan.metadata?.features) {
+    lines.push(`**Assumed Features:** ${describeProjectFeatures(plan.metadata.features)}`);
+  }
+  describeDegradedSources(plan.metadata).forEach(line => lines.push(`> ⚠️ ${line}`));
+  lines.push('');
+
+  lines.push(
+    'Run each hop to completion, build and test the application, then commit before starting',
+    'the next one. `ng update` only supports moving one major version at a time.',
+    ''
+  );
+
+  plan.hops.forEach((hop, index) => {
+    lines.push(`## ${index + 1}. Angular ${hop.fromVersion} → ${hop.toVersion}`, '');
+    lines.push(`Script: \`${hopScriptName(hop, index)}\``, '');
+
+    lines.push('### Requirements', '');
+    if (hop.requirements) {
+      lines.push(
+        `- Node.js: \`${hop.requirements.node}\``,
+        `- TypeScript: \`${hop.requirements.typescript}\``,
+        `- zone.js: \`${hop.requirements.zoneJs}\``,
+        `- RxJS: \`${hop.requirements.rxjs}\``
+      );
+    } else {
+      lines.push(`- No requirement data for Angular ${hop.toVersion}`);
+    }
+    lines.push('');
+
+    lines.push('### Peer Updates', '');
+    if (!hop.peerUpdates.satisfiable) {
+      lines.push(`❌ ${hop.peerUpdates.unsatisfiable?.reason || 'No compatible dependency set'}`);
+      hop.peerUpdates.unsatisfiable?.constraints.forEach(constraint => {
+        lines.push(`- ${constraint}`);
+      });
+    } else if (hop.peerUpdates.changes.length === 0) {
+      lines.push('No dependency change needed.');
+    } else {
+      lines.push('| Package | From | To |', '|---|---|---|');
+      hop.peerUpdates.changes.forEach(change => {
+        lines.push(`| ${change.package} | \`${change.from}\` | \`${change.to}\` |`);
+      });
+    }
+    lines.push('');
+
+    lines.push('### Schematics', '');
+    hop.schematics.forEach(schematic => {
+      const optional = schematic.optional ? ' _(optional)_' : '';
+      lines.push(`- \`${schematic.command}\`${optional}: ${schematic.description}`);
+    });
+    lines.push('');
+
+    lines.push(`### Breaking Changes (${hop.breakingChanges.length})`, '');
+    if (hop.breakingChanges.length === 0) {
+      lines.push('No known breaking change.');
+    }
+    hop.breakingChanges.forEach(change => {
+      const automated = change.automated ? ' _(handled by ng update)_' : '';
+      lines.push(`- **${change.title}** [${change.impact}]${automated}: ${change.migration}`);
+    });
+    lines.push('');
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Shell script that runs one hop: checks Node.js, runs the framework schematics, installs the
+ * peer updates and builds. Optional schematics are listed as comments.
+ */
+export function generateHopScript(plan: MigrationPlan, hop: MigrationHop, index: number): string {
+  const lines: string[] = [
+    '#!/bin/bash',
+    '# Auto-generated Angular Migration Script',
+    '# Generated by ng-migration-analyzer',
+    `# Hop ${index + 1}/${plan.hops.length}: Angular ${hop.fromVersion} → ${hop.toVersion}`,
+    '',
+    'set -e',
+    '',
+    `echo "=== Angular ${hop.fromVersion} → ${hop.toVersion} (hop ${index + 1}/${plan.hops.length}) ==="`,
+    '',
+  ];
+
+  if (!hop.peerUpdates.satisfiable) {
+    lines.push(
+      `echo "❌ No dependency set satisfies every peer dependency for Angular ${hop.toVersion}:"`,
+      `echo "   ${escapeShell(hop.peerUpdates.unsatisfiable?.reason || '')}"`,
+      'echo "Resolve it and rerun ngma plan before migrating."',
+      'exit 1',
+      ''
+    );
+    return lines.join('\n');
+  }
+
+  if (hop.requirements) {
+    const versions = [...hop.requirements.node.matchAll(/\^(\d+)\.(\d+)\.(\d+)/g)].map(
+      match => `[${match[1]}, ${match[2]}, ${match[3]}]`
+    );
+    lines.push(
+      `# Node.js ${hop.requirements.node}`,
+      `node -e 'const [major, minor, patch] = process.versions.node.split(".").map(Number);` +
+        ` const ok = [${versions.join(', ')}].some(([M, m, p]) => major === M && (minor > m || (minor === m && patch >= p)));` +
+        ` if (!ok) { console.error("Angular ${hop.toVersion} requires Node.js ${hop.requirements.node}, found " + process.version); process.exit(1); }'`,
+      ''
+    );
+  }
+
+  lines.push('# Framework update');
+  hop.schematics
+    .filter(schematic => !schematic.optional)
+    .forEach(schematic => {
+      lines.push(
+        `echo "Running ${schematic.command}..."`,
+        execCommand(plan.packageManager, `${schematic.command} --allow-dirty`)
+      );
+    });
+  lines.push('');
+
+  // Framework packages were moved by ng update, the rest is installed as resolved
+  const thirdParty = hop.peerUpdates.changes.filter(change => !isMovedByNgUpdate(change.package));
+  const dependencies = thirdParty.filter(change => change.section === 'dependencies');
+  const devDependencies = thirdParty.filter(change => change.section === 'devDependencies');
+  if (thirdParty.length > 0) {
+    lines.push('# Peer updates');
+    if (dependencies.length > 0) {
+      lines.push(installCommand(plan.packageManager, dependencies.map(quoteSpec)));
+    }
+    if (devDependencies.length > 0) {
+      lines.push(
+        installCommand(plan.packageManager, devDependencies.map(quoteSpec), { dev: true })
+      );
+    }
+    lines.push('');
+  }
+
+  const optional = hop.schematics.filter(schematic => schematic.optional);
+  if (optional.length > 0) {
+    lines.push('# Optional migrations, run them once the hop builds:');
+    optional.forEach(schematic => {
+      lines.push(
+        `# ${execCommand(plan.packageManager, schematic.command)}    # ${schematic.description}`
+      );
+    });
+    lines.push('');
+  }
+
+  lines.push(
+    '# Build',
+    runScriptCommand(plan.packageManager, 'build'),
+    '',
+    'echo ""',
+    `echo "=== Angular ${hop.toVersion} done, test and commit before the next hop ==="`,
+    ''
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Packages `ng update @angular/core @angular/cli` and `ng update @angular/material` already move,
+ * the 0.x devkit packages included. `@angular/fire` and the like are installed as resolved.
+ */
+function isMovedByNgUpdate(packageName: string): boolean {
+  return (
+    isFrameworkPackage(packageName) ||
+    packageName.startsWith('@angular-devkit/') ||
+    MATERIAL_PACKAGES.includes(packageName)
+  );
+}
+
+function quoteSpec(change: { package: string; to: string }): string {
+  return `"${change.package}@${change.to}"`;
+}
+
+function escapeShell(text: string): string {
+  return text.replace(/["$`\\]/g, '\\$&');
+}
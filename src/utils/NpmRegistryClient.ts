@@ -1,12 +1,28 @@
+import * as fs from 'fs';
 import http from 'http';
 import https from 'https';
+import * as path from 'path';
+import * as tls from 'tls';
 import * as zlib from 'zlib';
 
 import pLimit from 'p-limit';
 
-import type { AnalyzerConfig } from '../types/index.js';
-import { NetworkError, ParseError } from '../types/index.js';
-import { CacheManager } from './CacheManager.js';
+import type { AnalyzerConfig, RegistryLookupStats } from '../types/index.js';
+import { FixtureMissingError, NetworkError, ParseError } from '../types/index.js';
+
+import type { CacheRecord } from './cache/CacheBackend.js';
+import { createCacheStore, type CacheStats, type CacheStore } from './cache/CacheStore.js';
+import { getFixtureMode, recordResponse, replayResponse } from './HttpFixtures.js';
+import { JsonStreamParser, type JsonPath } from './JsonStreamParser.js';
+import {
+  authorizationForRegistry,
+  DEFAULT_REGISTRY,
+  loadNpmrc,
+  registryForPackage,
+  type NpmrcConfig,
+} from './Npmrc.js';
+import { openTunnel, parseNoProxy, proxyAuthorization, shouldBypassProxy } from './ProxyTunnel.js';
+import { parseRetryAfter, withRetry } from './RetryPolicy.js';
 
 export interface NpmPackageInfo {
   name: string;
@@ -17,7 +33,9 @@ export interface NpmPackageInfo {
     rc?: string;
     [key: string]: string | undefined;
   };
-  time: Record<string, string>;
+  // Absent des packuments abrégés, demander { full: true } pour l'obtenir
+  time?: Record<string, string>;
+  modified?: string;
 }
 
 export interface NpmVersionInfo {
@@ -32,7 +50,12 @@ export interface NpmVersionInfo {
   repository?: any;
   deprecated?: string;
   license?: string;
-  dist: {
+  // Absent des packuments abrégés : paquets que ng update met à jour ensemble
+  'ng-update'?: {
+    migrations?: string;
+    packageGroup?: string[] | Record<string, string>;
+  };
+  dist?: {
     tarball: string;
     shasum: string;
     integrity?: string;
@@ -40,28 +63,104 @@ export interface NpmVersionInfo {
   };
 }
 
+export interface PackageInfoOptions {
+  // Packument complet (time, description...) au lieu du format abrégé d'installation
+  full?: boolean;
+}
+
+// Champs conservés dans le cache, ce sont les seuls que lisent les analyseurs
+const PACKUMENT_FIELDS = new Set(['name', 'dist-tags', 'versions', 'modified']);
+const VERSION_FIELDS = new Set([
+  'name',
+  'version',
+  'dependencies',
+  'optionalDependencies',
+  'peerDependencies',
+  'peerDependenciesMeta',
+  'engines',
+  'deprecated',
+  'ng-update',
+]);
+const HEAVY_FIELDS = new Set(['readme', 'readmeFilename', 'users']);
+
+// Validateurs HTTP conservés avec un packument pour le revalider une fois expiré
+interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+// Réponse du registry, `data` vaut null sur un 304 (l'entrée en cache reste valable)
+interface RegistryResponse extends CacheValidators {
+  data: NpmPackageInfo | null;
+}
+
+const PACKUMENT_NAMESPACE = 'packuments';
+
+const ABBREVIATED_ACCEPT = 'application/vnd.npm.install-v1+json; q=1.0, application/json; q=0.8, */*';
+
+function keepPackumentField(path: JsonPath, full: boolean): boolean {
+  if (path.length === 1) {
+    return PACKUMENT_FIELDS.has(path[0]) || (full && !HEAVY_FIELDS.has(path[0]));
+  }
+  if (path[0] === 'versions' && path.length === 3) {
+    return VERSION_FIELDS.has(path[2]);
+  }
+  return true;
+}
+
 export class NpmRegistryClient {
-  private cacheManager: CacheManager;
+  private cache: CacheStore;
   private readonly config: AnalyzerConfig;
   private connectionTested = false;
   private isOnline = true;
   private registryType: 'npm' | 'artifactory' | 'unknown' = 'unknown';
   private projectRoot: string;
-
-  constructor(config: AnalyzerConfig, projectRoot: string = process.cwd()) {
+  private npmrc: NpmrcConfig;
+  private readonly defaultRegistry: string;
+  private readonly strictSSL: boolean;
+  private readonly ca?: string[];
+  // Packages définitivement introuvables après toutes les tentatives, avec la raison
+  private failedLookups = new Map<string, string>();
+  private retryCount = 0;
+  private revalidatedCount = 0;
+  private staleCount = 0;
+
+  constructor(config: AnalyzerConfig, projectRoot: string = process.cwd(), cache?: CacheStore) {
     this.config = config;
     this.projectRoot = projectRoot;
-    this.cacheManager = new CacheManager(config, projectRoot);
+    this.cache = cache || createCacheStore(config.cache, projectRoot);
+    this.npmrc = loadNpmrc(projectRoot);
+    this.defaultRegistry = this.resolveDefaultRegistry();
+    this.strictSSL = config.network.strictSSL !== false && this.npmrc['strict-ssl'] !== 'false';
+    this.ca = this.loadCertificateAuthorities();
     this.detectRegistryType();
 
     if (config.analysis.offlineMode) {
       this.isOnline = false;
-      console.log('🔌 Mode hors ligne activé - utilisation du cache local');
+      // Sur stderr : la sortie standard peut porter un rapport JSON
+      console.warn('🔌 Mode hors ligne activé - utilisation du cache local');
     }
   }
 
+  /**
+   * Registry par défaut : celui de la configuration s'il a été personnalisé,
+   * sinon `registry` du .npmrc, sinon le registry public
+   */
+  private resolveDefaultRegistry(): string {
+    const configured = this.config.registry.replace(/\/?$/, '/');
+    if (configured !== DEFAULT_REGISTRY) return configured;
+    return registryForPackage(this.npmrc, '', DEFAULT_REGISTRY);
+  }
+
+  /**
+   * Registry d'un package, en tenant compte des `@scope:registry` du .npmrc
+   */
+  getRegistryFor(packageName: string): string {
+    return registryForPackage(this.npmrc, packageName, this.defaultRegistry);
+  }
+
   private detectRegistryType(): void {
-    const url = this.config.registry.toLowerCase();
+    const url = this.defaultRegistry.toLowerCase();
     if (url.includes('registry.npmjs.org')) {
       this.registryType = 'npm';
     } else if (url.includes('artifactory') || url.includes('jfrog')) {
@@ -69,6 +168,64 @@ export class NpmRegistryClient {
     }
   }
 
+  /**
+   * Autorités de certification supplémentaires (network.cafile, cafile ou ca du .npmrc),
+   * ajoutées aux autorités de Node pour les proxys d'entreprise qui déchiffrent le TLS
+   */
+  private loadCertificateAuthorities(): string[] | undefined {
+    const custom: string[] = [];
+    const cafile = this.config.network.cafile || this.npmrc.cafile;
+
+    if (cafile) {
+      try {
+        custom.push(fs.readFileSync(path.resolve(this.projectRoot, cafile), 'utf8'));
+      } catch (error) {
+        console.warn(`⚠️  Impossible de lire le fichier CA ${cafile}: ${(error as Error).message}`);
+      }
+    }
+    if (this.npmrc.ca) {
+      custom.push(...this.npmrc.ca.split('\n').map(cert => cert.replace(/\\n/g, '\n')));
+    }
+
+    return custom.length > 0 ? [...tls.rootCertificates, ...custom] : undefined;
+  }
+
+  /**
+   * Proxy à utiliser pour une URL : network.proxy, puis https-proxy/proxy du .npmrc,
+   * puis HTTPS_PROXY/HTTP_PROXY. Les hôtes de bypassList, noproxy et NO_PROXY sont joints
+   * directement.
+   */
+  private getProxy(target: URL): URL | null {
+    const isHttps = target.protocol === 'https:';
+    const port = Number(target.port) || (isHttps ? 443 : 80);
+    const proxyConfig = this.config.network.proxy;
+
+    const noProxy = [
+      ...(proxyConfig?.bypassList || []),
+      ...parseNoProxy(this.npmrc.noproxy),
+      ...parseNoProxy(process.env.NO_PROXY || process.env.no_proxy),
+    ];
+    if (shouldBypassProxy(target.hostname, port, noProxy)) return null;
+
+    if (proxyConfig?.enabled && proxyConfig.host) {
+      const proxyPort = proxyConfig.port || (proxyConfig.protocol === 'https' ? 443 : 80);
+      return new URL(`${proxyConfig.protocol}://${proxyConfig.host}:${proxyPort}`);
+    }
+
+    const httpProxy = this.npmrc.proxy || process.env.HTTP_PROXY || process.env.http_proxy;
+    const candidate = isHttps
+      ? this.npmrc['https-proxy'] || process.env.HTTPS_PROXY || process.env.https_proxy || httpProxy
+      : httpProxy;
+    if (!candidate) return null;
+
+    try {
+      return new URL(candidate.includes('://') ? candidate : `http://${candidate}`);
+    } catch {
+      console.warn(`⚠️  URL de proxy invalide ignorée: ${candidate}`);
+      return null;
+    }
+  }
+
   async testConnection(): Promise<boolean> {
     if (this.connectionTested) return this.isOnline;
     this.connectionTested = true;
@@ -77,12 +234,12 @@ export class NpmRegistryClient {
     const testPackage = 'express'; // Package très stable pour tester
 
     try {
-      await this.makeRequest(testPackage);
+      await this.requestWithRetry(testPackage);
       this.isOnline = true;
       const duration = Date.now() - startTime;
       
       console.log(`✅ Connexion au registry ${this.registryType} réussie (${duration}ms)`);
-      console.log(`   Registry: ${this.config.registry}`);
+      console.log(`   Registry: ${this.defaultRegistry}`);
       
       return true;
     } catch (error) {
@@ -91,7 +248,7 @@ export class NpmRegistryClient {
       
       console.error('\n❌ ERREUR DE CONNEXION AU REGISTRY\n');
       console.error(`Type de registry: ${this.registryType}`);
-      console.error(`URL: ${this.config.registry}`);
+      console.error(`URL: ${this.defaultRegistry}`);
       console.error(`Durée avant échec: ${duration}ms`);
       console.error(`Message d'erreur: ${(error as any).message}`);
 
@@ -110,11 +267,19 @@ export class NpmRegistryClient {
         console.error('   SOLUTIONS:');
         console.error('   1. Vérifiez les paramètres de pare-feu');
         console.error('   2. Vérifiez les paramètres proxy:');
+        console.error(`      Proxy utilisé: ${this.getProxy(new URL(this.defaultRegistry))?.host || 'aucun'}`);
         console.error(`      HTTP_PROXY=${process.env.HTTP_PROXY || 'non défini'}`);
         console.error(`      HTTPS_PROXY=${process.env.HTTPS_PROXY || 'non défini'}`);
+        console.error(`      NO_PROXY=${process.env.NO_PROXY || 'non défini'}`);
         if (this.registryType === 'artifactory') {
           console.error('   3. Vérifiez les ports Artifactory (généralement 8081 ou 8082)');
         }
+      } else if (/CERT|SELF_SIGNED|UNABLE_TO_VERIFY/.test(String(error.code))) {
+        console.error('\n🔒 PROBLÈME: Certificat TLS non reconnu');
+        console.error('   SOLUTIONS:');
+        console.error('   1. Ajoutez le certificat de votre proxy: cafile=/chemin/ca.pem dans .npmrc');
+        console.error('   2. Ou définissez NODE_EXTRA_CA_CERTS=/chemin/ca.pem');
+        console.error('   3. En dernier recours: strict-ssl=false dans .npmrc');
       } else if ((error as any).statusCode === 401) {
         console.error('\n🔐 PROBLÈME: Authentification requise');
         console.error('   SOLUTIONS:');
@@ -133,44 +298,85 @@ export class NpmRegistryClient {
       }
 
       console.error('\n💡 CONSEIL: Pour continuer l\'analyse sans connexion, utilisez:');
-      console.error('   ama analyze --offline\n');
+      console.error('   ngma scan --offline\n');
 
       return false;
     }
   }
 
-  async getPackageInfo(packageName: string): Promise<NpmPackageInfo | null> {
-    // Vérifier le cache d'abord
-    const cached = this.cacheManager.get(packageName);
-    if (cached) {
-      return cached;
-    }
+  async getPackageInfo(
+    packageName: string,
+    options: PackageInfoOptions = {}
+  ): Promise<NpmPackageInfo | null> {
+    const full = options.full === true;
+    // En record/replay, ni cache ni test de connexion : l'analyse doit être reproductible
+    const fixtureMode = getFixtureMode();
 
-    // En mode offline, on ne peut que retourner les données cachées
-    if (!this.isOnline) {
-      return null;
+    // Vérifier le cache d'abord
+    // Une entrée abrégée ne suffit pas quand le packument complet est demandé
+    const entry = fixtureMode ? null : this.getCachedEntry(packageName);
+    const usable = entry && (!full || entry.value.time) ? entry : null;
+    if (usable && !this.cache.isExpired(usable)) {
+      return usable.value;
     }
 
-    if (!this.connectionTested) {
-      await this.testConnection();
+    if (fixtureMode !== 'replay') {
+      // En mode offline, on ne peut que retourner les données cachées, même expirées ou abrégées
       if (!this.isOnline) {
-        // Si la connexion échoue, essayer le cache même s'il est expiré
-        const cachedOffline = this.cacheManager.get(packageName);
-        if (cachedOffline) {
-          console.log(`📦 Utilisation du cache expiré pour ${packageName} (mode offline)`);
-          return cachedOffline;
+        if (entry) {
+          this.staleCount++;
+          return entry.value;
         }
+        this.failedLookups.set(packageName, 'absent du cache (mode hors ligne)');
         return null;
       }
+
+      if (!this.connectionTested) {
+        await this.testConnection();
+        if (!this.isOnline) {
+          // Si la connexion échoue, essayer le cache même s'il est expiré
+          const cachedOffline = entry?.value;
+          if (cachedOffline) {
+            console.log(`📦 Utilisation du cache expiré pour ${packageName} (mode offline)`);
+            this.staleCount++;
+            return cachedOffline;
+          }
+          return null;
+        }
+      }
     }
 
     try {
-      const data = await this.makeRequest(packageName);
-      this.cacheManager.set(packageName, data);
-      return data;
+      // Entrée expirée : requête conditionnelle, un 304 renouvelle simplement l'entrée
+      const response = await this.fetchPackument(packageName, full, usable?.meta);
+      if (!response.data && usable) {
+        this.cache.touch(PACKUMENT_NAMESPACE, packageName, {
+          etag: response.etag,
+          lastModified: response.lastModified,
+        });
+        this.revalidatedCount++;
+        return usable.value;
+      }
+      if (!response.data) {
+        throw new NetworkError(`Réponse 304 inattendue pour ${packageName}`, 304);
+      }
+      if (!fixtureMode) {
+        this.cache.set(PACKUMENT_NAMESPACE, packageName, response.data, {
+          meta: {
+            registry: this.getRegistryFor(packageName),
+            etag: response.etag,
+            lastModified: response.lastModified,
+          },
+        });
+      }
+      return response.data;
     } catch (error) {
-      if ((error as any).statusCode === 404) {
-        console.warn(`⚠️  Package '${packageName}' introuvable sur ${this.registryType}`);
+      // Une fixture manquante doit interrompre l'analyse, pas passer pour un package introuvable
+      if (error instanceof FixtureMissingError) throw error;
+
+      this.failedLookups.set(packageName, error.message);
+      if ((error as any).code === 404) {
+        console.warn(`⚠️  Package '${packageName}' introuvable sur ${this.getRegistryFor(packageName)}`);
       } else {
         console.error(`❌ Erreur lors de la récupération de '${packageName}': ${(error as any).message}`);
       }
@@ -178,14 +384,17 @@ export class NpmRegistryClient {
     }
   }
 
-  async getBulkPackageInfo(packageNames: string[]): Promise<Record<string, NpmPackageInfo>> {
+  async getBulkPackageInfo(
+    packageNames: string[],
+    options: PackageInfoOptions = {}
+  ): Promise<Record<string, NpmPackageInfo>> {
     const limit = pLimit(this.config.maxConcurrentRequests);
     const results: Record<string, NpmPackageInfo> = {};
 
     await Promise.all(
       packageNames.map(name =>
         limit(async () => {
-          const info = await this.getPackageInfo(name);
+          const info = await this.getPackageInfo(name, options);
           if (info) results[name] = info;
         })
       )
@@ -206,30 +415,147 @@ export class NpmRegistryClient {
     };
   }
 
-  private async makeRequest(packageName: string): Promise<NpmPackageInfo> {
-    const url = `${this.config.registry}/${encodeURIComponent(packageName)}`;
+  // Même encodage que npm : seul le `/` des packages scopés est échappé
+  private getPackageUrl(packageName: string): string {
+    return `${this.getRegistryFor(packageName)}${packageName.replace('/', '%2f')}`;
+  }
+
+  /**
+   * Packument lu dans les fixtures en replay, demandé au registry sinon (et enregistré en record)
+   */
+  private async fetchPackument(
+    packageName: string,
+    full: boolean,
+    validators?: CacheValidators
+  ): Promise<RegistryResponse> {
+    // Le fragment distingue les deux formats dans les fixtures sans changer la requête
+    const url = full ? `${this.getPackageUrl(packageName)}#full` : this.getPackageUrl(packageName);
+
+    if (getFixtureMode() === 'replay') {
+      const recorded = replayResponse(url);
+      if (recorded.error) {
+        throw new NetworkError(recorded.error.message, recorded.error.code);
+      }
+      return { data: recorded.body as NpmPackageInfo };
+    }
+
+    try {
+      const response = await this.requestWithRetry(packageName, full, validators);
+      recordResponse({ url, status: 200, encoding: 'json', body: response.data });
+      return response;
+    } catch (error) {
+      recordResponse({
+        url,
+        status: typeof error.code === 'number' ? error.code : 0,
+        error: { message: error.message, code: error.code },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Requête avec nouvelles tentatives sur 408/429/5xx et coupures réseau,
+   * backoff exponentiel avec jitter, Retry-After respecté, dans la limite de network.maxRetryTime
+   */
+  private requestWithRetry(
+    packageName: string,
+    full = false,
+    validators?: CacheValidators
+  ): Promise<RegistryResponse> {
+    return withRetry(() => this.makeRequest(packageName, full, validators), {
+      retries: this.config.retries,
+      maxRetryTime: this.config.network.maxRetryTime ?? 60000,
+      onRetry: (error, attempt, delay) => {
+        this.retryCount++;
+        console.warn(
+          `🔁 ${packageName}: ${error.message}, nouvelle tentative ${attempt}/${this.config.retries} dans ${delay}ms`
+        );
+      },
+    });
+  }
+
+  private async makeRequest(
+    packageName: string,
+    full: boolean,
+    validators?: CacheValidators
+  ): Promise<RegistryResponse> {
+    const registry = this.getRegistryFor(packageName);
+    const url = this.getPackageUrl(packageName);
     const urlParts = new URL(url);
+    const authorization = authorizationForRegistry(this.npmrc, registry, this.defaultRegistry);
     const isHttps = urlParts.protocol === 'https:';
+    const port = Number(urlParts.port) || (isHttps ? 443 : 80);
+    const proxy = this.getProxy(urlParts);
+
+    const options: https.RequestOptions = {
+      hostname: urlParts.hostname,
+      port,
+      path: urlParts.pathname + urlParts.search,
+      method: 'GET',
+      headers: {
+        'Accept': full ? 'application/json' : ABBREVIATED_ACCEPT,
+        'Accept-Encoding': 'gzip, deflate',
+        'User-Agent': 'angular-migration-analyzer/1.0.0',
+        ...(authorization ? { Authorization: authorization } : {}),
+        ...(validators?.etag ? { 'If-None-Match': validators.etag } : {}),
+        ...(validators?.lastModified ? { 'If-Modified-Since': validators.lastModified } : {}),
+      },
+      timeout: this.config.timeout,
+      rejectUnauthorized: this.strictSSL,
+      ca: this.ca,
+    };
+    let httpModule: typeof http | typeof https = isHttps ? https : http;
 
-    return new Promise((resolve, reject) => {
-      const options = {
-        hostname: urlParts.hostname,
-        port: urlParts.port || (isHttps ? 443 : 80),
-        path: urlParts.pathname + urlParts.search,
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'Accept-Encoding': 'gzip, deflate',
-          'User-Agent': 'angular-migration-analyzer/1.0.0',
-        },
+    if (proxy && isHttps) {
+      // Cible https : tunnel CONNECT puis TLS de bout en bout avec le registry
+      const socket = await openTunnel(proxy, urlParts.hostname, port, {
         timeout: this.config.timeout,
+        rejectUnauthorized: this.strictSSL,
+        ca: this.ca,
+      });
+      options.createConnection = () =>
+        tls.connect({
+          socket,
+          servername: urlParts.hostname,
+          rejectUnauthorized: this.strictSSL,
+          ca: this.ca,
+        });
+    } else if (proxy) {
+      // Cible http : la requête est envoyée au proxy avec l'URL absolue
+      const proxyAuth = proxyAuthorization(proxy);
+      options.hostname = proxy.hostname;
+      options.port = Number(proxy.port) || (proxy.protocol === 'https:' ? 443 : 80);
+      options.path = url;
+      options.headers = {
+        ...options.headers,
+        Host: urlParts.host,
+        ...(proxyAuth ? { 'Proxy-Authorization': proxyAuth } : {}),
       };
+      httpModule = proxy.protocol === 'https:' ? https : http;
+    }
 
-      const httpModule = isHttps ? https : http;
-      
+    return new Promise((resolve, reject) => {
       const req = httpModule.request(options, (res) => {
-        let data = '';
-        const chunks: Buffer[] = [];
+        const etag = res.headers.etag;
+        const lastModified = res.headers['last-modified'];
+
+        if (res.statusCode === 304) {
+          res.resume();
+          resolve({ data: null, etag, lastModified });
+          return;
+        }
+
+        if (res.statusCode !== 200) {
+          res.resume();
+          reject(
+            new NetworkError(
+              `Registry ${this.registryType} a retourné le code ${res.statusCode}`,
+              res.statusCode || 0,
+              parseRetryAfter(res.headers['retry-after'])
+            )
+          );
+          return;
+        }
 
         // Handle different response encodings
         let stream: NodeJS.ReadableStream = res;
@@ -241,24 +567,31 @@ export class NpmRegistryClient {
           stream = res.pipe(zlib.createInflate());
         }
 
-        stream.on('data', (chunk) => chunks.push(chunk));
+        // Analyse au fil de l'eau : seuls les champs utiles du packument sont construits
+        const parser = new JsonStreamParser(path => keepPackumentField(path, full));
+        let failed = false;
+        const fail = (): void => {
+          failed = true;
+          req.destroy();
+          reject(new ParseError(`Réponse invalide du registry pour ${packageName}`));
+        };
+
+        stream.on('data', (chunk) => {
+          if (failed) return;
+          try {
+            parser.write(chunk);
+          } catch {
+            fail();
+          }
+        });
+        stream.on('error', fail);
         
         stream.on('end', () => {
-          data = Buffer.concat(chunks).toString();
-          
-          if (res.statusCode === 200) {
-            try {
-              const parsed = JSON.parse(data);
-              resolve(parsed);
-            } catch (error) {
-              reject(new ParseError(`Réponse invalide du registry pour ${packageName}`));
-            }
-          } else {
-            const error = new NetworkError(
-              `Registry ${this.registryType} a retourné le code ${res.statusCode}`,
-              res.statusCode || 0
-            );
-            reject(error);
+          if (failed) return;
+          try {
+            resolve({ data: parser.end() as NpmPackageInfo, etag, lastModified });
+          } catch {
+            fail();
           }
         });
       });
@@ -276,18 +609,41 @@ export class NpmRegistryClient {
     });
   }
 
-  // Sauvegarder le cache à la fin de l'analyse
-  async saveCache(): Promise<void> {
-    this.cacheManager.saveToDisk();
-  }
+  // Les écritures du cache sont immédiates, conservé pour compatibilité
+  async saveCache(): Promise<void> {}
 
-  // Nettoyer le cache
+  // Nettoyer le cache des packuments
   clearCache(): void {
-    this.cacheManager.clear();
+    this.cache.clear(PACKUMENT_NAMESPACE);
+  }
+
+  // Recherches en échec définitif, pour signaler les trous dans le rapport
+  getLookupStats(): RegistryLookupStats {
+    return {
+      failedLookups: this.failedLookups.size,
+      failedPackages: [...this.failedLookups].map(([name, reason]) => ({ package: name, reason })),
+      retries: this.retryCount,
+      revalidated: this.revalidatedCount,
+      stale: this.staleCount,
+    };
+  }
+
+  // Faux en mode hors ligne ou si le test de connexion a échoué
+  isNetworkAccessible(): boolean {
+    return this.isOnline;
   }
 
   // Obtenir les statistiques du cache
-  getCacheStats(): { size: number; oldestEntry: Date | null; newestEntry: Date | null } {
-    return this.cacheManager.getStats();
+  getCacheStats(): CacheStats {
+    return this.cache.stats();
+  }
+
+  /**
+   * Entrée du cache pour un package, ignorée si elle provient d'un autre registry
+   */
+  private getCachedEntry(packageName: string): CacheRecord<NpmPackageInfo> | null {
+    const entry = this.cache.getRecord<NpmPackageInfo>(PACKUMENT_NAMESPACE, packageName);
+    if (!entry || entry.meta?.registry !== this.getRegistryFor(packageName)) return null;
+    return entry;
   }
 }
\ No newline at end of file
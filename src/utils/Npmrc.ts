@@ -0,0 +1,133 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export type NpmrcConfig = Record<string, string>;
+
+export const DEFAULT_REGISTRY = 'https://registry.npmjs.org/';
+
+/**
+ * Remplace les références `${VAR}` par les variables d'environnement, comme npm.
+ * `\${VAR}` est conservé tel quel, une variable absente laisse la référence intacte.
+ */
+export function expandEnv(value: string, env: NodeJS.ProcessEnv = process.env): string {
+  return value.replace(/(\\*)\$\{([^}]+)\}/g, (match, escapes: string, name: string) => {
+    if (escapes.length % 2 === 1) return match.slice(1);
+    const resolved = env[name];
+    return resolved === undefined ? match : `${escapes}${resolved}`;
+  });
+}
+
+/**
+ * Analyse un fichier .npmrc (format ini sans sections).
+ * Les clés de tableau (`ca[]=...`) sont concaténées avec des retours à la ligne,
+ * les références `${VAR}` des clés et des valeurs sont développées.
+ */
+export function parseNpmrc(content: string): NpmrcConfig {
+  const config: NpmrcConfig = {};
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) continue;
+
+    const separator = line.indexOf('=');
+    if (separator < 0) continue;
+
+    let key = expandEnv(line.slice(0, separator).trim());
+    let value = line.slice(separator + 1).trim();
+    if (/^(["']).*\1$/.test(value)) value = value.slice(1, -1);
+    value = expandEnv(value);
+
+    if (key.endsWith('[]')) {
+      key = key.slice(0, -2);
+      config[key] = config[key] ? `${config[key]}\n${value}` : value;
+    } else {
+      config[key] = value;
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Charge la configuration npm de l'utilisateur puis celle du projet (le projet l'emporte)
+ */
+export function loadNpmrc(projectRoot: string): NpmrcConfig {
+  const userConfig = process.env.NPM_CONFIG_USERCONFIG || path.join(os.homedir(), '.npmrc');
+  const files = [userConfig, path.join(projectRoot, '.npmrc')];
+
+  const config: NpmrcConfig = {};
+  for (const file of files) {
+    try {
+      Object.assign(config, parseNpmrc(fs.readFileSync(file, 'utf8')));
+    } catch {
+      // Fichier absent ou illisible : npm l'ignore aussi
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Forme « nerf dart » d'une URL de registry (`//host/chemin/`), utilisée comme préfixe
+ * des clés d'authentification du .npmrc
+ */
+export function toNerfDart(registryUrl: string): string {
+  const url = new URL(registryUrl);
+  const pathname = url.pathname.endsWith('/') ? url.pathname : `${url.pathname}/`;
+  return `//${url.host}${pathname}`;
+}
+
+/**
+ * Registry d'un package : `@scope:registry`, puis `registry`, puis le registry par défaut
+ * @returns URL terminée par `/`
+ */
+export function registryForPackage(
+  config: NpmrcConfig,
+  packageName: string,
+  defaultRegistry: string = DEFAULT_REGISTRY
+): string {
+  const scope = packageName.startsWith('@') ? packageName.split('/')[0] : null;
+  const registry = (scope && config[`${scope}:registry`]) || config.registry || defaultRegistry;
+  return registry.endsWith('/') ? registry : `${registry}/`;
+}
+
+/**
+ * En-tête Authorization pour un registry.
+ * Les clés `//host/chemin/:_authToken`, `:_auth` et `:username`/`:_password` sont cherchées du
+ * chemin le plus long au plus court. Les identifiants globaux (`_authToken`, `_auth`) ne sont
+ * envoyés qu'au registry par défaut, ou à tous les registries avec `always-auth=true`.
+ */
+export function authorizationForRegistry(
+  config: NpmrcConfig,
+  registryUrl: string,
+  defaultRegistry: string = config.registry || DEFAULT_REGISTRY
+): string | undefined {
+  let nerfDart = toNerfDart(registryUrl);
+
+  while (nerfDart.length > 2) {
+    const token = config[`${nerfDart}:_authToken`];
+    if (token) return `Bearer ${token}`;
+
+    const auth = config[`${nerfDart}:_auth`];
+    if (auth) return `Basic ${auth}`;
+
+    const username = config[`${nerfDart}:username`];
+    const password = config[`${nerfDart}:_password`];
+    if (username && password) {
+      const decoded = Buffer.from(password, 'base64').toString('utf8');
+      return `Basic ${Buffer.from(`${username}:${decoded}`).toString('base64')}`;
+    }
+
+    // Remonter d'un segment : //host/a/b/ -> //host/a/
+    nerfDart = nerfDart.replace(/[^/]+\/$/, '');
+    if (nerfDart.endsWith('//')) break;
+  }
+
+  const isDefault = toNerfDart(registryUrl) === toNerfDart(defaultRegistry);
+  if (!isDefault && config['always-auth'] !== 'true') return undefined;
+
+  if (config._authToken) return `Bearer ${config._authToken}`;
+  if (config._auth) return `Basic ${config._auth}`;
+  return undefined;
+}
@@ -0,0 +1,32 @@
+import type { PackageManager } from '../types/index.js';
+
+/**
+ * Command that installs the given `name@version` specs, saved as devDependencies when `dev` is set
+ */
+export function installCommand(
+  packageManager: PackageManager,
+  specs: string[],
+  options: { dev?: boolean } = {}
+): string {
+  const install = packageManager === 'npm' ? 'npm install' : `${packageManager} add`;
+  const dev = options.dev ? (packageManager === 'yarn' ? ' --dev' : ' --save-dev') : '';
+  return `${install}${dev} ${specs.join(' ')}`;
+}
+
+/**
+ * Command that runs a binary of the project's node_modules, e.g. `ng update`
+ */
+export function execCommand(packageManager: PackageManager, command: string): string {
+  switch (packageManager) {
+    case 'pnpm':
+      return `pnpm exec ${command}`;
+    case 'yarn':
+      return `yarn ${command}`;
+    default:
+      return `npx ${command}`;
+  }
+}
+
+export function runScriptCommand(packageManager: PackageManager, script: string): string {
+  return `${packageManager} run ${script}`;
+}
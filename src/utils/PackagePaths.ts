@@ -0,0 +1,11 @@
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+// Racine du package (src/utils ou dist/utils → ../..), où sont livrées les données de ngma
+export const PACKAGE_ROOT = join(dirname(fileURLToPath(import.meta.url)), '../..');
+
+// Un fichier JSON par version majeure cible : 13.json décrit la migration 12 → 13
+export const BREAKING_CHANGES_DATA_DIR = join(PACKAGE_ROOT, 'data', 'breaking-changes');
+
+// Base de compatibilité des paquets tiers, complétée par les fichiers de l'organisation et du projet
+export const COMPATIBILITY_DATA_FILE = join(PACKAGE_ROOT, 'data', 'compatibility', 'packages.json');
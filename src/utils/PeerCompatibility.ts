@@ -0,0 +1,103 @@
+import * as semver from 'semver';
+
+import { ValidationError } from '../types/index.js';
+
+import type { NpmPackageInfo, NpmVersionInfo } from './NpmRegistryClient.js';
+
+/**
+ * Checks a peer range against a concrete version. A prerelease target is also checked as
+ * its release so that `^18.0.0` accepts an `18.0.0-rc.1` target.
+ */
+export function acceptsVersion(range: string | undefined, version: string): boolean {
+  if (!range) return false;
+
+  try {
+    if (semver.satisfies(version, range, { includePrerelease: true })) return true;
+
+    const release = semver.prerelease(version) ? semver.coerce(version)?.version : null;
+    return !!release && semver.satisfies(release, range, { includePrerelease: true });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks a peer range against a migration target. An exact version must be accepted as is; a
+ * major alone only needs one release of that major in the range, so `>=18.1.0` targets 18.
+ */
+export function acceptsTarget(range: string | undefined, target: string): boolean {
+  if (semver.valid(target)) return acceptsVersion(range, target);
+  if (!range || !/^\d+$/.test(target) || !semver.validRange(range)) return false;
+
+  return semver.intersects(range, `^${target}.0.0`, { includePrerelease: true });
+}
+
+/**
+ * Published versions sorted in ascending order, stable releases only unless asked otherwise.
+ */
+export function sortedVersions(
+  packageInfo: NpmPackageInfo,
+  options: { includePrerelease?: boolean } = {}
+): NpmVersionInfo[] {
+  return Object.values(packageInfo.versions || {})
+    .filter(info => semver.valid(info.version))
+    .filter(info => options.includePrerelease || !semver.prerelease(info.version))
+    .sort((a, b) => semver.compare(a.version, b.version));
+}
+
+/**
+ * Lowest published version whose peer range for `peerName` accepts `peerVersion`, an exact
+ * version or a major (see acceptsTarget).
+ * Deprecated versions are skipped and, when `after` is given, only newer versions are considered.
+ */
+export function findLowestCompatibleVersion(
+  packageInfo: NpmPackageInfo,
+  peerName: string,
+  peerVersion: string,
+  after?: string
+): NpmVersionInfo | null {
+  for (const info of sortedVersions(packageInfo)) {
+    if (after && semver.valid(after) && !semver.gt(info.version, after)) continue;
+    if (info.deprecated) continue;
+    if (acceptsTarget(info.peerDependencies?.[peerName], peerVersion)) return info;
+  }
+  return null;
+}
+
+/**
+ * Resolves a migration target given as a major (`19`), an exact version (`20.0.0-rc.1`) or a
+ * dist-tag of the package (`next`, `latest`). Majors are returned as is; exact versions and
+ * tags are checked against the packument when it is available.
+ */
+export function resolveTargetVersion(spec: string, packageInfo: NpmPackageInfo | null): string {
+  const target = spec.trim();
+  // "v19" and "v20.0.0-rc.1" are accepted, but "v18-lts" is a dist-tag
+  const version = target.replace(/^v(?=\d)/, '');
+
+  if (/^\d+$/.test(version)) return version;
+
+  if (semver.valid(version)) {
+    if (packageInfo && !packageInfo.versions?.[version]) {
+      throw new ValidationError(`${packageInfo.name}@${version} is not published`);
+    }
+    return version;
+  }
+
+  if (/^[a-z][\w.-]*$/i.test(target)) {
+    if (!packageInfo) {
+      throw new ValidationError(`Cannot resolve the "${target}" dist-tag without registry access`);
+    }
+    const tagged = packageInfo['dist-tags']?.[target];
+    if (!tagged) {
+      const tags = Object.keys(packageInfo['dist-tags'] || {}).join(', ');
+      throw new ValidationError(
+        `${packageInfo.name} has no "${target}" dist-tag (available: ${tags})`
+      );
+    }
+    return tagged;
+  }
+
+  throw new ValidationError(
+    `Invalid target version "${spec}", expected a major, an exact version or a dist-tag`
+  );
+}
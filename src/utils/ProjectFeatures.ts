@@ -0,0 +1,177 @@
+import { existsSync, readFileSync, readdirSync, type Dirent } from 'fs';
+import { extname, join, relative } from 'path';
+
+import type {
+  ApplicationComplexity,
+  BreakingChange,
+  ProjectFeature,
+  ProjectFeatures,
+} from '../types/index.js';
+
+export const PROJECT_FEATURES: ProjectFeature[] = ['material', 'ssr', 'i18n', 'ngUpgrade'];
+
+// Paquets dont la présence suffit à supposer l'option du guide de mise à jour
+const FEATURE_PACKAGES: Record<ProjectFeature, string[]> = {
+  material: ['@angular/material', '@angular/cdk'],
+  ssr: ['@angular/ssr', '@angular/platform-server', '@nguniversal/express-engine'],
+  i18n: ['@angular/localize'],
+  ngUpgrade: ['@angular/upgrade', 'angular'],
+};
+
+const SOURCE_MARKERS: Array<{ feature: ProjectFeature; pattern: RegExp }> = [
+  { feature: 'i18n', pattern: /\$localize`|\si18n(?:-[\w-]+)?(?:=|[\s>])/ },
+  { feature: 'ngUpgrade', pattern: /from\s+['"]@angular\/upgrade/ },
+];
+
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'dist', 'coverage', 'e2e']);
+// Au-delà, le nombre de fichiers suffit à classer le projet
+const MAX_SCANNED_FILES = 5000;
+
+interface SourceScan {
+  files: number;
+  markers: Partial<Record<ProjectFeature, string>>;
+}
+
+/**
+ * Déduit les options du guide de mise à jour Angular (Material, SSR, i18n, ngUpgrade) et
+ * la complexité de l'application à partir de package.json, angular.json et des sources.
+ */
+export function detectProjectFeatures(projectPath: string): ProjectFeatures {
+  const features: ProjectFeatures = {
+    material: false,
+    ssr: false,
+    i18n: false,
+    ngUpgrade: false,
+    complexity: 1,
+    evidence: {},
+  };
+  const assume = (feature: ProjectFeature, evidence: string): void => {
+    if (features[feature]) return;
+    features[feature] = true;
+    features.evidence[feature] = evidence;
+  };
+
+  const packageJson = readJson(join(projectPath, 'package.json'));
+  const dependencies = { ...packageJson?.dependencies, ...packageJson?.devDependencies };
+  for (const feature of PROJECT_FEATURES) {
+    const pkg = FEATURE_PACKAGES[feature].find(name => name in dependencies);
+    if (pkg) assume(feature, `package.json: ${pkg}`);
+  }
+
+  const workspace = readJson(join(projectPath, 'angular.json'));
+  const projects = Object.entries<any>(workspace?.projects || {});
+  for (const [name, project] of projects) {
+    if (project.i18n) assume('i18n', `angular.json: ${name}.i18n`);
+
+    for (const [targetName, target] of Object.entries<any>(
+      project.architect || project.targets || {}
+    )) {
+      const options = target?.options || {};
+      if (
+        /server|ssr|prerender/.test(`${targetName} ${target?.builder || ''}`) ||
+        options.ssr ||
+        options.server
+      ) {
+        assume('ssr', `angular.json: ${name}.architect.${targetName}`);
+      }
+    }
+  }
+
+  const roots = projects.map(([, project]) => project.sourceRoot || project.root || 'src');
+  const scan = scanSources(projectPath, roots.length > 0 ? roots : ['src']);
+  for (const feature of PROJECT_FEATURES) {
+    if (scan.markers[feature]) assume(feature, scan.markers[feature]);
+  }
+
+  features.complexity = estimateComplexity(scan.files, projects.length, features.ngUpgrade);
+  features.evidence.complexity =
+    `${scan.files >= MAX_SCANNED_FILES ? `${MAX_SCANNED_FILES}+` : scan.files} source files, ` +
+    `${projects.length} angular.json project(s)`;
+
+  return features;
+}
+
+/**
+ * Une application hybride AngularJS ou un gros monorepo relève du niveau avancé du guide
+ */
+function estimateComplexity(
+  files: number,
+  projects: number,
+  ngUpgrade: boolean
+): ApplicationComplexity {
+  if (ngUpgrade || files >= 500 || projects >= 5) return 3;
+  if (files >= 100 || projects >= 2) return 2;
+  return 1;
+}
+
+/**
+ * Indique si un changement concerne le projet : au moins une de ses options est utilisée
+ * et le projet atteint la complexité à partir de laquelle le guide l'affiche.
+ */
+export function appliesToProject(change: BreakingChange, features: ProjectFeatures): boolean {
+  if (change.features?.length && !change.features.some(feature => features[feature])) {
+    return false;
+  }
+  return !change.complexity || change.complexity <= features.complexity;
+}
+
+/**
+ * Fragment de clé de cache, ex. `l2-material-ssr`
+ */
+export function projectFeaturesKey(features: ProjectFeatures): string {
+  return [`l${features.complexity}`, ...PROJECT_FEATURES.filter(feature => features[feature])].join(
+    '-'
+  );
+}
+
+function scanSources(projectPath: string, roots: string[]): SourceScan {
+  const scan: SourceScan = { files: 0, markers: {} };
+  const visited = new Set<string>();
+
+  const walk = (dir: string): void => {
+    if (scan.files >= MAX_SCANNED_FILES || visited.has(dir)) return;
+    visited.add(dir);
+
+    let entries: Dirent[];
+    try {
+      entries = readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (scan.files >= MAX_SCANNED_FILES) return;
+      const path = join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('.') && !SKIPPED_DIRECTORIES.has(entry.name)) walk(path);
+        continue;
+      }
+      if (!entry.isFile() || !['.ts', '.html'].includes(extname(entry.name))) continue;
+      if (entry.name.endsWith('.d.ts')) continue;
+
+      scan.files++;
+      const pending = SOURCE_MARKERS.filter(marker => !scan.markers[marker.feature]);
+      if (pending.length === 0) continue;
+
+      const content = readFileSync(path, 'utf-8');
+      pending.forEach(marker => {
+        if (marker.pattern.test(content)) {
+          scan.markers[marker.feature] = `source: ${relative(projectPath, path)}`;
+        }
+      });
+    }
+  };
+
+  roots.forEach(root => walk(join(projectPath, root)));
+  return scan;
+}
+
+function readJson(path: string): any {
+  if (!existsSync(path)) return null;
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
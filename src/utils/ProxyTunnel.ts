@@ -0,0 +1,106 @@
+import http from 'http';
+import https from 'https';
+import type * as net from 'net';
+
+import { NetworkError } from '../types/index.js';
+
+export interface TunnelOptions {
+  timeout: number;
+  rejectUnauthorized: boolean;
+  ca?: string[];
+}
+
+/**
+ * Indique si un hôte doit être joint sans proxy, selon la syntaxe de NO_PROXY :
+ * `*`, `example.com` (et ses sous-domaines), `.example.com`, `*.example.com` ou `host:port`
+ */
+export function shouldBypassProxy(hostname: string, port: number, noProxy: string[]): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+
+  return noProxy.some(rawEntry => {
+    const entry = rawEntry.trim().toLowerCase();
+    if (!entry) return false;
+    if (entry === '*') return true;
+
+    const [entryHost, entryPort] = entry.split(/:(?=\d+$)/);
+    if (entryPort && Number(entryPort) !== port) return false;
+
+    const domain = entryHost.replace(/^\*?\./, '');
+    return host === domain || host.endsWith(`.${domain}`);
+  });
+}
+
+/**
+ * Découpe une liste NO_PROXY (séparateurs virgule ou espace)
+ */
+export function parseNoProxy(value: string | undefined): string[] {
+  return (value || '').split(/[\s,]+/).filter(Boolean);
+}
+
+/**
+ * En-tête Proxy-Authorization à partir des identifiants de l'URL du proxy
+ */
+export function proxyAuthorization(proxy: URL): string | undefined {
+  if (!proxy.username) return undefined;
+
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return `Basic ${Buffer.from(credentials).toString('base64')}`;
+}
+
+/**
+ * Ouvre un tunnel HTTP CONNECT vers host:port à travers le proxy
+ * @returns Socket brute, à envelopper dans TLS pour une cible https
+ */
+export function openTunnel(
+  proxy: URL,
+  host: string,
+  port: number,
+  options: TunnelOptions
+): Promise<net.Socket> {
+  const isHttpsProxy = proxy.protocol === 'https:';
+  const authorization = proxyAuthorization(proxy);
+
+  return new Promise((resolve, reject) => {
+    const req = (isHttpsProxy ? https : http).request({
+      hostname: proxy.hostname,
+      port: proxy.port || (isHttpsProxy ? 443 : 80),
+      method: 'CONNECT',
+      path: `${host}:${port}`,
+      headers: {
+        Host: `${host}:${port}`,
+        ...(authorization ? { 'Proxy-Authorization': authorization } : {}),
+      },
+      timeout: options.timeout,
+      agent: false,
+      rejectUnauthorized: options.rejectUnauthorized,
+      ca: options.ca,
+    });
+
+    req.on('connect', (res, socket) => {
+      if (res.statusCode !== 200) {
+        socket.destroy();
+        reject(
+          new NetworkError(
+            `Le proxy ${proxy.host} a refusé le tunnel vers ${host} (code ${res.statusCode})`,
+            res.statusCode
+          )
+        );
+        return;
+      }
+      resolve(socket);
+    });
+
+    req.on('error', (error: NodeJS.ErrnoException) => {
+      reject(new NetworkError(`Proxy ${proxy.host}: ${error.message}`, error.code));
+    });
+
+    req.on('timeout', () => {
+      req.destroy();
+      reject(
+        new NetworkError(`Timeout du proxy ${proxy.host} après ${options.timeout}ms`, 'ETIMEDOUT')
+      );
+    });
+
+    req.end();
+  });
+}
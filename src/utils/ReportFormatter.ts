@@ -1,5 +1,47 @@
 import chalk from 'chalk';
-import { AnalysisReport, DeprecatedPattern } from '../types/index.js';
+import { AnalysisReport, DataSource, DeprecatedPattern, ProjectFeatures, ReportMetadata } from '../types/index.js';
+
+const SOURCE_LABELS: Record<DataSource, string> = {
+  network: 'live data',
+  cache: 'cached data',
+  'stale-cache': 'expired cached data',
+  fallback: 'bundled data'
+};
+
+const SECTION_LABELS: Record<string, string> = {
+  breakingChanges: 'Breaking changes',
+  patterns: 'Deprecated patterns',
+  dependencies: 'Dependencies'
+};
+
+const FEATURE_LABELS: Record<string, string> = {
+  material: 'Angular Material',
+  ssr: 'SSR',
+  i18n: 'i18n',
+  ngUpgrade: 'ngUpgrade'
+};
+
+const COMPLEXITY_LABELS = ['', 'basic', 'medium', 'advanced'];
+
+/**
+ * Update guide options the breaking changes were filtered with, e.g. "Angular Material, SSR (advanced)"
+ */
+export function describeProjectFeatures(features: ProjectFeatures): string {
+  const enabled = Object.keys(FEATURE_LABELS).filter(feature => features[feature]);
+  const names = enabled.length > 0 ? enabled.map(feature => FEATURE_LABELS[feature]).join(', ') : 'no optional feature';
+  return `${names} (${COMPLEXITY_LABELS[features.complexity]} complexity)`;
+}
+
+/**
+ * One line per section that ran on expired or bundled data, empty when everything was fresh
+ */
+export function describeDegradedSources(metadata?: ReportMetadata): string[] {
+  if (!metadata) return [];
+  
+  return Object.entries(metadata.sources)
+    .filter(([, source]) => source === 'stale-cache' || source === 'fallback')
+    .map(([section, source]) => `${SECTION_LABELS[section] || section}: ${SOURCE_LABELS[source]}`);
+}
 
 export function formatAnalysisReport(report: AnalysisReport): string {
   const output: string[] = [];
@@ -11,11 +53,21 @@ export function formatAnalysisReport(report: AnalysisReport): string {
   // Summary
   output.push(chalk.bold('\n📋 Summary'));
   output.push(`  Current Version: ${chalk.cyan(report.fromVersion)}`);
-  output.push(`  Target Version: ${chalk.green(report.toVersion)}`);
+  output.push(`  Target Version: ${chalk.green(report.targetVersion || report.toVersion)}`);
   output.push(`  Files Impacted: ${chalk.yellow(report.summary.filesImpacted)}`);
   output.push(`  Breaking Changes: ${chalk.red(report.summary.breakingChanges)}`);
   output.push(`  Peer Dep Conflicts: ${chalk.yellow(report.summary.peerDepConflicts)}`);
   
+  // Breaking changes only cover the update guide options detected in the project
+  if (report.metadata?.features) {
+    const features = report.metadata.features;
+    output.push(chalk.bold('\n🧭 Assumed Project Features'));
+    output.push(`  ${describeProjectFeatures(features)}`);
+    Object.entries(features.evidence).forEach(([flag, evidence]) => {
+      output.push(chalk.gray(`     ${FEATURE_LABELS[flag] || flag}: ${evidence}`));
+    });
+  }
+  
   // Dependencies Analysis
   if (report.dependencies) {
     output.push(chalk.bold('\n🔗 Dependencies Analysis'));
@@ -24,6 +76,9 @@ export function formatAnalysisReport(report: AnalysisReport): string {
       output.push(chalk.red('  ❌ Incompatible Dependencies:'));
       report.dependencies.incompatible.forEach(dep => {
         output.push(`    - ${dep.package}: ${dep.reason || 'needs update'}`);
+        if (dep.migrationGuide) {
+          output.push(chalk.gray(`      Guide: ${dep.migrationGuide}`));
+        }
       });
     }
     
@@ -82,7 +137,11 @@ export function formatAnalysisReport(report: AnalysisReport): string {
     
     // Show other conflicts
     otherConflicts.forEach(conflict => {
-      output.push(chalk.red(`  ❌ ${conflict.package}`));
+      output.push(
+        conflict.severity === 'warning'
+          ? chalk.yellow(`  ⚠️  ${conflict.package} (optional)`)
+          : chalk.red(`  ❌ ${conflict.package}`)
+      );
       output.push(`     Required: ${conflict.required}`);
       output.push(`     Installed: ${conflict.installed}`);
       if (conflict.resolution) {
@@ -91,6 +150,105 @@ export function formatAnalysisReport(report: AnalysisReport): string {
     });
   }
   
+  // Duplicate installs
+  if (report.versionConflicts && report.versionConflicts.length > 0) {
+    const runtimeConflicts = report.versionConflicts.filter(c => c.severity === 'error');
+    const otherConflicts = report.versionConflicts.length - runtimeConflicts.length;
+    
+    output.push(chalk.bold('\n📚 Duplicate Installs'));
+    
+    runtimeConflicts.forEach(conflict => {
+      output.push(chalk.red(`  ❌ ${conflict.package} is installed in ${conflict.versions.length} versions`));
+      conflict.versions.forEach(copy => {
+        output.push(`     ${copy.version}`);
+        copy.requiredBy.slice(0, 3).forEach(chain => {
+          output.push(chalk.gray(`       ← ${chain}`));
+        });
+        if (copy.requiredBy.length > 3) {
+          output.push(chalk.gray(`       ... and ${copy.requiredBy.length - 3} more`));
+        }
+      });
+    });
+    
+    if (otherConflicts > 0) {
+      output.push(chalk.gray(`  ${otherConflicts} other packages have multiple versions installed (see JSON report)`));
+    }
+  }
+  
+  // Framework packages installed at another version than their group leader
+  if (report.frameworkAlignment && report.frameworkAlignment.misaligned.length > 0) {
+    output.push(chalk.bold('\n🧩 Framework Alignment'));
+    
+    report.frameworkAlignment.misaligned.forEach(misalignment => {
+      const line = `${misalignment.package}: ${misalignment.installed} (expected ${misalignment.expected} to match ${misalignment.group})`;
+      output.push(misalignment.severity === 'error' ? chalk.red(`  ❌ ${line}`) : chalk.yellow(`  ⚠️  ${line}`));
+      output.push(chalk.green(`     Resolution: ${misalignment.resolution}`));
+    });
+    
+    const defaults = report.frameworkAlignment.groups.filter(group => group.source === 'default');
+    if (defaults.length > 0) {
+      output.push(chalk.gray(`  No ng-update metadata for ${defaults.map(group => group.leader).join(', ')}, the usual package groups were assumed`));
+    }
+  }
+  
+  // Library families that have to move to the release track of the target major
+  const companions = (report.companionAlignment || []).filter(alignment =>
+    alignment.packages.some(pkg => pkg.recommended !== pkg.current)
+  );
+  if (companions.length > 0) {
+    output.push(chalk.bold('\n🤝 Companion Packages'));
+    
+    companions.forEach(alignment => {
+      if (!alignment.installCommand) {
+        output.push(chalk.red(`  ❌ ${alignment.ecosystem}: ${alignment.reason}`));
+        return;
+      }
+      
+      output.push(chalk.cyan(`  ${alignment.ecosystem}`));
+      alignment.packages.forEach(pkg => {
+        output.push(`     ${pkg.package}: ${pkg.current || 'not installed'} → ${chalk.green(pkg.recommended)}`);
+      });
+      output.push(chalk.green(`     ${alignment.installCommand}`));
+    });
+  }
+  
+  // Third-party packages that are deprecated, abandoned or stuck on old Angular majors
+  const atRisk = (report.maintenanceHealth?.packages || []).filter(entry => entry.risk !== 'low');
+  if (atRisk.length > 0) {
+    output.push(chalk.bold('\n🩺 Maintenance Health'));
+    
+    atRisk.forEach(entry => {
+      const label = entry.risk === 'high' ? chalk.red('HIGH') : chalk.yellow('MEDIUM');
+      output.push(`  ${label} ${entry.package}${entry.installedVersion ? `@${entry.installedVersion}` : ''}`);
+      entry.reasons.forEach(reason => output.push(chalk.gray(`     ${reason}`)));
+      if (entry.replacement) {
+        output.push(chalk.green(`     Replacement: ${entry.replacement}`));
+      }
+    });
+  }
+  
+  // Offline or degraded runs: the results may lag behind the current Angular release
+  const degraded = describeDegradedSources(report.metadata);
+  if (report.metadata?.offline || degraded.length > 0) {
+    output.push(chalk.bold('\n📡 Data Sources'));
+    if (report.metadata.offline) {
+      output.push(chalk.yellow('  🔌 Offline mode: no network request was made'));
+    }
+    degraded.forEach(line => output.push(chalk.yellow(`  ⚠️ ${line}`)));
+  }
+  
+  // Registry lookups that never succeeded leave gaps in the peer and conflict checks
+  if (report.registry && report.registry.failedLookups > 0) {
+    output.push(chalk.bold('\n🌐 Registry Lookups'));
+    output.push(chalk.red(`  ❌ ${report.registry.failedLookups} packages could not be fetched, their checks were skipped`));
+    report.registry.failedPackages.slice(0, 5).forEach(failure => {
+      output.push(chalk.gray(`     ${failure.package}: ${failure.reason}`));
+    });
+    if (report.registry.failedPackages.length > 5) {
+      output.push(chalk.gray(`     ... and ${report.registry.failedPackages.length - 5} more`));
+    }
+  }
+  
   // Deprecated Patterns
   if (report.patterns && report.patterns.length > 0) {
     output.push(chalk.bold('\n🔍 Deprecated Patterns Found'));
@@ -0,0 +1,90 @@
+import { NetworkError } from '../types/index.js';
+
+export interface RetryOptions {
+  // Nombre de nouvelles tentatives après le premier essai
+  retries: number;
+  // Durée totale maximale (ms) entre le premier essai et la dernière tentative
+  maxRetryTime: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  onRetry?: (error: Error, attempt: number, delay: number) => void;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+  now?: () => number;
+}
+
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+const RETRYABLE_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ENETUNREACH',
+]);
+
+/**
+ * Erreurs transitoires qui méritent une nouvelle tentative : codes HTTP de surcharge
+ * (429, 503...) et coupures réseau. Un 404 ou une réponse illisible ne changera pas.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof NetworkError)) return false;
+  return typeof error.code === 'number'
+    ? RETRYABLE_STATUS.has(error.code)
+    : RETRYABLE_CODES.has(String(error.code));
+}
+
+/**
+ * Convertit un en-tête Retry-After (secondes ou date HTTP) en millisecondes
+ */
+export function parseRetryAfter(
+  value: string | string[] | undefined,
+  now: number = Date.now()
+): number | undefined {
+  const header = Array.isArray(value) ? value[0] : value;
+  if (!header) return undefined;
+
+  if (/^\d+$/.test(header.trim())) return Number(header.trim()) * 1000;
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Délai exponentiel avec jitter : entre la moitié et la totalité de base * 2^attempt
+ */
+export function backoffDelay(
+  attempt: number,
+  baseDelay = 500,
+  maxDelay = 30000,
+  random: () => number = Math.random
+): number {
+  const delay = Math.min(maxDelay, baseDelay * 2 ** attempt);
+  return Math.round(delay / 2 + (random() * delay) / 2);
+}
+
+/**
+ * Exécute une requête avec nouvelles tentatives sur les erreurs transitoires.
+ * Retry-After remplace le délai calculé ; on abandonne si l'attente dépasse le budget total.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const sleep = options.sleep || (ms => new Promise<void>(resolve => setTimeout(resolve, ms)));
+  const now = options.now || Date.now;
+  const startedAt = now();
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= options.retries || !isRetryableError(error)) throw error;
+
+      const delay =
+        (error as NetworkError).retryAfter ??
+        backoffDelay(attempt, options.baseDelay, options.maxDelay, options.random);
+      if (now() - startedAt + delay > options.maxRetryTime) throw error;
+
+      options.onRetry?.(error as Error, attempt + 1, delay);
+      await sleep(delay);
+    }
+  }
+}
@@ -10,6 +10,8 @@ import {
   SuggestionsReport
 } from '../types/index.js';
 
+import { describeDegradedSources } from './ReportFormatter.js';
+
 export class SuggestionEngine {
   private report: AnalysisReport;
   
@@ -58,7 +60,8 @@ export class SuggestionEngine {
       suggestions,
       totalSuggestions: suggestions.length,
       byCriteria: this.categorizeSuggestions(suggestions),
-      estimatedEffort: this.calculateEffort(suggestions)
+      estimatedEffort: this.calculateEffort(suggestions),
+      metadata: this.report.metadata
     };
   }
   
@@ -78,6 +81,7 @@ export class SuggestionEngine {
       
       // Only create pre-migration fix if there are fixable conflicts
       const fixableConflicts = this.report.peerDependencies.conflicts.filter(c => 
+        c.severity !== 'warning' &&
         !c.resolution?.includes('is incompatible') && 
         (c.package === 'zone.js' || c.package === 'typescript' || c.package === 'rxjs')
       );
@@ -164,9 +168,9 @@ export class SuggestionEngine {
             `Look for alternatives compatible with Angular ${this.report.toVersion}`,
             `Remove if no longer required`
           ],
-          documentation: pkg.alternative 
+          documentation: pkg.migrationGuide || (pkg.alternative 
             ? this.getPackageDocUrl(pkg.alternative)
-            : this.getPackageDocUrl(pkg.package)
+            : this.getPackageDocUrl(pkg.package))
         });
       }
     }
@@ -187,6 +191,10 @@ export class SuggestionEngine {
       
       // Filter out conflicts that are caused by incompatible packages
       const fixableConflicts = conflicts.filter(c => {
+        // Skip optional peers that are not installed
+        if (c.severity === 'warning') {
+          return false;
+        }
         // Skip Angular packages that are already at the correct version but have incompatible dependents
         if (c.package.startsWith('@angular/') && c.resolution?.includes('is incompatible')) {
           return false;
@@ -545,6 +553,9 @@ export class SuggestionEngine {
     console.log(chalk.yellow(`\nMigration: Angular ${report.fromVersion} → ${report.toVersion}`));
     console.log(`Total suggestions: ${report.totalSuggestions}`);
     console.log(`Estimated effort: ${report.estimatedEffort}`);
+    describeDegradedSources(report.metadata).forEach(line => {
+      console.log(chalk.yellow(`⚠️  ${line}`));
+    });
     
     // Group by priority
     const byPriority = report.suggestions.reduce((acc, s) => {
@@ -601,6 +612,9 @@ export class SuggestionEngine {
     markdown += `**Migration:** Angular ${report.fromVersion} → ${report.toVersion}\n\n`;
     markdown += `**Total suggestions:** ${report.totalSuggestions}\n\n`;
     markdown += `**Estimated effort:** ${report.estimatedEffort}\n\n`;
+    describeDegradedSources(report.metadata).forEach(line => {
+      markdown += `> ⚠️ ${line}\n\n`;
+    });
     
     // Table of contents
     markdown += `## Table of Contents\n\n`;
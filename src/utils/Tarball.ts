@@ -0,0 +1,161 @@
+import * as zlib from 'zlib';
+
+import { ParseError } from '../types/index.js';
+
+export interface TarEntry {
+  path: string;
+  content: Buffer;
+  mtime: Date;
+}
+
+const BLOCK_SIZE = 512;
+// Au-delà, le chemin est transmis dans un en-tête étendu PAX
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Crée une archive tar (format ustar) compressée en gzip, lisible par `tar xzf`.
+ * Seuls des fichiers réguliers sont écrits.
+ */
+export function packTarball(entries: TarEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+
+  for (const entry of entries) {
+    if (Buffer.byteLength(entry.path) > MAX_NAME_LENGTH) {
+      const record = paxRecord('path', entry.path);
+      blocks.push(header('PaxHeader', record.length, entry.mtime, 'x'), pad(record));
+    }
+    blocks.push(header(entry.path, entry.content.length, entry.mtime, '0'), pad(entry.content));
+  }
+
+  // Deux blocs vides terminent l'archive
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return zlib.gzipSync(Buffer.concat(blocks));
+}
+
+/**
+ * Lit les fichiers réguliers d'une archive tar, compressée en gzip ou non
+ */
+export function unpackTarball(data: Buffer): TarEntry[] {
+  const tar = data[0] === 0x1f && data[1] === 0x8b ? gunzip(data) : data;
+  const entries: TarEntry[] = [];
+  let offset = 0;
+  let longPath: string | null = null;
+
+  while (offset + BLOCK_SIZE <= tar.length) {
+    const block = tar.subarray(offset, offset + BLOCK_SIZE);
+    if (block.every(byte => byte === 0)) break;
+
+    if (checksum(block) !== readOctal(block, 148, 8)) {
+      throw new ParseError(`Archive tar corrompue (en-tête à l'octet ${offset})`);
+    }
+
+    const size = readOctal(block, 124, 12);
+    const type = String.fromCharCode(block[156] || 0x30);
+    const content = tar.subarray(offset + BLOCK_SIZE, offset + BLOCK_SIZE + size);
+    if (content.length < size) {
+      throw new ParseError('Archive tar tronquée');
+    }
+    offset += BLOCK_SIZE + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (type === 'x') {
+      longPath = parsePax(content).path ?? null;
+      continue;
+    }
+    if (type === '0') {
+      const prefix = readString(block, 345, 155);
+      const name = readString(block, 0, 100);
+      entries.push({
+        path: longPath ?? (prefix ? `${prefix}/${name}` : name),
+        content: Buffer.from(content),
+        mtime: new Date(readOctal(block, 136, 12) * 1000),
+      });
+    }
+    // Dossiers, liens et en-têtes globaux sont ignorés
+    longPath = null;
+  }
+
+  return entries;
+}
+
+function header(name: string, size: number, mtime: Date, type: string): Buffer {
+  const block = Buffer.alloc(BLOCK_SIZE);
+
+  block.write(name.slice(0, MAX_NAME_LENGTH), 0, MAX_NAME_LENGTH, 'utf-8');
+  writeOctal(block, 0o644, 100, 8);
+  writeOctal(block, 0, 108, 8);
+  writeOctal(block, 0, 116, 8);
+  writeOctal(block, size, 124, 12);
+  writeOctal(block, Math.floor(mtime.getTime() / 1000), 136, 12);
+  block.write(type, 156, 1, 'ascii');
+  block.write('ustar\u000000', 257, 8, 'ascii');
+
+  // La somme de contrôle se calcule avec son propre champ rempli d'espaces
+  writeOctal(block, checksum(block), 148, 8);
+  return block;
+}
+
+function checksum(block: Buffer): number {
+  let sum = 8 * 0x20;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    if (i < 148 || i >= 156) sum += block[i];
+  }
+  return sum;
+}
+
+function writeOctal(block: Buffer, value: number, offset: number, length: number): void {
+  block.write(`${value.toString(8).padStart(length - 1, '0')}\u0000`, offset, length, 'ascii');
+}
+
+function readOctal(block: Buffer, offset: number, length: number): number {
+  const value = readString(block, offset, length).trim();
+  return value ? parseInt(value, 8) : 0;
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString('utf-8');
+}
+
+function pad(content: Buffer): Buffer {
+  const remainder = content.length % BLOCK_SIZE;
+  return remainder === 0 ? content : Buffer.concat([content, Buffer.alloc(BLOCK_SIZE - remainder)]);
+}
+
+/**
+ * Enregistrement PAX `<longueur> <clé>=<valeur>\n`, la longueur incluant ses propres chiffres
+ */
+function paxRecord(key: string, value: string): Buffer {
+  const body = ` ${key}=${value}\n`;
+  const bodyLength = Buffer.byteLength(body);
+  let length = bodyLength + String(bodyLength).length;
+  if (String(length).length > String(bodyLength).length) length++;
+  return Buffer.from(`${length}${body}`, 'utf-8');
+}
+
+function parsePax(content: Buffer): Record<string, string> {
+  const values: Record<string, string> = {};
+  let offset = 0;
+
+  while (offset < content.length) {
+    const space = content.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = parseInt(content.subarray(offset, space).toString('ascii'), 10);
+    if (!length) break;
+
+    const record = content.subarray(space + 1, offset + length - 1).toString('utf-8');
+    const separator = record.indexOf('=');
+    if (separator > 0) values[record.slice(0, separator)] = record.slice(separator + 1);
+    offset += length;
+  }
+
+  return values;
+}
+
+function gunzip(data: Buffer): Buffer {
+  try {
+    return zlib.gunzipSync(data);
+  } catch (error) {
+    throw new ParseError(`Archive gzip illisible: ${(error as Error).message}`);
+  }
+}
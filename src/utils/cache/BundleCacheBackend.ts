@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+
+import type { CacheBackend, CacheEntryInfo, CacheRecord } from './CacheBackend.js';
+
+export interface CacheBundle {
+  version: number;
+  createdAt: string;
+  entries: Record<string, Record<string, CacheRecord<unknown>>>;
+}
+
+export const CACHE_BUNDLE_VERSION = 1;
+
+/**
+ * Cache en lecture seule chargé depuis un fichier JSON unique, typiquement versionné
+ * avec le projet ou distribué aux runners CI sans accès réseau
+ */
+export class BundleCacheBackend implements CacheBackend {
+  readonly name = 'bundle';
+  readonly readOnly = true;
+  private bundle: CacheBundle | null = null;
+
+  constructor(private readonly file: string) {}
+
+  get location(): string {
+    return this.file;
+  }
+
+  read<T>(namespace: string, key: string): CacheRecord<T> | null {
+    return (this.load().entries[namespace]?.[key] as CacheRecord<T> | undefined) ?? null;
+  }
+
+  write(): void {
+    throw new Error(`Le cache ${this.file} est en lecture seule`);
+  }
+
+  remove(): void {
+    throw new Error(`Le cache ${this.file} est en lecture seule`);
+  }
+
+  list(namespace?: string): CacheEntryInfo[] {
+    const entries: CacheEntryInfo[] = [];
+
+    for (const [name, records] of Object.entries(this.load().entries)) {
+      if (namespace && name !== namespace) continue;
+      for (const [key, record] of Object.entries(records)) {
+        entries.push({
+          namespace: name,
+          key,
+          size: record.size,
+          storedAt: record.storedAt,
+          source: this.name,
+        });
+      }
+    }
+
+    return entries;
+  }
+
+  clear(): void {
+    throw new Error(`Le cache ${this.file} est en lecture seule`);
+  }
+
+  private load(): CacheBundle {
+    if (this.bundle) return this.bundle;
+
+    try {
+      const bundle = JSON.parse(fs.readFileSync(this.file, 'utf-8')) as CacheBundle;
+      if (bundle.version !== CACHE_BUNDLE_VERSION) {
+        console.warn(`⚠️  Version de bundle de cache incompatible: ${this.file}`);
+        this.bundle = { version: CACHE_BUNDLE_VERSION, createdAt: '', entries: {} };
+      } else {
+        this.bundle = bundle;
+      }
+    } catch (error) {
+      console.warn(
+        `⚠️  Impossible de charger le bundle de cache ${this.file}:`,
+        (error as Error).message
+      );
+      this.bundle = { version: CACHE_BUNDLE_VERSION, createdAt: '', entries: {} };
+    }
+
+    return this.bundle;
+  }
+}
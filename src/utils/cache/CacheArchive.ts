@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+
+import { ParseError } from '../../types/index.js';
+import { packTarball, unpackTarball, type TarEntry } from '../Tarball.js';
+
+import type { CacheRecord } from './CacheBackend.js';
+import type { CacheStore } from './CacheStore.js';
+
+export interface CacheImportResult {
+  imported: number;
+  // Entrées déjà présentes et plus récentes que celles de l'archive
+  skipped: number;
+}
+
+/**
+ * Exporte les entrées du cache dans une archive `.tgz`. Les fichiers suivent la disposition
+ * du cache disque (`<namespace>/<clé encodée>.json`), l'archive peut donc aussi être
+ * extraite directement dans diskCachePath.
+ * @returns Nombre d'entrées exportées
+ */
+export function exportCache(store: CacheStore, file: string, namespace?: string): number {
+  const entries: TarEntry[] = [];
+
+  for (const info of store.list(namespace)) {
+    const record = store.getRecord(info.namespace, info.key);
+    if (!record) continue;
+
+    entries.push({
+      path: `${encodeURIComponent(info.namespace)}/${encodeURIComponent(info.key)}.json`,
+      content: Buffer.from(JSON.stringify(record), 'utf-8'),
+      mtime: new Date(record.storedAt),
+    });
+  }
+
+  fs.writeFileSync(file, packTarball(entries));
+  return entries.length;
+}
+
+/**
+ * Importe une archive produite par exportCache. Les dates d'écriture d'origine sont
+ * conservées et une entrée locale plus récente n'est jamais remplacée.
+ */
+export function importCache(store: CacheStore, file: string): CacheImportResult {
+  const result: CacheImportResult = { imported: 0, skipped: 0 };
+
+  for (const entry of unpackTarball(fs.readFileSync(file))) {
+    const match = /^([^/]+)\/([^/]+)\.json$/.exec(entry.path);
+    if (!match) continue;
+
+    const namespace = decodeURIComponent(match[1]);
+    const key = decodeURIComponent(match[2]);
+    if (!isSafeNamespace(namespace) || !isSafeKey(key)) {
+      throw new ParseError(`Entrée ${entry.path} invalide: chemin hors du cache`);
+    }
+    const record = parseRecord(entry);
+
+    const existing = store.getRecord(namespace, key);
+    if (existing && existing.storedAt >= record.storedAt) {
+      result.skipped++;
+      continue;
+    }
+
+    store.restore(namespace, key, record);
+    result.imported++;
+  }
+
+  return result;
+}
+
+/**
+ * Une fois décodés, le namespace doit rester un nom de dossier et la clé ne peut contenir
+ * que des noms de paquets (`@scope/nom`) : `..` ou `a%2F..` dans une archive malveillante
+ * écriraient hors du dossier du cache
+ */
+function isSafeNamespace(namespace: string): boolean {
+  return isSafeSegment(namespace) && !/[/\\]/.test(namespace);
+}
+
+function isSafeKey(key: string): boolean {
+  return !key.includes('\\') && key.split('/').every(isSafeSegment);
+}
+
+function isSafeSegment(segment: string): boolean {
+  return segment !== '' && segment !== '.' && segment !== '..';
+}
+
+function parseRecord(entry: TarEntry): CacheRecord {
+  let record: Partial<CacheRecord>;
+  try {
+    record = JSON.parse(entry.content.toString('utf-8')) as Partial<CacheRecord>;
+  } catch (error) {
+    throw new ParseError(`Entrée ${entry.path} illisible: ${(error as Error).message}`);
+  }
+
+  if (!record || typeof record.storedAt !== 'number' || !('value' in record)) {
+    throw new ParseError(`Entrée ${entry.path} invalide: ce n'est pas une entrée de cache ngma`);
+  }
+
+  return {
+    value: record.value,
+    storedAt: record.storedAt,
+    ttl: record.ttl,
+    size: record.size ?? entry.content.length,
+    meta: record.meta,
+  };
+}
@@ -0,0 +1,36 @@
+export interface CacheRecord<T = unknown> {
+  value: T;
+  // Date d'écriture (ms), renouvelée par une revalidation
+  storedAt: number;
+  // Durée de validité propre à l'entrée (ms), sinon celle de la configuration
+  ttl?: number;
+  // Taille sérialisée de la valeur, en octets
+  size: number;
+  // Métadonnées libres : registry d'origine, validateurs HTTP...
+  meta?: Record<string, string>;
+}
+
+export interface CacheEntryInfo {
+  namespace: string;
+  key: string;
+  size: number;
+  storedAt: number;
+  // Backend qui détient l'entrée
+  source: string;
+}
+
+/**
+ * Stockage sous-jacent du cache. Les clés sont regroupées par namespace
+ * (packuments, breaking-changes...) pour pouvoir être listées et vidées séparément.
+ */
+export interface CacheBackend {
+  readonly name: string;
+  readonly readOnly: boolean;
+  // Dossier ou fichier sur disque, absent pour le cache en mémoire
+  readonly location?: string;
+  read<T>(namespace: string, key: string): CacheRecord<T> | null;
+  write<T>(namespace: string, key: string, record: CacheRecord<T>): void;
+  remove(namespace: string, key: string): void;
+  list(namespace?: string): CacheEntryInfo[];
+  clear(namespace?: string): void;
+}
@@ -0,0 +1,260 @@
+import * as path from 'path';
+
+import type { AnalyzerConfig } from '../../types/index.js';
+
+import { BundleCacheBackend } from './BundleCacheBackend.js';
+import type { CacheBackend, CacheEntryInfo, CacheRecord } from './CacheBackend.js';
+import { FileCacheBackend } from './FileCacheBackend.js';
+import { MemoryCacheBackend } from './MemoryCacheBackend.js';
+
+export interface CacheStoreOptions {
+  enabled: boolean;
+  // Durée de validité par défaut des entrées (ms)
+  ttl: number;
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export interface CacheSetOptions {
+  ttl?: number;
+  meta?: Record<string, string | undefined>;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  namespaces: Record<string, { entries: number; bytes: number }>;
+  oldestEntry: Date | null;
+  newestEntry: Date | null;
+}
+
+export const DEFAULT_CACHE_MAX_BYTES = 256 * 1024 * 1024;
+
+/**
+ * Cache unique de l'outil, découpé en namespaces (packuments, breaking-changes...).
+ * Les écritures vont au backend principal (mémoire ou disque), les lectures retombent
+ * sur les backends en lecture seule (bundle) quand la clé n'y est pas.
+ * Les entrées les plus anciennes sont évincées au-delà de maxEntries ou maxBytes.
+ */
+export class CacheStore {
+  // Index des entrées du backend principal, construit à la première écriture
+  private index: Map<string, CacheEntryInfo> | null = null;
+  private totalBytes = 0;
+
+  constructor(
+    private readonly primary: CacheBackend,
+    private readonly fallbacks: CacheBackend[],
+    private readonly options: CacheStoreOptions
+  ) {}
+
+  get enabled(): boolean {
+    return this.options.enabled;
+  }
+
+  /**
+   * Valeur encore valide, null si absente ou expirée
+   */
+  get<T>(namespace: string, key: string): T | null {
+    const record = this.getRecord<T>(namespace, key);
+    return record && !this.isExpired(record) ? record.value : null;
+  }
+
+  /**
+   * Entrée même expirée : utile pour une revalidation HTTP ou en mode hors ligne
+   */
+  getRecord<T>(namespace: string, key: string): CacheRecord<T> | null {
+    if (!this.options.enabled) return null;
+
+    for (const backend of [this.primary, ...this.fallbacks]) {
+      const record = backend.read<T>(namespace, key);
+      if (record) return record;
+    }
+    return null;
+  }
+
+  isExpired(record: CacheRecord<unknown>): boolean {
+    return Date.now() - record.storedAt > (record.ttl ?? this.options.ttl);
+  }
+
+  set<T>(namespace: string, key: string, value: T, options: CacheSetOptions = {}): void {
+    if (!this.options.enabled) return;
+
+    const meta = Object.fromEntries(
+      Object.entries(options.meta || {}).filter((entry): entry is [string, string] => !!entry[1])
+    );
+    this.write(namespace, key, {
+      value,
+      storedAt: Date.now(),
+      ttl: options.ttl,
+      size: Buffer.byteLength(JSON.stringify(value)),
+      meta: Object.keys(meta).length > 0 ? meta : undefined,
+    });
+  }
+
+  /**
+   * Écrit une entrée telle quelle, sans changer sa date (import d'une archive)
+   */
+  restore<T>(namespace: string, key: string, record: CacheRecord<T>): void {
+    if (!this.options.enabled) return;
+    this.write(namespace, key, record);
+  }
+
+  /**
+   * Renouvelle la date d'une entrée toujours valable (réponse 304), en fusionnant les métadonnées
+   */
+  touch(namespace: string, key: string, meta: Record<string, string | undefined> = {}): void {
+    const record = this.getRecord(namespace, key);
+    if (!record) return;
+
+    this.set(namespace, key, record.value, { ttl: record.ttl, meta: { ...record.meta, ...meta } });
+  }
+
+  delete(namespace: string, key: string): void {
+    this.primary.remove(namespace, key);
+    this.forget(namespace, key);
+  }
+
+  clear(namespace?: string): void {
+    this.primary.clear(namespace);
+    this.index = null;
+  }
+
+  /**
+   * Entrées de tous les backends, celles du backend principal masquant les autres
+   */
+  list(namespace?: string): CacheEntryInfo[] {
+    const entries = new Map<string, CacheEntryInfo>();
+
+    for (const backend of [...this.fallbacks].reverse().concat(this.primary)) {
+      for (const entry of backend.list(namespace)) {
+        entries.set(this.indexKey(entry.namespace, entry.key), entry);
+      }
+    }
+
+    return [...entries.values()].sort(
+      (a, b) => a.namespace.localeCompare(b.namespace) || a.key.localeCompare(b.key)
+    );
+  }
+
+  /**
+   * Supprime les entrées écrites avant `olderThan` ms
+   * @returns Nombre d'entrées supprimées
+   */
+  prune(olderThan: number, namespace?: string): number {
+    const limit = Date.now() - olderThan;
+    const stale = this.primary.list(namespace).filter(entry => entry.storedAt < limit);
+
+    for (const entry of stale) {
+      this.delete(entry.namespace, entry.key);
+    }
+    return stale.length;
+  }
+
+  /**
+   * Backends consultés, dans l'ordre de lecture
+   */
+  backends(): Array<Pick<CacheBackend, 'name' | 'readOnly' | 'location'>> {
+    return [this.primary, ...this.fallbacks].map(({ name, readOnly, location }) => ({
+      name,
+      readOnly,
+      location,
+    }));
+  }
+
+  stats(): CacheStats {
+    const stats: CacheStats = {
+      entries: 0,
+      bytes: 0,
+      namespaces: {},
+      oldestEntry: null,
+      newestEntry: null,
+    };
+
+    for (const entry of this.list()) {
+      const namespace = (stats.namespaces[entry.namespace] ??= { entries: 0, bytes: 0 });
+      namespace.entries++;
+      namespace.bytes += entry.size;
+      stats.entries++;
+      stats.bytes += entry.size;
+
+      const storedAt = new Date(entry.storedAt);
+      if (!stats.oldestEntry || storedAt < stats.oldestEntry) stats.oldestEntry = storedAt;
+      if (!stats.newestEntry || storedAt > stats.newestEntry) stats.newestEntry = storedAt;
+    }
+
+    return stats;
+  }
+
+  private write<T>(namespace: string, key: string, record: CacheRecord<T>): void {
+    const index = this.loadIndex();
+
+    this.forget(namespace, key);
+    this.primary.write(namespace, key, record);
+    index.set(this.indexKey(namespace, key), {
+      namespace,
+      key,
+      size: record.size,
+      storedAt: record.storedAt,
+      source: this.primary.name,
+    });
+    this.totalBytes += record.size;
+
+    this.evict();
+  }
+
+  private evict(): void {
+    const index = this.loadIndex();
+    if (index.size <= this.options.maxEntries && this.totalBytes <= this.options.maxBytes) return;
+
+    const oldestFirst = [...index.values()].sort((a, b) => a.storedAt - b.storedAt);
+    for (const entry of oldestFirst) {
+      if (index.size <= this.options.maxEntries && this.totalBytes <= this.options.maxBytes) break;
+      this.delete(entry.namespace, entry.key);
+    }
+  }
+
+  private forget(namespace: string, key: string): void {
+    const id = this.indexKey(namespace, key);
+    const existing = this.index?.get(id);
+    if (!existing) return;
+
+    this.index.delete(id);
+    this.totalBytes -= existing.size;
+  }
+
+  private loadIndex(): Map<string, CacheEntryInfo> {
+    if (!this.index) {
+      this.index = new Map();
+      this.totalBytes = 0;
+      for (const entry of this.primary.list()) {
+        this.index.set(this.indexKey(entry.namespace, entry.key), entry);
+        this.totalBytes += entry.size;
+      }
+    }
+    return this.index;
+  }
+
+  private indexKey(namespace: string, key: string): string {
+    return `${namespace}\u0000${key}`;
+  }
+}
+
+/**
+ * Cache configuré par AnalyzerConfig.cache : sur disque dans diskCachePath (relatif au projet)
+ * si persistToDisk, en mémoire sinon, avec bundlePath en lecture seule derrière
+ */
+export function createCacheStore(config: AnalyzerConfig['cache'], projectRoot: string): CacheStore {
+  const primary = config.persistToDisk
+    ? new FileCacheBackend(path.resolve(projectRoot, config.diskCachePath))
+    : new MemoryCacheBackend();
+  const fallbacks = config.bundlePath
+    ? [new BundleCacheBackend(path.resolve(projectRoot, config.bundlePath))]
+    : [];
+
+  return new CacheStore(primary, fallbacks, {
+    enabled: config.enabled,
+    ttl: config.ttl,
+    maxEntries: config.maxSize,
+    maxBytes: config.maxBytes ?? DEFAULT_CACHE_MAX_BYTES,
+  });
+}
@@ -0,0 +1,144 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { ParseError } from '../../types/index.js';
+
+import type { CacheBackend, CacheEntryInfo, CacheRecord } from './CacheBackend.js';
+
+const TEMP_SUFFIX = '.tmp';
+// Marqueur standard des dossiers de cache (https://bford.info/cachedir/)
+const CACHEDIR_TAG = 'CACHEDIR.TAG';
+const CACHEDIR_SIGNATURE =
+  'Signature: 8a477f597d28d172789f06886806bc55\n# Cache directory created by ngma.\n';
+
+/**
+ * Cache sur disque, un fichier JSON par clé : `<racine>/<namespace>/<clé encodée>.json`.
+ * Chaque écriture passe par un fichier temporaire renommé ensuite, un processus
+ * interrompu ou deux analyses en parallèle ne laissent jamais un fichier tronqué.
+ */
+export class FileCacheBackend implements CacheBackend {
+  readonly name = 'file';
+  readonly readOnly = false;
+
+  constructor(private readonly root: string) {}
+
+  get location(): string {
+    return this.root;
+  }
+
+  read<T>(namespace: string, key: string): CacheRecord<T> | null {
+    try {
+      return JSON.parse(fs.readFileSync(this.filePath(namespace, key), 'utf-8')) as CacheRecord<T>;
+    } catch {
+      // Absente ou illisible : traitée comme un défaut de cache
+      return null;
+    }
+  }
+
+  write<T>(namespace: string, key: string, record: CacheRecord<T>): void {
+    const file = this.filePath(namespace, key);
+    const temp = `${file}.${process.pid}.${Math.random().toString(36).slice(2)}${TEMP_SUFFIX}`;
+
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      this.tagRoot();
+      fs.writeFileSync(temp, JSON.stringify(record), 'utf-8');
+      // La date du fichier suit celle de l'entrée : list() évite ainsi de relire chaque fichier
+      const storedAt = new Date(record.storedAt);
+      fs.utimesSync(temp, storedAt, storedAt);
+      fs.renameSync(temp, file);
+    } catch (error) {
+      fs.rmSync(temp, { force: true });
+      console.warn(`⚠️  Impossible d'écrire ${key} dans le cache:`, (error as Error).message);
+    }
+  }
+
+  remove(namespace: string, key: string): void {
+    fs.rmSync(this.filePath(namespace, key), { force: true });
+  }
+
+  list(namespace?: string): CacheEntryInfo[] {
+    const entries: CacheEntryInfo[] = [];
+    if (!this.isTagged()) return entries;
+    const namespaces = namespace ? [encodeURIComponent(namespace)] : this.readDir(this.root);
+
+    for (const directory of namespaces) {
+      const dirPath = path.join(this.root, directory);
+      for (const file of this.readDir(dirPath)) {
+        if (!file.endsWith('.json')) continue;
+        try {
+          const stats = fs.statSync(path.join(dirPath, file));
+          entries.push({
+            namespace: decodeURIComponent(directory),
+            key: decodeURIComponent(file.slice(0, -'.json'.length)),
+            size: stats.size,
+            storedAt: stats.mtimeMs,
+            source: this.name,
+          });
+        } catch {
+          // Supprimé entre-temps par un autre processus
+        }
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Ne supprime que les fichiers d'un dossier marqué CACHEDIR.TAG : un diskCachePath
+   * mal configuré (racine du projet...) ne doit jamais effacer autre chose
+   */
+  clear(namespace?: string): void {
+    if (!this.isTagged()) return;
+
+    const namespaces = namespace ? [encodeURIComponent(namespace)] : this.readDir(this.root);
+
+    for (const directory of namespaces) {
+      const dirPath = path.join(this.root, directory);
+      for (const file of this.readDir(dirPath)) {
+        if (file.endsWith('.json') || file.endsWith(TEMP_SUFFIX)) {
+          fs.rmSync(path.join(dirPath, file), { force: true });
+        }
+      }
+      try {
+        fs.rmdirSync(dirPath);
+      } catch {
+        // Dossier non vide ou qui n'est pas un namespace du cache
+      }
+    }
+  }
+
+  private tagRoot(): void {
+    const tag = path.join(this.root, CACHEDIR_TAG);
+    if (!fs.existsSync(tag)) fs.writeFileSync(tag, CACHEDIR_SIGNATURE, 'utf-8');
+  }
+
+  private isTagged(): boolean {
+    return fs.existsSync(path.join(this.root, CACHEDIR_TAG));
+  }
+
+  /**
+   * encodeURIComponent laisse `.` et `..` intacts : le chemin obtenu est vérifié pour
+   * qu'aucun namespace ni aucune clé ne sorte de la racine du cache
+   */
+  private filePath(namespace: string, key: string): string {
+    const root = path.resolve(this.root);
+    const file = path.resolve(
+      root,
+      encodeURIComponent(namespace),
+      `${encodeURIComponent(key)}.json`
+    );
+    if (!file.startsWith(`${root}${path.sep}`)) {
+      throw new ParseError(`Entrée de cache ${namespace}/${key} hors du dossier ${this.root}`);
+    }
+    return file;
+  }
+
+  private readDir(dirPath: string): string[] {
+    try {
+      return fs.readdirSync(dirPath);
+    } catch {
+      return [];
+    }
+  }
+}
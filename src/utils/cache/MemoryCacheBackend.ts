@@ -0,0 +1,50 @@
+import type { CacheBackend, CacheEntryInfo, CacheRecord } from './CacheBackend.js';
+
+/**
+ * Cache en mémoire, perdu à la fin du processus
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory';
+  readonly readOnly = false;
+  private namespaces = new Map<string, Map<string, CacheRecord<unknown>>>();
+
+  read<T>(namespace: string, key: string): CacheRecord<T> | null {
+    return (this.namespaces.get(namespace)?.get(key) as CacheRecord<T> | undefined) ?? null;
+  }
+
+  write<T>(namespace: string, key: string, record: CacheRecord<T>): void {
+    if (!this.namespaces.has(namespace)) this.namespaces.set(namespace, new Map());
+    this.namespaces.get(namespace).set(key, record);
+  }
+
+  remove(namespace: string, key: string): void {
+    this.namespaces.get(namespace)?.delete(key);
+  }
+
+  list(namespace?: string): CacheEntryInfo[] {
+    const entries: CacheEntryInfo[] = [];
+
+    for (const [name, records] of this.namespaces) {
+      if (namespace && name !== namespace) continue;
+      for (const [key, record] of records) {
+        entries.push({
+          namespace: name,
+          key,
+          size: record.size,
+          storedAt: record.storedAt,
+          source: this.name,
+        });
+      }
+    }
+
+    return entries;
+  }
+
+  clear(namespace?: string): void {
+    if (namespace) {
+      this.namespaces.delete(namespace);
+    } else {
+      this.namespaces.clear();
+    }
+  }
+}
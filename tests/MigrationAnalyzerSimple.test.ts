@@ -0,0 +1,77 @@
+import { PeerDependencyAnalyzer } from '../src/analyzers/PeerDependencyAnalyzer';
+import { MigrationAnalyzer } from '../src/MigrationAnalyzerSimple';
+
+jest.mock('../src/analyzers/PeerDependencyAnalyzer');
+jest.mock('../src/analyzers/VersionConflictAnalyzer');
+jest.mock('../src/analyzers/UpgradeResolver');
+jest.mock('../src/analyzers/DependencyPathAnalyzer');
+jest.mock('../src/analyzers/FrameworkAlignmentAnalyzer');
+jest.mock('../src/analyzers/CompanionAlignmentAnalyzer');
+jest.mock('../src/analyzers/MaintenanceHealthAnalyzer');
+// Resolved from import.meta.url, which the CommonJS test build cannot evaluate
+jest.mock('../src/utils/PackagePaths', () => ({
+  BREAKING_CHANGES_DATA_DIR: '/ngma/data/breaking-changes',
+  COMPATIBILITY_DATA_FILE: '/ngma/data/compatibility/packages.json',
+}));
+// chalk is ESM only
+jest.mock('chalk', () => ({ __esModule: true, default: {} }));
+
+describe('MigrationAnalyzer', () => {
+  const createAnalyzer = (): MigrationAnalyzer => {
+    const analyzer = new MigrationAnalyzer({ projectPath: '/test/project', toVersion: '18' });
+    analyzer.toVersion = '18';
+    return analyzer;
+  };
+
+  const mockPeerAnalysis = (result: object): void => {
+    (PeerDependencyAnalyzer.prototype.analyze as jest.Mock).mockResolvedValue(result);
+  };
+
+  describe('validatePeerDependencies', () => {
+    it('should not fail on incompatibilities that only need an available upgrade', async () => {
+      mockPeerAnalysis({
+        missingPeerDeps: [],
+        incompatibleVersions: [
+          {
+            package: 'ngx-toastr',
+            currentVersion: '17.0.0',
+            requiredVersion: '19.0.0',
+            reason: 'ngx-toastr@17.0.0 does not support Angular 18, 19.0.0 does',
+            severity: 'warning',
+          },
+        ],
+      });
+      const analyzer = createAnalyzer();
+
+      const peerDependencies = await analyzer.analyzePeerDependencies();
+      const validation = await analyzer.validatePeerDependencies();
+
+      expect(peerDependencies.conflicts).toEqual([
+        expect.objectContaining({ package: 'ngx-toastr', severity: 'warning' }),
+      ]);
+      expect(validation).toEqual({ passed: true, issues: [] });
+    });
+
+    it('should fail on incompatibilities without a compatible release', async () => {
+      mockPeerAnalysis({
+        missingPeerDeps: [],
+        incompatibleVersions: [
+          {
+            package: 'ngx-legacy',
+            currentVersion: '2.0.0',
+            requiredVersion: '',
+            reason: 'No version of ngx-legacy supports Angular 18',
+            severity: 'error',
+          },
+        ],
+      });
+
+      const validation = await createAnalyzer().validatePeerDependencies();
+
+      expect(validation.passed).toBe(false);
+      expect(validation.issues).toEqual([
+        'ngx-legacy: requires Angular 18 support but found 2.0.0',
+      ]);
+    });
+  });
+});
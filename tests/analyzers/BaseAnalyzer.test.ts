@@ -17,27 +17,36 @@ describe('BaseAnalyzer', () => {
   const mockProjectRoot = '/test/project';
   const mockConfig: AnalyzerConfig = {
     registry: 'https://registry.npmjs.org',
-    cache: {
-      enabled: true,
-      ttl: 300000,
-      maxSize: 100
-    },
-    network: {
-      timeout: 30000,
-      retries: 3,
-      retryDelay: 1000
-    },
+    timeout: 10000,
+    retries: 3,
+    maxConcurrentRequests: 10,
+    network: { strictSSL: true, timeout: 30000 },
+    cache: { enabled: false, ttl: 300000, maxSize: 100, persistToDisk: false, diskCachePath: '' },
     analysis: {
       includeDevDependencies: true,
       checkVulnerabilities: true,
-      checkLicenses: true,
+      skipOptionalPeerDeps: false,
+      excludePackages: [],
       offlineMode: false
     }
   };
   const mockProgressCallback = jest.fn();
 
+  // Files of the mocked project, by name; BaseAnalyzer looks them up with statSync
+  let projectFiles: Record<string, string>;
+
   beforeEach(() => {
     jest.clearAllMocks();
+    projectFiles = { 'package.json': JSON.stringify({ name: 'test-project', version: '1.0.0' }) };
+    (fs.statSync as jest.Mock).mockImplementation((filePath: string) => {
+      if (!(path.basename(filePath) in projectFiles)) throw new Error(`ENOENT: ${filePath}`);
+      return { isFile: () => true };
+    });
+    (fs.readFileSync as jest.Mock).mockImplementation((filePath: string) => {
+      if (!(path.basename(filePath) in projectFiles)) throw new Error(`ENOENT: ${filePath}`);
+      return projectFiles[path.basename(filePath)];
+    });
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
   });
 
   describe('constructor', () => {
@@ -60,28 +69,26 @@ describe('BaseAnalyzer', () => {
         }
       };
 
-      (fs.existsSync as jest.Mock).mockReturnValue(true);
-      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify(mockPackageJson));
+      projectFiles['package.json'] = JSON.stringify(mockPackageJson);
 
       const analyzer = new TestAnalyzer(mockProjectRoot, mockConfig);
       const result = (analyzer as any).loadPackageJson();
 
       expect(result).toEqual(mockPackageJson);
-      expect(fs.existsSync).toHaveBeenCalledWith(path.join(mockProjectRoot, 'package.json'));
+      expect(fs.statSync).toHaveBeenCalledWith(path.join(mockProjectRoot, 'package.json'));
     });
 
     it('should throw error if package.json does not exist', () => {
-      (fs.existsSync as jest.Mock).mockReturnValue(false);
-
       const analyzer = new TestAnalyzer(mockProjectRoot, mockConfig);
+      delete projectFiles['package.json'];
+
       expect(() => (analyzer as any).loadPackageJson()).toThrow('package.json not found');
     });
 
     it('should throw error if package.json is invalid JSON', () => {
-      (fs.existsSync as jest.Mock).mockReturnValue(true);
-      (fs.readFileSync as jest.Mock).mockReturnValue('invalid json');
-
       const analyzer = new TestAnalyzer(mockProjectRoot, mockConfig);
+      projectFiles['package.json'] = 'invalid json';
+
       expect(() => (analyzer as any).loadPackageJson()).toThrow();
     });
   });
@@ -120,10 +127,7 @@ describe('BaseAnalyzer', () => {
         dependencies: {}
       };
 
-      (fs.existsSync as jest.Mock).mockImplementation((filePath: string) => {
-        return filePath.includes('package-lock.json');
-      });
-      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify(mockLockFile));
+      projectFiles['package-lock.json'] = JSON.stringify(mockLockFile);
 
       const analyzer = new TestAnalyzer(mockProjectRoot, mockConfig);
       const result = (analyzer as any).loadLockFile();
@@ -132,20 +136,16 @@ describe('BaseAnalyzer', () => {
     });
 
     it('should load yarn.lock if it exists', () => {
-      (fs.existsSync as jest.Mock).mockImplementation((filePath: string) => {
-        return filePath.includes('yarn.lock');
-      });
-      (fs.readFileSync as jest.Mock).mockReturnValue('yarn lock file content');
+      projectFiles['yarn.lock'] = '# yarn lockfile v1\n\ntslib@^2.3.0:\n  version "2.6.2"\n';
 
       const analyzer = new TestAnalyzer(mockProjectRoot, mockConfig);
       const result = (analyzer as any).loadLockFile();
 
-      expect(result).toBe('yarn lock file content');
+      expect(result.lockfileVersion).toBe(3);
+      expect(result.packages).toBeDefined();
     });
 
     it('should return null if no lock file exists', () => {
-      (fs.existsSync as jest.Mock).mockReturnValue(false);
-
       const analyzer = new TestAnalyzer(mockProjectRoot, mockConfig);
       const result = (analyzer as any).loadLockFile();
 
@@ -172,8 +172,6 @@ describe('BaseAnalyzer', () => {
     });
 
     it('should return null if package is not installed', () => {
-      (fs.existsSync as jest.Mock).mockReturnValue(false);
-
       const analyzer = new TestAnalyzer(mockProjectRoot, mockConfig);
       const version = (analyzer as any).getInstalledVersion('non-existent-package');
 
@@ -0,0 +1,202 @@
+import { CompanionAlignmentAnalyzer } from '../../src/analyzers/CompanionAlignmentAnalyzer';
+import { AnalyzerConfig } from '../../src/types';
+import * as fs from 'fs';
+
+jest.mock('fs');
+
+describe('CompanionAlignmentAnalyzer', () => {
+  const mockProjectRoot = '/test/project';
+  const mockConfig: AnalyzerConfig = {
+    registry: 'https://registry.npmjs.org',
+    timeout: 10000,
+    retries: 3,
+    maxConcurrentRequests: 10,
+    network: { strictSSL: true, timeout: 30000 },
+    cache: { enabled: false, ttl: 300000, maxSize: 100, persistToDisk: false, diskCachePath: '' },
+    analysis: {
+      includeDevDependencies: true,
+      checkVulnerabilities: false,
+      skipOptionalPeerDeps: false,
+      excludePackages: [],
+      offlineMode: false,
+    },
+  };
+
+  const mockPackageJson = {
+    name: 'test-project',
+    version: '1.0.0',
+    dependencies: {
+      '@angular/core': '^17.3.0',
+      '@ngrx/effects': '^17.2.0',
+      '@ngrx/store': '^17.2.0',
+      '@ngx-translate/core': '^15.0.0',
+      rxjs: '~7.8.0',
+    },
+    devDependencies: {
+      '@angular-eslint/builder': '^17.3.0',
+      '@angular-eslint/eslint-plugin': '^17.3.0',
+    },
+  };
+
+  const version = (
+    name: string,
+    v: string,
+    fields: {
+      peerDependencies?: Record<string, string>;
+      dependencies?: Record<string, string>;
+    } = {}
+  ) => ({ name, version: v, ...fields });
+
+  const packument = (name: string, versions: Array<ReturnType<typeof version>>) => ({
+    name,
+    'dist-tags': { latest: versions[versions.length - 1].version },
+    versions: Object.fromEntries(versions.map(info => [info.version, info])),
+  });
+
+  const ngrx = (name: string) =>
+    packument(name, [
+      version(name, '17.2.0', { peerDependencies: { '@angular/core': '^17.0.0' } }),
+      version(name, '18.0.2', { peerDependencies: { '@angular/core': '^18.0.0' } }),
+      version(name, '18.1.1', { peerDependencies: { '@angular/core': '^18.0.0' } }),
+      version(name, '19.0.0', { peerDependencies: { '@angular/core': '^19.0.0' } }),
+    ]);
+
+  const registry = (overrides: Record<string, any> = {}) => ({
+    '@ngrx/effects': ngrx('@ngrx/effects'),
+    '@ngrx/store': ngrx('@ngrx/store'),
+    '@ngx-translate/core': packument('@ngx-translate/core', [
+      version('@ngx-translate/core', '15.0.0', { peerDependencies: { '@angular/core': '>=16' } }),
+      version('@ngx-translate/core', '16.0.3', { peerDependencies: { '@angular/core': '>=16' } }),
+    ]),
+    '@angular-eslint/builder': packument('@angular-eslint/builder', [
+      version('@angular-eslint/builder', '17.3.0', {
+        dependencies: { '@angular-devkit/core': '>= 17.0.0 < 18.0.0' },
+      }),
+      version('@angular-eslint/builder', '18.4.3', {
+        dependencies: { '@angular-devkit/core': '>= 18.0.0 < 19.0.0' },
+      }),
+    ]),
+    // The plugin declares no framework dependency and follows the builder
+    '@angular-eslint/eslint-plugin': packument('@angular-eslint/eslint-plugin', [
+      version('@angular-eslint/eslint-plugin', '17.3.0'),
+      version('@angular-eslint/eslint-plugin', '18.4.3'),
+    ]),
+    ...overrides,
+  });
+
+  const mockNpmClient = { getBulkPackageInfo: jest.fn() };
+
+  const createAnalyzer = (): CompanionAlignmentAnalyzer =>
+    new CompanionAlignmentAnalyzer(mockProjectRoot, mockConfig, undefined, mockNpmClient as any);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (fs.statSync as jest.Mock).mockImplementation((filePath: string) => ({
+      isFile: () => filePath.endsWith('package.json'),
+    }));
+    (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify(mockPackageJson));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('should move a lockstep family to one release that supports the target', async () => {
+    mockNpmClient.getBulkPackageInfo.mockResolvedValue(registry());
+
+    const alignments = await createAnalyzer().align('18');
+
+    const ngrxAlignment = alignments.find(alignment => alignment.ecosystem === 'NgRx');
+    expect(ngrxAlignment.packages.map(pkg => [pkg.package, pkg.recommended])).toEqual([
+      ['@ngrx/effects', '18.1.1'],
+      ['@ngrx/store', '18.1.1'],
+    ]);
+    expect(ngrxAlignment.installCommand).toBe(
+      'npm install @ngrx/effects@18.1.1 @ngrx/store@18.1.1'
+    );
+  });
+
+  it('should only pick versions every member of a lockstep family published', async () => {
+    const effects = ngrx('@ngrx/effects');
+    delete effects.versions['18.1.1'];
+    mockNpmClient.getBulkPackageInfo.mockResolvedValue(registry({ '@ngrx/effects': effects }));
+
+    const alignments = await createAnalyzer().align('18');
+
+    const ngrxAlignment = alignments.find(alignment => alignment.ecosystem === 'NgRx');
+    expect(ngrxAlignment.packages.every(pkg => pkg.recommended === '18.0.2')).toBe(true);
+  });
+
+  it('should follow framework dependencies when a package has no peer on Angular', async () => {
+    mockNpmClient.getBulkPackageInfo.mockResolvedValue(registry());
+
+    const alignments = await createAnalyzer().align('18');
+
+    const eslint = alignments.find(alignment => alignment.ecosystem === 'angular-eslint');
+    expect(eslint.packages).toEqual([
+      {
+        package: '@angular-eslint/builder',
+        current: '^17.3.0',
+        recommended: '18.4.3',
+        section: 'devDependencies',
+      },
+      {
+        package: '@angular-eslint/eslint-plugin',
+        current: '^17.3.0',
+        recommended: '18.4.3',
+        section: 'devDependencies',
+      },
+    ]);
+    expect(eslint.installCommand).toBe(
+      'npm install --save-dev @angular-eslint/builder@18.4.3 @angular-eslint/eslint-plugin@18.4.3'
+    );
+  });
+
+  it("should install with the project's package manager", async () => {
+    (fs.statSync as jest.Mock).mockImplementation((filePath: string) => ({
+      isFile: () => filePath.endsWith('package.json') || filePath.endsWith('yarn.lock'),
+    }));
+    (fs.readFileSync as jest.Mock).mockImplementation((filePath: string) =>
+      filePath.endsWith('yarn.lock') ? '# yarn lockfile v1\n' : JSON.stringify(mockPackageJson)
+    );
+    mockNpmClient.getBulkPackageInfo.mockResolvedValue(registry());
+
+    const alignments = await createAnalyzer().align('18');
+
+    expect(alignments.find(alignment => alignment.ecosystem === 'NgRx').installCommand).toBe(
+      'yarn add @ngrx/effects@18.1.1 @ngrx/store@18.1.1'
+    );
+    expect(
+      alignments.find(alignment => alignment.ecosystem === 'angular-eslint').installCommand
+    ).toBe('yarn add --dev @angular-eslint/builder@18.4.3 @angular-eslint/eslint-plugin@18.4.3');
+  });
+
+  it('should keep the newest release when an open peer range accepts the target', async () => {
+    mockNpmClient.getBulkPackageInfo.mockResolvedValue(registry());
+
+    const alignments = await createAnalyzer().align('18');
+
+    const translate = alignments.find(alignment => alignment.ecosystem === 'ngx-translate');
+    expect(translate.packages[0].recommended).toBe('16.0.3');
+  });
+
+  it('should explain when no release of a family supports the target', async () => {
+    mockNpmClient.getBulkPackageInfo.mockResolvedValue(registry());
+
+    const alignments = await createAnalyzer().align('20');
+
+    const ngrxAlignment = alignments.find(alignment => alignment.ecosystem === 'NgRx');
+    expect(ngrxAlignment.installCommand).toBeNull();
+    expect(ngrxAlignment.reason).toBe(
+      'No NgRx release supports Angular 20 for every installed package'
+    );
+  });
+
+  it('should report families whose registry metadata is missing', async () => {
+    const { '@ngrx/store': _store, ...partial } = registry();
+    mockNpmClient.getBulkPackageInfo.mockResolvedValue(partial);
+
+    const alignments = await createAnalyzer().align('18');
+
+    const ngrxAlignment = alignments.find(alignment => alignment.ecosystem === 'NgRx');
+    expect(ngrxAlignment.reason).toBe('Registry metadata unavailable for @ngrx/store');
+    expect(ngrxAlignment.packages.every(pkg => pkg.recommended === null)).toBe(true);
+  });
+});
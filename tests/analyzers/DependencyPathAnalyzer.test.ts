@@ -0,0 +1,127 @@
+import { DependencyPathAnalyzer } from '../../src/analyzers/DependencyPathAnalyzer';
+import { AnalyzerConfig } from '../../src/types';
+import * as fs from 'fs';
+
+jest.mock('fs');
+
+describe('DependencyPathAnalyzer', () => {
+  const mockProjectRoot = '/test/project';
+  const mockConfig: AnalyzerConfig = {
+    registry: 'https://registry.npmjs.org',
+    timeout: 10000,
+    retries: 3,
+    maxConcurrentRequests: 10,
+    network: { strictSSL: true, timeout: 30000 },
+    cache: { enabled: false, ttl: 300000, maxSize: 100, persistToDisk: false, diskCachePath: '' },
+    analysis: {
+      includeDevDependencies: true,
+      checkVulnerabilities: false,
+      skipOptionalPeerDeps: false,
+      excludePackages: [],
+      offlineMode: false
+    }
+  };
+
+  const mockPackageJson = {
+    name: 'test-project',
+    version: '1.0.0',
+    dependencies: {
+      '@angular/core': '^17.3.0',
+      'legacy-lib': '^1.0.0',
+      'rxjs': '~7.8.0'
+    }
+  };
+
+  const mockLockFile = {
+    name: 'test-project',
+    version: '1.0.0',
+    lockfileVersion: 3,
+    packages: {
+      '': mockPackageJson,
+      'node_modules/@angular/core': {
+        version: '17.3.0',
+        dependencies: { tslib: '^2.3.0' },
+        peerDependencies: { rxjs: '^6.5.3 || ^7.4.0', 'zone.js': '~0.14.0' },
+        peerDependenciesMeta: { 'zone.js': { optional: true } }
+      },
+      'node_modules/legacy-lib': {
+        version: '1.4.0',
+        dependencies: { tslib: '^1.14.0' },
+        peerDependencies: { '@angular/core': '^16.0.0' }
+      },
+      'node_modules/legacy-lib/node_modules/tslib': { version: '1.14.1' },
+      'node_modules/rxjs': { version: '7.8.1', dependencies: { tslib: '^2.1.0' } },
+      'node_modules/tslib': { version: '2.6.2' }
+    }
+  };
+
+  const createAnalyzer = (): DependencyPathAnalyzer =>
+    new DependencyPathAnalyzer(mockProjectRoot, mockConfig, undefined, {} as any);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (fs.statSync as jest.Mock).mockImplementation((filePath: string) => ({
+      isFile: () => filePath.endsWith('package.json') || filePath.endsWith('package-lock.json')
+    }));
+    (fs.readFileSync as jest.Mock).mockImplementation((filePath: string) =>
+      filePath.endsWith('package-lock.json')
+        ? JSON.stringify(mockLockFile)
+        : JSON.stringify(mockPackageJson)
+    );
+  });
+
+  it('should list every chain from the root to each copy', () => {
+    const explanation = createAnalyzer().explain('tslib');
+
+    expect(explanation.versions).toEqual(['1.14.1', '2.6.2']);
+    expect(
+      explanation.paths.map(path => path.map(step => `${step.name}@${step.version}`).join(' > '))
+    ).toEqual([
+      'test-project@1.0.0 > @angular/core@17.3.0 > tslib@2.6.2',
+      'test-project@1.0.0 > legacy-lib@1.4.0 > tslib@1.14.1',
+      'test-project@1.0.0 > rxjs@7.8.1 > tslib@2.6.2',
+      'test-project@1.0.0 > @angular/core@17.3.0 > rxjs@7.8.1 > tslib@2.6.2',
+      'test-project@1.0.0 > legacy-lib@1.4.0 > @angular/core@17.3.0 > tslib@2.6.2',
+      'test-project@1.0.0 > legacy-lib@1.4.0 > @angular/core@17.3.0 > rxjs@7.8.1 > tslib@2.6.2'
+    ]);
+    expect(explanation.truncated).toBe(false);
+  });
+
+  it('should record the declared range and dependency type of each step', () => {
+    const explanation = createAnalyzer().explain('@angular/core');
+
+    const viaLegacy = explanation.paths.find(path => path.length === 3);
+    expect(viaLegacy[1]).toEqual(
+      expect.objectContaining({ name: 'legacy-lib', range: '^1.0.0', type: 'dependencies' })
+    );
+    expect(viaLegacy[2]).toEqual(
+      expect.objectContaining({ name: '@angular/core', range: '^16.0.0', type: 'peerDependencies' })
+    );
+  });
+
+  it('should report the peer requirements along the way', () => {
+    const explanation = createAnalyzer().explain('@angular/core');
+
+    const viaLegacy = explanation.paths.find(path => path.length === 3);
+    expect(viaLegacy[1].peers).toEqual([
+      {
+        name: '@angular/core',
+        range: '^16.0.0',
+        version: '17.3.0',
+        optional: false,
+        satisfied: false
+      }
+    ]);
+    expect(viaLegacy[2].peers).toEqual([
+      { name: 'rxjs', range: '^6.5.3 || ^7.4.0', version: '7.8.1', optional: false, satisfied: true },
+      { name: 'zone.js', range: '~0.14.0', version: null, optional: true, satisfied: false }
+    ]);
+  });
+
+  it('should return no paths for packages that are not installed', () => {
+    const explanation = createAnalyzer().explain('left-pad');
+
+    expect(explanation.paths).toEqual([]);
+    expect(explanation.versions).toEqual([]);
+  });
+});
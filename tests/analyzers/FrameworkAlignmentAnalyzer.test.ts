@@ -0,0 +1,232 @@
+import { FrameworkAlignmentAnalyzer } from '../../src/analyzers/FrameworkAlignmentAnalyzer';
+import { AnalyzerConfig } from '../../src/types';
+import * as fs from 'fs';
+
+jest.mock('fs');
+
+describe('FrameworkAlignmentAnalyzer', () => {
+  const mockProjectRoot = '/test/project';
+  const mockConfig: AnalyzerConfig = {
+    registry: 'https://registry.npmjs.org',
+    timeout: 10000,
+    retries: 3,
+    maxConcurrentRequests: 10,
+    network: { strictSSL: true, timeout: 30000 },
+    cache: { enabled: false, ttl: 300000, maxSize: 100, persistToDisk: false, diskCachePath: '' },
+    analysis: {
+      includeDevDependencies: true,
+      checkVulnerabilities: false,
+      skipOptionalPeerDeps: false,
+      excludePackages: [],
+      offlineMode: false
+    }
+  };
+
+  const mockPackageJson = {
+    name: 'test-project',
+    version: '1.0.0',
+    dependencies: {
+      '@angular/animations': '^17.0.0',
+      '@angular/cdk': '^17.0.0',
+      '@angular/common': '^17.0.0',
+      '@angular/core': '^17.0.0',
+      '@angular/forms': '^17.0.0',
+      '@angular/material': '^17.0.0',
+      '@angular/router': '^16.2.0',
+      'rxjs': '~7.8.0'
+    },
+    devDependencies: {
+      '@angular/cli': '^17.0.0'
+    }
+  };
+
+  const mockLockFile = {
+    name: 'test-project',
+    version: '1.0.0',
+    lockfileVersion: 3,
+    packages: {
+      '': mockPackageJson,
+      'node_modules/@angular/animations': { version: '17.3.12' },
+      'node_modules/@angular/cdk': { version: '17.3.8' },
+      'node_modules/@angular/cli': { version: '17.3.8' },
+      'node_modules/@angular/common': { version: '17.3.12' },
+      'node_modules/@angular/core': { version: '17.3.12' },
+      'node_modules/@angular/forms': { version: '17.1.0' },
+      'node_modules/@angular/material': { version: '17.3.10' },
+      'node_modules/@angular/router': { version: '16.2.12' },
+      'node_modules/rxjs': { version: '7.8.1' }
+    }
+  };
+
+  const coreManifest = {
+    name: '@angular/core',
+    version: '17.3.12',
+    'ng-update': {
+      migrations: './schematics/migrations.json',
+      packageGroup: [
+        '@angular/core',
+        '@angular/animations',
+        '@angular/common',
+        '@angular/forms',
+        '@angular/router'
+      ]
+    }
+  };
+
+  const mockNpmClient = { getPackageInfo: jest.fn() };
+
+  const files = (extra: Record<string, unknown> = {}): Record<string, unknown> => ({
+    '/test/project/package.json': mockPackageJson,
+    '/test/project/package-lock.json': mockLockFile,
+    ...extra
+  });
+
+  const mockFiles = (contents: Record<string, unknown>): void => {
+    (fs.statSync as jest.Mock).mockImplementation((filePath: string) => ({
+      isFile: () => filePath in contents
+    }));
+    (fs.readFileSync as jest.Mock).mockImplementation((filePath: string) =>
+      JSON.stringify(contents[filePath])
+    );
+  };
+
+  const createAnalyzer = (): FrameworkAlignmentAnalyzer =>
+    new FrameworkAlignmentAnalyzer(mockProjectRoot, mockConfig, undefined, mockNpmClient as any);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockNpmClient.getPackageInfo.mockResolvedValue(null);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('should read the package group from the installed @angular/core', async () => {
+    mockFiles(files({ '/test/project/node_modules/@angular/core/package.json': coreManifest }));
+
+    const alignment = await createAnalyzer().checkAlignment();
+
+    expect(alignment.groups[0]).toEqual({
+      leader: '@angular/core',
+      version: '17.3.12',
+      packages: [
+        '@angular/animations',
+        '@angular/common',
+        '@angular/core',
+        '@angular/forms',
+        '@angular/router'
+      ],
+      source: 'ng-update'
+    });
+    expect(mockNpmClient.getPackageInfo).not.toHaveBeenCalledWith('@angular/core', { full: true });
+  });
+
+  it('should compare group members with the installed versions of the lock file', async () => {
+    mockFiles(files({ '/test/project/node_modules/@angular/core/package.json': coreManifest }));
+
+    const alignment = await createAnalyzer().checkAlignment();
+
+    const core = alignment.misaligned.filter(m => m.group === '@angular/core');
+    expect(core.map(m => [m.package, m.installed, m.expected, m.severity])).toEqual([
+      ['@angular/router', '16.2.12', '17.3.12', 'error'],
+      ['@angular/forms', '17.1.0', '17.3.12', 'warning']
+    ]);
+  });
+
+  it('should keep cdk and material in their own group on the major of core', async () => {
+    mockFiles(files({ '/test/project/node_modules/@angular/core/package.json': coreManifest }));
+
+    const alignment = await createAnalyzer().checkAlignment();
+
+    const material = alignment.groups.find(group => group.leader === '@angular/material');
+    expect(material.source).toBe('default');
+    expect(material.packages).toContain('@angular/cdk');
+    // cdk 17.3.8 differs from material 17.3.10 but not from core's major
+    expect(alignment.misaligned.find(m => m.package === '@angular/cdk')).toEqual(
+      expect.objectContaining({ expected: '17.3.10', group: '@angular/material', severity: 'warning' })
+    );
+    expect(alignment.misaligned.find(m => m.package === '@angular/material')).toBeUndefined();
+    expect(alignment.misaligned.find(m => m.package === '@angular/cli')).toBeUndefined();
+  });
+
+  it('should only hold framework tooling to the major of core', async () => {
+    const packageJson = {
+      ...mockPackageJson,
+      dependencies: {
+        ...mockPackageJson.dependencies,
+        '@angular/fire': '^7.6.0',
+        '@angular/flex-layout': '15.0.0-beta.42'
+      },
+      devDependencies: {
+        ...mockPackageJson.devDependencies,
+        '@angular-devkit/build-angular': '^16.2.0'
+      }
+    };
+    mockFiles(
+      files({
+        '/test/project/package.json': packageJson,
+        '/test/project/package-lock.json': {
+          ...mockLockFile,
+          packages: {
+            ...mockLockFile.packages,
+            '': packageJson,
+            'node_modules/@angular-devkit/build-angular': { version: '16.2.14' },
+            'node_modules/@angular/fire': { version: '7.6.1' },
+            'node_modules/@angular/flex-layout': { version: '15.0.0-beta.42' }
+          }
+        },
+        '/test/project/node_modules/@angular/core/package.json': coreManifest
+      })
+    );
+
+    const alignment = await createAnalyzer().checkAlignment();
+
+    expect(alignment.misaligned.find(m => m.package === '@angular-devkit/build-angular')).toEqual(
+      expect.objectContaining({ expected: '17.x', group: '@angular/core', severity: 'error' })
+    );
+    // Versioned on their own, left to the companion and compatibility checks
+    expect(alignment.misaligned.find(m => m.package === '@angular/fire')).toBeUndefined();
+    expect(alignment.misaligned.find(m => m.package === '@angular/flex-layout')).toBeUndefined();
+  });
+
+  it('should fetch ng-update metadata from the registry when node_modules is missing', async () => {
+    mockFiles(files());
+    mockNpmClient.getPackageInfo.mockImplementation(async (name: string) =>
+      name === '@angular/core'
+        ? {
+            name,
+            'dist-tags': { latest: '17.3.12' },
+            versions: {
+              '17.3.12': {
+                ...coreManifest,
+                'ng-update': {
+                  packageGroup: { '@angular/core': '17.3.12', '@angular/common': '17.3.12' }
+                }
+              }
+            }
+          }
+        : null
+    );
+
+    const alignment = await createAnalyzer().checkAlignment();
+
+    expect(mockNpmClient.getPackageInfo).toHaveBeenCalledWith('@angular/core', { full: true });
+    expect(alignment.groups[0].packages).toEqual(['@angular/common', '@angular/core']);
+    // Outside the group, only the major has to match
+    expect(alignment.misaligned.find(m => m.package === '@angular/forms')).toBeUndefined();
+    expect(alignment.misaligned.find(m => m.package === '@angular/router')).toEqual(
+      expect.objectContaining({ expected: '17.x', severity: 'error' })
+    );
+  });
+
+  it('should ignore an installed manifest that does not match the lock file', async () => {
+    mockFiles(
+      files({
+        '/test/project/node_modules/@angular/core/package.json': { ...coreManifest, version: '17.0.0' }
+      })
+    );
+
+    const alignment = await createAnalyzer().checkAlignment();
+
+    expect(alignment.groups[0].source).toBe('default');
+    expect(mockNpmClient.getPackageInfo).toHaveBeenCalledWith('@angular/core', { full: true });
+  });
+});
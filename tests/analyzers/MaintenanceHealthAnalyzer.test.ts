@@ -0,0 +1,227 @@
+import { MaintenanceHealthAnalyzer } from '../../src/analyzers/MaintenanceHealthAnalyzer';
+import { AnalyzerConfig } from '../../src/types';
+import * as fs from 'fs';
+
+jest.mock('fs');
+
+describe('MaintenanceHealthAnalyzer', () => {
+  const mockProjectRoot = '/test/project';
+  const mockConfig: AnalyzerConfig = {
+    registry: 'https://registry.npmjs.org',
+    timeout: 10000,
+    retries: 3,
+    maxConcurrentRequests: 10,
+    network: { strictSSL: true, timeout: 30000 },
+    cache: { enabled: false, ttl: 300000, maxSize: 100, persistToDisk: false, diskCachePath: '' },
+    analysis: {
+      includeDevDependencies: true,
+      checkVulnerabilities: false,
+      skipOptionalPeerDeps: false,
+      excludePackages: [],
+      offlineMode: false,
+    },
+  };
+
+  const mockPackageJson = {
+    name: 'test-project',
+    version: '1.0.0',
+    dependencies: {
+      '@angular/core': '^18.2.0',
+      '@angular/flex-layout': '^15.0.0-beta.42',
+      'ngx-charts-legacy': '^3.0.0',
+      'ngx-toastr': '^19.0.0',
+      'old-popover': '^2.1.0',
+      lodash: '^4.17.21',
+    },
+    devDependencies: {
+      'tslint-config': '^1.0.0',
+    },
+  };
+
+  const NOW = new Date('2025-06-01T00:00:00.000Z');
+
+  const packument = (
+    name: string,
+    releases: Array<{
+      version: string;
+      date: string;
+      angular?: string;
+      deprecated?: string;
+    }>
+  ) => ({
+    name,
+    'dist-tags': { latest: releases[releases.length - 1].version },
+    versions: Object.fromEntries(
+      releases.map(release => [
+        release.version,
+        {
+          name,
+          version: release.version,
+          ...(release.angular ? { peerDependencies: { '@angular/core': release.angular } } : {}),
+          ...(release.deprecated ? { deprecated: release.deprecated } : {}),
+        },
+      ])
+    ),
+    time: {
+      created: releases[0].date,
+      modified: '2025-05-30T00:00:00.000Z',
+      ...Object.fromEntries(releases.map(release => [release.version, release.date])),
+    },
+  });
+
+  const registry = {
+    'ngx-charts-legacy': packument('ngx-charts-legacy', [
+      { version: '3.0.0', date: '2021-03-01T00:00:00.000Z', angular: '^12.0.0' },
+      {
+        version: '3.1.0',
+        date: '2022-01-10T00:00:00.000Z',
+        angular: '^13.0.0',
+        deprecated: 'No longer maintained, use @swimlane/ngx-charts instead.',
+      },
+    ]),
+    'ngx-toastr': packument('ngx-toastr', [
+      { version: '19.0.0', date: '2024-06-01T00:00:00.000Z', angular: '>=16.0.0-0' },
+    ]),
+    'old-popover': packument('old-popover', [
+      {
+        version: '2.1.0',
+        date: '2024-11-01T00:00:00.000Z',
+        angular: '>=15.0.0',
+        deprecated: 'Critical bug, please upgrade to 2.2.0',
+      },
+      { version: '2.2.0', date: '2024-12-01T00:00:00.000Z', angular: '>=15.0.0' },
+    ]),
+    '@angular/flex-layout': packument('@angular/flex-layout', [
+      {
+        version: '15.0.0-beta.42',
+        date: '2022-11-17T00:00:00.000Z',
+        angular: '^15.0.0',
+        deprecated: 'This package has been deprecated. Please see https://blog.angular.io/',
+      },
+    ]),
+    lodash: packument('lodash', [{ version: '4.17.21', date: '2021-02-20T00:00:00.000Z' }]),
+    'tslint-config': packument('tslint-config', [
+      {
+        version: '1.0.0',
+        date: '2024-09-01T00:00:00.000Z',
+        deprecated: 'TSLint is deprecated, please migrate to the new version of this config',
+      },
+    ]),
+  };
+
+  const mockNpmClient = { getBulkPackageInfo: jest.fn() };
+
+  const createAnalyzer = (): MaintenanceHealthAnalyzer =>
+    new MaintenanceHealthAnalyzer(mockProjectRoot, mockConfig, undefined, mockNpmClient as any);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (fs.statSync as jest.Mock).mockImplementation((filePath: string) => ({
+      isFile: () => filePath.endsWith('package.json'),
+    }));
+    (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify(mockPackageJson));
+    mockNpmClient.getBulkPackageInfo.mockResolvedValue(registry);
+  });
+
+  it('should request full packuments for third-party dependencies only', async () => {
+    await createAnalyzer().assess('19', { now: NOW });
+
+    expect(mockNpmClient.getBulkPackageInfo).toHaveBeenCalledWith(
+      [
+        '@angular/flex-layout',
+        'ngx-charts-legacy',
+        'ngx-toastr',
+        'old-popover',
+        'lodash',
+        'tslint-config',
+      ],
+      { full: true }
+    );
+  });
+
+  it('should rate deprecated packages as high risk and name their replacement', async () => {
+    const health = await createAnalyzer().assess('19', { now: NOW });
+
+    const charts = health.packages.find(entry => entry.package === 'ngx-charts-legacy');
+    expect(charts).toEqual(
+      expect.objectContaining({
+        risk: 'high',
+        deprecated: 'No longer maintained, use @swimlane/ngx-charts instead.',
+        replacement: '@swimlane/ngx-charts',
+        lastPublish: '2022-01-10T00:00:00.000Z',
+        supportsRecentAngular: false,
+      })
+    );
+    expect(charts.reasons).toEqual([
+      'Deprecated on npm: No longer maintained, use @swimlane/ngx-charts instead.',
+      'No release for 40 months',
+      'No release supports Angular 17, 18, 19',
+    ]);
+  });
+
+  it('should not invent a replacement when the message names none', async () => {
+    const health = await createAnalyzer().assess('19', { now: NOW });
+
+    const tslint = health.packages.find(entry => entry.package === 'tslint-config');
+    expect(tslint.risk).toBe('high');
+    expect(tslint.replacement).toBeUndefined();
+  });
+
+  it('should rate a deprecated installed version below a deprecated package', async () => {
+    const health = await createAnalyzer().assess('19', { now: NOW });
+
+    const popover = health.packages.find(entry => entry.package === 'old-popover');
+    expect(popover.risk).toBe('medium');
+    expect(popover.reasons).toEqual([
+      'Installed version 2.1.0 is deprecated: Critical bug, please upgrade to 2.2.0',
+    ]);
+  });
+
+  it('should flag packages without a release for the configured number of months', async () => {
+    const health = await createAnalyzer().assess('19', { now: NOW, staleAfterMonths: 12 });
+
+    const lodash = health.packages.find(entry => entry.package === 'lodash');
+    expect(lodash).toEqual(
+      expect.objectContaining({
+        risk: 'medium',
+        monthsSinceLastPublish: 51,
+        // lodash does not depend on Angular
+        supportsRecentAngular: null,
+      })
+    );
+    expect(health.packages.find(entry => entry.package === 'ngx-toastr').risk).toBe('low');
+  });
+
+  it('should sort packages by risk', async () => {
+    const health = await createAnalyzer().assess('19', { now: NOW });
+
+    expect(health.recentMajors).toEqual([17, 18, 19]);
+    expect(health.packages.map(entry => [entry.package, entry.risk])).toEqual([
+      ['@angular/flex-layout', 'high'],
+      ['ngx-charts-legacy', 'high'],
+      ['tslint-config', 'high'],
+      ['lodash', 'medium'],
+      ['old-popover', 'medium'],
+      ['ngx-toastr', 'low'],
+    ]);
+  });
+
+  it('should leave the release date unknown when the registry omits it', async () => {
+    const { time: _time, ...abbreviated } = registry['ngx-toastr'];
+    // Also moved by deprecations and dist-tag edits, it does not date a release
+    mockNpmClient.getBulkPackageInfo.mockResolvedValue({
+      'ngx-toastr': { ...abbreviated, modified: '2025-05-30T00:00:00.000Z' },
+    });
+
+    const health = await createAnalyzer().assess('19', { now: NOW });
+
+    expect(health.packages).toEqual([
+      expect.objectContaining({
+        package: 'ngx-toastr',
+        risk: 'low',
+        lastPublish: null,
+        monthsSinceLastPublish: null,
+      }),
+    ]);
+  });
+});
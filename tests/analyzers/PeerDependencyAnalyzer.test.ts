@@ -10,12 +10,16 @@ describe('PeerDependencyAnalyzer', () => {
   const mockProjectRoot = '/test/project';
   const mockConfig: AnalyzerConfig = {
     registry: 'https://registry.npmjs.org',
-    cache: { enabled: true, ttl: 300000, maxSize: 100 },
-    network: { timeout: 30000, retries: 3, retryDelay: 1000 },
+    timeout: 10000,
+    retries: 3,
+    maxConcurrentRequests: 10,
+    network: { strictSSL: true, timeout: 30000 },
+    cache: { enabled: false, ttl: 300000, maxSize: 100, persistToDisk: false, diskCachePath: '' },
     analysis: {
       includeDevDependencies: true,
       checkVulnerabilities: true,
-      checkLicenses: true,
+      skipOptionalPeerDeps: false,
+      excludePackages: [],
       offlineMode: false
     }
   };
@@ -34,7 +38,23 @@ describe('PeerDependencyAnalyzer', () => {
 
   const mockNpmClient = {
     getPackageInfo: jest.fn(),
-    getLatestVersion: jest.fn()
+    getLatestVersion: jest.fn(),
+    // The analyzer fetches every package at once, each lookup goes through getPackageInfo
+    getBulkPackageInfo: jest.fn(async (names: string[]) => {
+      const infos: Record<string, any> = {};
+      for (const name of names) {
+        const info = await mockNpmClient.getPackageInfo(name).catch(() => null);
+        if (info) infos[name] = info;
+      }
+      return infos;
+    })
+  };
+
+  // BaseAnalyzer looks files up with statSync: the project only has a package.json
+  const mockProjectFiles = () => {
+    (fs.statSync as jest.Mock).mockImplementation((filePath: string) => ({
+      isFile: () => filePath.endsWith('package.json')
+    }));
   };
 
   beforeEach(() => {
@@ -42,7 +62,7 @@ describe('PeerDependencyAnalyzer', () => {
     (NpmRegistryClient as jest.MockedClass<typeof NpmRegistryClient>).mockImplementation(
       () => mockNpmClient as any
     );
-    (fs.existsSync as jest.Mock).mockReturnValue(true);
+    mockProjectFiles();
     (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify(mockPackageJson));
   });
 
@@ -90,13 +110,13 @@ describe('PeerDependencyAnalyzer', () => {
             package: '@angular/core',
             requiredBy: '@angular/common',
             requiredVersion: '^17.0.0',
-            optional: false
+            severity: 'error'
           }),
           expect.objectContaining({
             package: 'tslib',
             requiredBy: '@angular/common',
             requiredVersion: '^2.3.0',
-            optional: false
+            severity: 'error'
           })
         ])
       );
@@ -130,7 +150,7 @@ describe('PeerDependencyAnalyzer', () => {
 
       const optionalDep = results.missingPeerDeps.find(dep => dep.package === 'optional-dep');
       expect(optionalDep).toBeDefined();
-      expect(optionalDep?.optional).toBe(true);
+      expect(optionalDep?.severity).toBe('warning');
     });
 
     it('should not report peer deps that are already installed', async () => {
@@ -162,6 +182,7 @@ describe('PeerDependencyAnalyzer', () => {
       });
 
       const simplePackageJson = {
+        name: 'test-project',
         dependencies: {
           'simple-package': '^1.0.0'
         }
@@ -218,4 +239,164 @@ describe('PeerDependencyAnalyzer', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('target compatibility', () => {
+    const chartsLibrary = {
+      name: 'ngx-charts-lib',
+      versions: {
+        '3.0.0': {
+          name: 'ngx-charts-lib',
+          version: '3.0.0',
+          peerDependencies: { '@angular/core': '^17.0.0' }
+        },
+        '3.1.0': {
+          name: 'ngx-charts-lib',
+          version: '3.1.0',
+          peerDependencies: { '@angular/core': '>=17.0.0' }
+        },
+        '4.0.0': {
+          name: 'ngx-charts-lib',
+          version: '4.0.0',
+          peerDependencies: { '@angular/core': '>=18.1.0' }
+        }
+      }
+    };
+
+    const analyze = (installed: string, targetAngularVersion: string) => {
+      (fs.readFileSync as jest.Mock).mockReturnValue(
+        JSON.stringify({
+          name: 'test-project',
+          version: '1.0.0',
+          dependencies: { '@angular/core': '17.3.0', 'ngx-charts-lib': installed }
+        })
+      );
+      const npmClient = {
+        getBulkPackageInfo: jest.fn().mockResolvedValue({ 'ngx-charts-lib': chartsLibrary })
+      };
+      return new PeerDependencyAnalyzer(
+        mockProjectRoot,
+        { ...mockConfig, targetAngularVersion },
+        undefined,
+        npmClient as any
+      ).analyze();
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    it('should accept a peer range that starts after the first release of a major target', async () => {
+      const results = await analyze('4.0.0', '18');
+
+      expect(results.incompatibleVersions).toEqual([]);
+    });
+
+    it('should still check exact targets against the range', async () => {
+      const results = await analyze('4.0.0', '18.0.0');
+
+      expect(results.incompatibleVersions).toEqual([
+        expect.objectContaining({ package: 'ngx-charts-lib', severity: 'error' })
+      ]);
+    });
+
+    it('should propose the first release whose range covers a major target', async () => {
+      const results = await analyze('3.0.0', '18');
+
+      expect(results.incompatibleVersions).toEqual([
+        expect.objectContaining({ package: 'ngx-charts-lib', requiredVersion: '3.1.0' })
+      ]);
+    });
+  });
+
+  describe('optional peer dependencies', () => {
+    const optionalConfig: AnalyzerConfig = {
+      registry: 'https://registry.npmjs.org',
+      timeout: 10000,
+      retries: 3,
+      maxConcurrentRequests: 10,
+      network: { strictSSL: true, timeout: 30000 },
+      cache: { enabled: false, ttl: 300000, maxSize: 100, persistToDisk: false, diskCachePath: '' },
+      analysis: {
+        includeDevDependencies: true,
+        checkVulnerabilities: false,
+        skipOptionalPeerDeps: false,
+        excludePackages: [],
+        offlineMode: false
+      }
+    };
+
+    const ssrLibrary = {
+      name: 'ngx-ssr-lib',
+      versions: {
+        '2.0.0': {
+          name: 'ngx-ssr-lib',
+          version: '2.0.0',
+          peerDependencies: {
+            '@angular/core': '^17.0.0',
+            '@angular/platform-server': '^17.0.0'
+          },
+          peerDependenciesMeta: {
+            '@angular/platform-server': { optional: true }
+          }
+        }
+      }
+    };
+
+    const setPackageJson = (dependencies: Record<string, string>) => {
+      (fs.readFileSync as jest.Mock).mockReturnValue(
+        JSON.stringify({ name: 'test-project', version: '1.0.0', dependencies })
+      );
+    };
+
+    const analyze = (config: AnalyzerConfig = optionalConfig) => {
+      const npmClient = {
+        getBulkPackageInfo: jest.fn().mockResolvedValue({ 'ngx-ssr-lib': ssrLibrary })
+      };
+      return new PeerDependencyAnalyzer(mockProjectRoot, config, undefined, npmClient as any).analyze();
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    it('should report absent optional peers as warnings', async () => {
+      setPackageJson({ '@angular/core': '17.0.0', 'ngx-ssr-lib': '2.0.0' });
+
+      const results = await analyze();
+
+      expect(results.missingPeerDeps).toEqual([
+        {
+          package: '@angular/platform-server',
+          requiredBy: 'ngx-ssr-lib',
+          requiredVersion: '^17.0.0',
+          severity: 'warning'
+        }
+      ]);
+    });
+
+    it('should skip absent optional peers when skipOptionalPeerDeps is set', async () => {
+      setPackageJson({ '@angular/core': '17.0.0', 'ngx-ssr-lib': '2.0.0' });
+
+      const results = await analyze({
+        ...optionalConfig,
+        analysis: { ...optionalConfig.analysis, skipOptionalPeerDeps: true }
+      });
+
+      expect(results.missingPeerDeps).toEqual([]);
+    });
+
+    it('should still check the version of optional peers that are installed', async () => {
+      setPackageJson({
+        '@angular/core': '17.0.0',
+        '@angular/platform-server': '16.2.0',
+        'ngx-ssr-lib': '2.0.0'
+      });
+
+      const results = await analyze();
+
+      expect(results.missingPeerDeps).toEqual([
+        expect.objectContaining({ package: '@angular/platform-server', severity: 'error' })
+      ]);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { UpgradeResolver } from '../../src/analyzers/UpgradeResolver';
+import { AnalyzerConfig } from '../../src/types';
+import * as fs from 'fs';
+
+jest.mock('fs');
+
+describe('UpgradeResolver', () => {
+  const mockProjectRoot = '/test/project';
+  const mockConfig: AnalyzerConfig = {
+    registry: 'https://registry.npmjs.org',
+    timeout: 10000,
+    retries: 3,
+    maxConcurrentRequests: 10,
+    network: { strictSSL: true, timeout: 30000 },
+    cache: { enabled: false, ttl: 300000, maxSize: 100, persistToDisk: false, diskCachePath: '' },
+    analysis: {
+      includeDevDependencies: true,
+      checkVulnerabilities: false,
+      skipOptionalPeerDeps: false,
+      excludePackages: [],
+      offlineMode: false,
+    },
+  };
+
+  const mockPackageJson = {
+    name: 'test-project',
+    version: '1.0.0',
+    dependencies: {
+      '@angular/common': '^17.3.0',
+      '@angular/core': '^17.3.0',
+      'ngx-charts-lib': '~2.0.0',
+      rxjs: '~7.8.0',
+    },
+  };
+
+  const version = (name: string, v: string, peerDependencies?: Record<string, string>) => ({
+    name,
+    version: v,
+    peerDependencies,
+  });
+
+  const registry = (overrides: Record<string, any> = {}) => ({
+    '@angular/core': {
+      name: '@angular/core',
+      versions: {
+        '17.3.0': version('@angular/core', '17.3.0', { rxjs: '^6.5.3 || ^7.4.0' }),
+        '18.1.0': version('@angular/core', '18.1.0', { rxjs: '^6.5.3 || ^7.4.0' }),
+        '18.2.0': version('@angular/core', '18.2.0', { rxjs: '^6.5.3 || ^7.4.0' }),
+      },
+    },
+    '@angular/common': {
+      name: '@angular/common',
+      versions: {
+        '17.3.0': version('@angular/common', '17.3.0', { '@angular/core': '17.3.0' }),
+        '18.1.0': version('@angular/common', '18.1.0', { '@angular/core': '18.1.0' }),
+        '18.2.0': version('@angular/common', '18.2.0', { '@angular/core': '18.2.0' }),
+      },
+    },
+    'ngx-charts-lib': {
+      name: 'ngx-charts-lib',
+      versions: {
+        '2.0.0': version('ngx-charts-lib', '2.0.0', { '@angular/core': '^17.0.0' }),
+        '2.1.0': version('ngx-charts-lib', '2.1.0', { '@angular/core': '^17.0.0' }),
+        '3.0.0': version('ngx-charts-lib', '3.0.0', { '@angular/core': '^17.0.0 || ^18.0.0' }),
+      },
+    },
+    rxjs: {
+      name: 'rxjs',
+      versions: { '7.8.1': version('rxjs', '7.8.1') },
+    },
+    ...overrides,
+  });
+
+  const mockNpmClient = { getBulkPackageInfo: jest.fn() };
+
+  const createResolver = (): UpgradeResolver =>
+    new UpgradeResolver(mockProjectRoot, mockConfig, undefined, mockNpmClient as any);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (fs.statSync as jest.Mock).mockImplementation((filePath: string) => ({
+      isFile: () => filePath.endsWith('package.json'),
+    }));
+    (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify(mockPackageJson));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('should propose a package.json patch where every peer dependency holds', async () => {
+    mockNpmClient.getBulkPackageInfo.mockResolvedValue(registry());
+
+    const resolution = await createResolver().resolve('18');
+
+    expect(resolution.satisfiable).toBe(true);
+    expect(resolution.packageJsonPatch).toEqual({
+      dependencies: {
+        '@angular/common': '^18.2.0',
+        '@angular/core': '^18.2.0',
+        'ngx-charts-lib': '~3.0.0',
+      },
+    });
+    expect(resolution.changes.map(change => change.package)).not.toContain('rxjs');
+  });
+
+  it('should step back to an older framework patch when a library pins it', async () => {
+    mockNpmClient.getBulkPackageInfo.mockResolvedValue(
+      registry({
+        'ngx-charts-lib': {
+          name: 'ngx-charts-lib',
+          versions: {
+            '2.0.0': version('ngx-charts-lib', '2.0.0', { '@angular/core': '^17.0.0' }),
+            '3.0.0': version('ngx-charts-lib', '3.0.0', { '@angular/core': '~18.1.0' }),
+          },
+        },
+      })
+    );
+
+    const resolution = await createResolver().resolve('18');
+
+    expect(resolution.packageJsonPatch.dependencies).toEqual({
+      '@angular/common': '^18.1.0',
+      '@angular/core': '^18.1.0',
+      'ngx-charts-lib': '~3.0.0',
+    });
+  });
+
+  it('should explain which constraint cannot be satisfied', async () => {
+    mockNpmClient.getBulkPackageInfo.mockResolvedValue(
+      registry({
+        'ngx-charts-lib': {
+          name: 'ngx-charts-lib',
+          versions: {
+            '2.0.0': version('ngx-charts-lib', '2.0.0', { '@angular/core': '^17.0.0' }),
+            '2.1.0': version('ngx-charts-lib', '2.1.0', { '@angular/core': '^16.0.0 || ^17.0.0' }),
+          },
+        },
+      })
+    );
+
+    const resolution = await createResolver().resolve('18');
+
+    expect(resolution.satisfiable).toBe(false);
+    expect(resolution.packageJsonPatch).toEqual({});
+    expect(resolution.unsatisfiable.package).toBe('ngx-charts-lib');
+    expect(resolution.unsatisfiable.constraints[0]).toBe(
+      'ngx-charts-lib@2.1.0 requires @angular/core ^16.0.0 || ^17.0.0 (got 18.1.0)'
+    );
+  });
+
+  it('should report a framework package without a release for the target major', async () => {
+    mockNpmClient.getBulkPackageInfo.mockResolvedValue(registry());
+
+    const resolution = await createResolver().resolve('19');
+
+    expect(resolution.satisfiable).toBe(false);
+    expect(resolution.unsatisfiable.reason).toBe(
+      'No published version of @angular/common targets Angular 19'
+    );
+  });
+
+  it('should resolve independently versioned @angular packages by their peer range', async () => {
+    (fs.readFileSync as jest.Mock).mockReturnValue(
+      JSON.stringify({
+        ...mockPackageJson,
+        dependencies: { ...mockPackageJson.dependencies, '@angular/fire': '^7.6.0' },
+      })
+    );
+    mockNpmClient.getBulkPackageInfo.mockResolvedValue(
+      registry({
+        // Versioned on its own: no release in the 18 major, 7.7.0 supports Angular 18
+        '@angular/fire': {
+          name: '@angular/fire',
+          versions: {
+            '7.6.1': version('@angular/fire', '7.6.1', { '@angular/core': '^16.0.0 || ^17.0.0' }),
+            '7.7.0': version('@angular/fire', '7.7.0', { '@angular/core': '^17.0.0 || ^18.0.0' }),
+          },
+        },
+      })
+    );
+
+    const resolution = await createResolver().resolve('18');
+
+    expect(resolution.satisfiable).toBe(true);
+    expect(resolution.changes.map(change => change.package)).not.toContain('@angular/fire');
+  });
+
+  it('should start from the versions chosen by a previous hop', async () => {
+    mockNpmClient.getBulkPackageInfo.mockResolvedValue(registry());
+
+    const resolution = await createResolver().resolve('18', { 'ngx-charts-lib': '~3.0.0' });
+
+    expect(resolution.satisfiable).toBe(true);
+    expect(resolution.changes.map(change => change.package)).toEqual([
+      '@angular/common',
+      '@angular/core',
+    ]);
+  });
+
+  it('should land on an exact prerelease target even when stable releases exist', async () => {
+    const registryWithRc = registry();
+    registryWithRc['@angular/core'].versions['18.3.0-rc.1'] = version(
+      '@angular/core',
+      '18.3.0-rc.1',
+      { rxjs: '^6.5.3 || ^7.4.0' }
+    );
+    registryWithRc['@angular/common'].versions['18.3.0-rc.1'] = version(
+      '@angular/common',
+      '18.3.0-rc.1',
+      { '@angular/core': '18.3.0-rc.1' }
+    );
+    mockNpmClient.getBulkPackageInfo.mockResolvedValue(registryWithRc);
+
+    const resolution = await createResolver().resolve('18.3.0-rc.1');
+
+    expect(resolution.satisfiable).toBe(true);
+    expect(resolution.packageJsonPatch.dependencies).toEqual({
+      '@angular/common': '^18.3.0-rc.1',
+      '@angular/core': '^18.3.0-rc.1',
+      'ngx-charts-lib': '~3.0.0',
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { VersionConflictAnalyzer } from '../../src/analyzers/VersionConflictAnalyzer';
+import { AnalyzerConfig } from '../../src/types';
+import * as fs from 'fs';
+
+jest.mock('fs');
+
+describe('VersionConflictAnalyzer', () => {
+  const mockProjectRoot = '/test/project';
+  const mockConfig: AnalyzerConfig = {
+    registry: 'https://registry.npmjs.org',
+    timeout: 10000,
+    retries: 3,
+    maxConcurrentRequests: 10,
+    network: { strictSSL: true, timeout: 30000 },
+    cache: { enabled: false, ttl: 300000, maxSize: 100, persistToDisk: false, diskCachePath: '' },
+    analysis: {
+      includeDevDependencies: true,
+      checkVulnerabilities: false,
+      skipOptionalPeerDeps: false,
+      excludePackages: [],
+      offlineMode: false
+    }
+  };
+
+  const mockPackageJson = {
+    name: 'test-project',
+    version: '1.0.0',
+    dependencies: {
+      '@angular/core': '^17.3.0',
+      'legacy-lib': '^1.0.0',
+      'rxjs': '~7.8.0'
+    }
+  };
+
+  const mockLockFile = {
+    name: 'test-project',
+    version: '1.0.0',
+    lockfileVersion: 3,
+    packages: {
+      '': mockPackageJson,
+      'node_modules/@angular/core': {
+        version: '17.3.0',
+        dependencies: { tslib: '^2.3.0' },
+        peerDependencies: { rxjs: '^6.5.3 || ^7.4.0' }
+      },
+      'node_modules/legacy-lib': {
+        version: '1.4.0',
+        dependencies: { '@angular/core': '^16.0.0', 'semver': '^6.0.0' }
+      },
+      'node_modules/legacy-lib/node_modules/@angular/core': {
+        version: '16.2.12',
+        dependencies: { tslib: '^2.3.0' }
+      },
+      'node_modules/legacy-lib/node_modules/semver': { version: '6.3.1' },
+      'node_modules/rxjs': { version: '7.8.1', dependencies: { tslib: '^2.1.0' } },
+      'node_modules/semver': { version: '7.6.0' },
+      'node_modules/tslib': { version: '2.6.2' }
+    }
+  };
+
+  const createAnalyzer = (config: AnalyzerConfig = mockConfig): VersionConflictAnalyzer =>
+    new VersionConflictAnalyzer(mockProjectRoot, config, undefined, {} as any);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (fs.statSync as jest.Mock).mockImplementation((filePath: string) => ({
+      isFile: () => filePath.endsWith('package.json') || filePath.endsWith('package-lock.json')
+    }));
+    (fs.readFileSync as jest.Mock).mockImplementation((filePath: string) =>
+      filePath.endsWith('package-lock.json')
+        ? JSON.stringify(mockLockFile)
+        : JSON.stringify(mockPackageJson)
+    );
+  });
+
+  it('should report packages installed at more than one version', async () => {
+    const result = await createAnalyzer().analyze();
+
+    expect(result.conflicts.map(c => c.package)).toEqual(['@angular/core', 'semver']);
+  });
+
+  it('should flag Angular runtime duplicates as errors', async () => {
+    const result = await createAnalyzer().analyze();
+
+    const core = result.conflicts.find(c => c.package === '@angular/core');
+    expect(core.severity).toBe('error');
+    expect(result.conflicts.find(c => c.package === 'semver').severity).toBe('warning');
+  });
+
+  it('should list the dependency chain that pulled each copy', async () => {
+    const result = await createAnalyzer().analyze();
+
+    const core = result.conflicts.find(c => c.package === '@angular/core');
+    expect(core.versions).toEqual(
+      expect.arrayContaining([
+        {
+          version: '17.3.0',
+          requiredBy: ['test-project'],
+          paths: ['node_modules/@angular/core']
+        },
+        {
+          version: '16.2.12',
+          requiredBy: ['test-project > legacy-lib@1.4.0'],
+          paths: ['node_modules/legacy-lib/node_modules/@angular/core']
+        }
+      ])
+    );
+  });
+
+  it('should skip excluded packages', async () => {
+    const config = {
+      ...mockConfig,
+      analysis: { ...mockConfig.analysis, excludePackages: ['semver'] }
+    };
+
+    const result = await createAnalyzer(config).analyze();
+
+    expect(result.conflicts.map(c => c.package)).toEqual(['@angular/core']);
+  });
+});
@@ -0,0 +1,190 @@
+import { PnpmLockParser } from '../../src/parsers/PnpmLockParser';
+import { PackageInfo } from '../../src/types';
+
+// The global setup mocks yaml, pnpm lock files need the real parser
+jest.unmock('yaml');
+
+describe('PnpmLockParser', () => {
+  const rootPackage: PackageInfo = {
+    name: 'test-project',
+    version: '1.0.0',
+    dependencies: {
+      '@angular/cdk': '^17.0.0',
+      '@angular/core': '^17.0.0',
+      'rxjs': '~7.8.0'
+    }
+  };
+
+  describe('v9 format', () => {
+    const lock = `lockfileVersion: '9.0'
+
+settings:
+  autoInstallPeers: true
+
+importers:
+
+  .:
+    dependencies:
+      '@angular/cdk':
+        specifier: ^17.0.0
+        version: 17.3.0(@angular/common@17.3.0(@angular/core@17.3.0(rxjs@7.8.1))(rxjs@7.8.1))(@angular/core@17.3.0(rxjs@7.8.1))(rxjs@7.8.1)
+      '@angular/core':
+        specifier: ^17.0.0
+        version: 17.3.0(rxjs@7.8.1)
+      rxjs:
+        specifier: ~7.8.0
+        version: 7.8.1
+
+  libs/legacy:
+    dependencies:
+      rxjs:
+        specifier: ^6.6.0
+        version: 6.6.7
+
+packages:
+
+  '@angular/cdk@17.3.0':
+    resolution: {integrity: sha512-cdk}
+    peerDependencies:
+      '@angular/common': ^17.0.0 || ^18.0.0
+      '@angular/core': ^17.0.0 || ^18.0.0
+      rxjs: ^6.5.3 || ^7.4.0
+
+  '@angular/common@17.3.0':
+    resolution: {integrity: sha512-common}
+    peerDependencies:
+      '@angular/core': 17.3.0
+      rxjs: ^6.5.3 || ^7.4.0
+
+  '@angular/core@17.3.0':
+    resolution: {integrity: sha512-core}
+    peerDependencies:
+      rxjs: ^6.5.3 || ^7.4.0
+
+  rxjs@6.6.7:
+    resolution: {integrity: sha512-rxjs6}
+
+  rxjs@7.8.1:
+    resolution: {integrity: sha512-rxjs7}
+
+  tslib@2.6.2:
+    resolution: {integrity: sha512-tslib}
+
+snapshots:
+
+  '@angular/cdk@17.3.0(@angular/common@17.3.0(@angular/core@17.3.0(rxjs@7.8.1))(rxjs@7.8.1))(@angular/core@17.3.0(rxjs@7.8.1))(rxjs@7.8.1)':
+    dependencies:
+      '@angular/common': 17.3.0(@angular/core@17.3.0(rxjs@7.8.1))(rxjs@7.8.1)
+      '@angular/core': 17.3.0(rxjs@7.8.1)
+      rxjs: 7.8.1
+      tslib: 2.6.2
+
+  '@angular/common@17.3.0(@angular/core@17.3.0(rxjs@7.8.1))(rxjs@7.8.1)':
+    dependencies:
+      '@angular/core': 17.3.0(rxjs@7.8.1)
+      rxjs: 7.8.1
+      tslib: 2.6.2
+
+  '@angular/core@17.3.0(rxjs@7.8.1)':
+    dependencies:
+      rxjs: 7.8.1
+      tslib: 2.6.2
+
+  rxjs@6.6.7:
+    dependencies:
+      tslib: 2.6.2
+
+  rxjs@7.8.1:
+    dependencies:
+      tslib: 2.6.2
+
+  tslib@2.6.2: {}
+`;
+
+    it('should resolve installed versions from importers and snapshots', () => {
+      const result = new PnpmLockParser().parse(lock, rootPackage);
+
+      expect(result.packages['node_modules/@angular/core'].version).toBe('17.3.0');
+      expect(result.packages['node_modules/@angular/cdk'].integrity).toBe('sha512-cdk');
+      expect(result.packages['node_modules/@angular/common'].version).toBe('17.3.0');
+      expect(result.packages['node_modules/tslib'].version).toBe('2.6.2');
+    });
+
+    it('should record peer resolutions from peer-suffixed keys', () => {
+      const result = new PnpmLockParser().parse(lock, rootPackage);
+
+      expect(result.packages['node_modules/@angular/cdk'].peerResolutions).toEqual({
+        '@angular/common': '17.3.0',
+        '@angular/core': '17.3.0',
+        rxjs: '7.8.1'
+      });
+      expect(result.packages['node_modules/@angular/cdk'].peerDependencies).toEqual({
+        '@angular/common': '^17.0.0 || ^18.0.0',
+        '@angular/core': '^17.0.0 || ^18.0.0',
+        rxjs: '^6.5.3 || ^7.4.0'
+      });
+    });
+
+    it('should lay out other importers as workspaces', () => {
+      const result = new PnpmLockParser().parse(lock, rootPackage);
+
+      expect(result.packages['libs/legacy'].dependencies).toEqual({ rxjs: '^6.6.0' });
+      expect(result.packages['libs/legacy/node_modules/rxjs'].version).toBe('6.6.7');
+      expect(result.packages['node_modules/rxjs'].version).toBe('7.8.1');
+    });
+  });
+
+  describe('v6 format', () => {
+    const lock = `lockfileVersion: '6.0'
+
+dependencies:
+  '@angular/core':
+    specifier: ^17.0.0
+    version: 17.3.0(rxjs@7.8.1)
+  rxjs:
+    specifier: ~7.8.0
+    version: 7.8.1
+
+packages:
+
+  /@angular/core@17.3.0(rxjs@7.8.1):
+    resolution: {integrity: sha512-core}
+    peerDependencies:
+      rxjs: ^6.5.3 || ^7.4.0
+    dependencies:
+      rxjs: 7.8.1
+      tslib: 2.6.2
+    dev: false
+
+  /rxjs@7.8.1:
+    resolution: {integrity: sha512-rxjs7}
+    dependencies:
+      tslib: 2.6.2
+    dev: false
+
+  /tslib@2.6.2:
+    resolution: {integrity: sha512-tslib}
+    dev: false
+`;
+
+    it('should resolve installed versions and peer resolutions', () => {
+      const result = new PnpmLockParser().parse(lock, rootPackage);
+
+      expect(result.packages['node_modules/@angular/core'].version).toBe('17.3.0');
+      expect(result.packages['node_modules/@angular/core'].dependencies).toEqual({
+        rxjs: '7.8.1',
+        tslib: '2.6.2'
+      });
+      expect(result.packages['node_modules/@angular/core'].peerResolutions).toEqual({
+        rxjs: '7.8.1'
+      });
+      expect(result.packages['node_modules/tslib'].version).toBe('2.6.2');
+    });
+  });
+
+  it('should reject documents without lockfileVersion', () => {
+    expect(() => new PnpmLockParser().parse('packages: {}', rootPackage)).toThrow(
+      'missing lockfileVersion'
+    );
+  });
+});
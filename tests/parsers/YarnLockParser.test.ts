@@ -0,0 +1,171 @@
+import { YarnLockParser } from '../../src/parsers/YarnLockParser';
+import { PackageInfo } from '../../src/types';
+
+// The global setup mocks yaml, Berry lock files need the real parser
+jest.unmock('yaml');
+
+describe('YarnLockParser', () => {
+  const rootPackage: PackageInfo = {
+    name: 'test-project',
+    version: '1.0.0',
+    dependencies: {
+      '@angular/core': '^17.0.0',
+      'rxjs': '~7.8.0'
+    },
+    devDependencies: {
+      'legacy-lib': '^1.0.0'
+    }
+  };
+
+  describe('classic v1 format', () => {
+    const classicLock = `# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.
+# yarn lockfile v1
+
+
+"@angular/core@^17.0.0", "@angular/core@^17.3.0":
+  version "17.3.0"
+  resolved "https://registry.yarnpkg.com/@angular/core/-/core-17.3.0.tgz#abc"
+  integrity sha512-core
+  dependencies:
+    tslib "^2.3.0"
+
+"@angular/core@^16.0.0":
+  version "16.2.12"
+  resolved "https://registry.yarnpkg.com/@angular/core/-/core-16.2.12.tgz#def"
+  dependencies:
+    tslib "^2.3.0"
+
+legacy-lib@^1.0.0:
+  version "1.4.0"
+  dependencies:
+    "@angular/core" "^16.0.0"
+
+rxjs@~7.8.0:
+  version "7.8.1"
+  dependencies:
+    tslib "^2.1.0"
+
+tslib@^2.1.0, tslib@^2.3.0:
+  version "2.6.2"
+`;
+
+    it('should resolve installed versions through descriptors', () => {
+      const lock = new YarnLockParser().parse(classicLock, rootPackage);
+
+      expect(lock.packages['node_modules/@angular/core'].version).toBe('17.3.0');
+      expect(lock.packages['node_modules/rxjs'].version).toBe('7.8.1');
+      expect(lock.packages['node_modules/tslib'].version).toBe('2.6.2');
+      expect(lock.packages['node_modules/@angular/core'].integrity).toBe('sha512-core');
+    });
+
+    it('should nest conflicting versions under their dependent', () => {
+      const lock = new YarnLockParser().parse(classicLock, rootPackage);
+
+      expect(lock.packages['node_modules/legacy-lib/node_modules/@angular/core'].version).toBe(
+        '16.2.12'
+      );
+      expect(lock.packages['node_modules/legacy-lib'].dev).toBe(true);
+      expect(lock.packages['node_modules/@angular/core'].dev).toBeUndefined();
+    });
+
+    it('should keep the root package.json as the empty key', () => {
+      const lock = new YarnLockParser().parse(classicLock, rootPackage);
+
+      expect(lock.packages[''].dependencies).toEqual(rootPackage.dependencies);
+      expect(lock.packages[''].devDependencies).toEqual(rootPackage.devDependencies);
+    });
+
+    it('should reject malformed content', () => {
+      expect(() => new YarnLockParser().parse('not a lock file', rootPackage)).toThrow(
+        'Invalid yarn.lock'
+      );
+    });
+  });
+
+  describe('Berry format', () => {
+    const berryLock = `# This file is generated by running "yarn install" inside your project.
+
+__metadata:
+  version: 8
+  cacheKey: 10c0
+
+"@angular/core@npm:^17.0.0":
+  version: 17.3.0
+  resolution: "@angular/core@npm:17.3.0"
+  dependencies:
+    tslib: "npm:^2.3.0"
+  peerDependencies:
+    rxjs: ^6.5.3 || ^7.4.0
+    zone.js: ~0.14.0
+  checksum: 10c0/abc
+  languageName: node
+  linkType: hard
+
+"legacy-lib@npm:^1.0.0":
+  version: 1.4.0
+  resolution: "legacy-lib@npm:1.4.0"
+  peerDependencies:
+    "@angular/platform-server": ^17.0.0
+  peerDependenciesMeta:
+    "@angular/platform-server":
+      optional: true
+  languageName: node
+  linkType: hard
+
+"rxjs@npm:~7.8.0":
+  version: 7.8.1
+  resolution: "rxjs@npm:7.8.1"
+  dependencies:
+    tslib: "npm:^2.1.0"
+  languageName: node
+  linkType: hard
+
+"test-project@workspace:.":
+  version: 0.0.0-use.local
+  resolution: "test-project@workspace:."
+  dependencies:
+    "@angular/core": "npm:^17.0.0"
+    legacy-lib: "npm:^1.0.0"
+    rxjs: "npm:~7.8.0"
+  languageName: unknown
+  linkType: soft
+
+"tslib@npm:^2.1.0, tslib@npm:^2.3.0":
+  version: 2.6.2
+  resolution: "tslib@npm:2.6.2"
+  languageName: node
+  linkType: hard
+`;
+
+    it('should resolve installed versions and peer dependencies', () => {
+      const lock = new YarnLockParser().parse(berryLock, rootPackage);
+
+      expect(lock.packages['node_modules/@angular/core'].version).toBe('17.3.0');
+      expect(lock.packages['node_modules/@angular/core'].dependencies).toEqual({ tslib: '^2.3.0' });
+      expect(lock.packages['node_modules/@angular/core'].peerDependencies).toEqual({
+        rxjs: '^6.5.3 || ^7.4.0',
+        'zone.js': '~0.14.0'
+      });
+      expect(lock.packages['node_modules/tslib'].version).toBe('2.6.2');
+    });
+
+    it('should keep peerDependenciesMeta', () => {
+      const lock = new YarnLockParser().parse(berryLock, rootPackage);
+
+      expect(lock.packages['node_modules/legacy-lib'].peerDependenciesMeta).toEqual({
+        '@angular/platform-server': { optional: true }
+      });
+    });
+
+    it('should skip entries without a version', () => {
+      const lock = new YarnLockParser().parse(
+        berryLock.replace('  version: 7.8.1\n', ''),
+        rootPackage
+      );
+
+      expect(lock.packages['node_modules/rxjs']).toBeUndefined();
+      expect(JSON.stringify(lock)).not.toContain('undefined');
+      expect(lock.packages['node_modules/tslib'].version).toBe('2.6.2');
+    });
+  });
+});
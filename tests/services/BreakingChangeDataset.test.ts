@@ -0,0 +1,47 @@
+jest.unmock('fs');
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { BreakingChangeDataset } from '../../src/services/BreakingChangeDataset';
+
+const DATA_DIR = path.resolve(__dirname, '../../data/breaking-changes');
+
+describe('BreakingChangeDataset', () => {
+  it('covers every major transition from 12 to 21 with unique ids', () => {
+    const dataset = new BreakingChangeDataset(DATA_DIR);
+    const ids = new Set<string>();
+
+    for (let major = 13; major <= 21; major++) {
+      const changes = dataset.getChanges(String(major - 1), String(major));
+
+      expect(changes.length).toBeGreaterThan(0);
+      changes.forEach(change => {
+        expect(change.id.startsWith(`angular-v${major}-`)).toBe(true);
+        expect(change.toVersion).toBe(String(major));
+        expect(ids.has(change.id)).toBe(false);
+        ids.add(change.id);
+      });
+    }
+  });
+
+  it('returns each hop of a multi-major migration', () => {
+    const changes = new BreakingChangeDataset(DATA_DIR).getChanges('14', '16');
+
+    expect([...new Set(changes.map(change => change.toVersion))]).toEqual(['15', '16']);
+  });
+
+  it('ignores files that do not match the schema', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ngma-dataset-'));
+    fs.writeFileSync(path.join(dir, '13.json'), JSON.stringify({ schemaVersion: 2, changes: [] }));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    try {
+      expect(new BreakingChangeDataset(dir).getChanges('12', '13')).toEqual([]);
+      expect(warn).toHaveBeenCalled();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
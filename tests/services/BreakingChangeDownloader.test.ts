@@ -0,0 +1,126 @@
+jest.unmock('fs');
+
+import * as path from 'path';
+
+import { BreakingChangeDataset } from '../../src/services/BreakingChangeDataset';
+import { BreakingChangeDownloader } from '../../src/services/BreakingChangeDownloader';
+import type { BreakingChange } from '../../src/types';
+import { CacheStore } from '../../src/utils/cache/CacheStore';
+import { MemoryCacheBackend } from '../../src/utils/cache/MemoryCacheBackend';
+
+const dataset = new BreakingChangeDataset(path.resolve(__dirname, '../../data/breaking-changes'));
+
+const createCache = (): CacheStore =>
+  new CacheStore(new MemoryCacheBackend(), [], {
+    enabled: true,
+    ttl: 60_000,
+    maxEntries: 100,
+    maxBytes: 1024 * 1024,
+  });
+
+describe('BreakingChangeDownloader', () => {
+  const liveChange: BreakingChange = {
+    id: 'angular-v15-live-change',
+    title: 'From the update guide',
+    description: 'Cached before going offline',
+    impact: 'medium',
+    migration: 'ng update',
+    automated: false,
+    fromVersion: '14',
+    toVersion: '15',
+    category: 'core',
+    sources: ['update-guide'],
+  };
+
+  let fetchSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchSpy = jest.spyOn(global, 'fetch').mockRejectedValue(new Error('network disabled'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('uses the bundled dataset alone in offline mode', async () => {
+    const downloader = new BreakingChangeDownloader(createCache(), dataset, true);
+
+    const changes = await downloader.download('14', '15');
+
+    expect(changes.map(change => change.id)).toContain('angular-v15-material-mdc');
+    expect(downloader.getLastSource()).toBe('fallback');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('reads fresh cache entries in offline mode', async () => {
+    const cache = createCache();
+    cache.set('breaking-changes', 'v2:14-15', [liveChange]);
+    const downloader = new BreakingChangeDownloader(cache, dataset, true);
+
+    const changes = await downloader.download('14', '15');
+
+    expect(changes.map(change => change.id)).toContain('angular-v15-live-change');
+    expect(downloader.getLastSource()).toBe('cache');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('falls back to expired cache entries in offline mode', async () => {
+    const cache = createCache();
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000);
+    cache.set('breaking-changes', 'v2:14-15', [liveChange]);
+    now.mockReturnValue(1_000 + 120_000);
+    const downloader = new BreakingChangeDownloader(cache, dataset, true);
+
+    const changes = await downloader.download('14', '15');
+
+    expect(changes.map(change => change.id)).toEqual(
+      expect.arrayContaining(['angular-v15-live-change', 'angular-v15-material-mdc'])
+    );
+    expect(downloader.getLastSource()).toBe('stale-cache');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('leaves out bundled entries for features the project does not use', async () => {
+    const downloader = new BreakingChangeDownloader(createCache(), dataset, true);
+
+    const changes = await downloader.download('14', '15', {
+      material: false,
+      ssr: false,
+      i18n: false,
+      ngUpgrade: false,
+      complexity: 1,
+      evidence: {},
+    });
+
+    expect(changes.map(change => change.id)).not.toContain('angular-v15-material-mdc');
+    expect(changes.map(change => change.id)).not.toContain('angular-v15-date-pipe-timezone');
+    expect(changes.map(change => change.id)).toContain('angular-v15-node-typescript');
+  });
+
+  it('merges live entries with the bundled ones they duplicate', async () => {
+    const cache = createCache();
+    const live: BreakingChange = {
+      id: 'angular-v14-reactive-forms-strictly-typed-0f3a9c21',
+      title: 'Reactive forms are strictly typed',
+      description: 'From the update guide',
+      impact: 'high',
+      migration: 'ng update',
+      automated: true,
+      fromVersion: '13',
+      toVersion: '14',
+      category: 'forms',
+      sources: ['update-guide'],
+    };
+    cache.set('breaking-changes', 'v2:13-14', [live]);
+
+    const changes = await new BreakingChangeDownloader(cache, dataset).download('13', '14');
+
+    expect(changes[0]).toMatchObject({
+      id: 'angular-v14-typed-forms',
+      description: 'From the update guide',
+      sources: ['update-guide', 'bundled'],
+    });
+    expect(changes.filter(change => change.category === 'forms')).toHaveLength(1);
+    expect(changes.map(change => change.id)).toContain('angular-v14-node-typescript');
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  createBreakingChangeId,
+  mergeBreakingChanges,
+} from '../../src/services/BreakingChangeIdentity';
+import type { BreakingChange } from '../../src/types';
+
+const change = (overrides: Partial<BreakingChange>): BreakingChange => ({
+  id: 'angular-v17-change',
+  title: 'Change',
+  description: 'Change',
+  impact: 'medium',
+  migration: 'Update the code',
+  automated: false,
+  fromVersion: '16',
+  toVersion: '17',
+  category: 'core',
+  ...overrides,
+});
+
+describe('BreakingChangeIdentity', () => {
+  it('derives the same id from the same content', () => {
+    const action = 'Remove `ngModel` from reactive forms. See https://angular.dev/guide/forms';
+    const id = createBreakingChangeId('17', 'Remove `ngModel` from reactive forms', action);
+
+    expect(id).toMatch(/^angular-v17-remove-ngmodel-from-reactive-forms-[0-9a-f]{8}$/);
+    expect(createBreakingChangeId('17.0', 'Remove ngModel from reactive forms', action)).toBe(id);
+    expect(createBreakingChangeId('17', 'Remove ngModel from reactive forms', 'Other')).not.toBe(
+      id
+    );
+  });
+
+  it('merges the same change reported by several sources', () => {
+    const merged = mergeBreakingChanges(
+      [
+        change({
+          id: 'angular-v17-zone-flag-1a2b3c4d',
+          title: 'The zone.js flag was removed',
+          sources: ['update-guide'],
+        }),
+      ],
+      [
+        change({
+          id: 'angular-v17-zone-flag-5e6f7a8b',
+          title: 'Zone.js flag removed',
+          impact: 'high',
+          documentation: 'https://github.com/angular/angular/releases/tag/v17.0.0',
+          sources: ['release-notes'],
+        }),
+      ],
+      [change({ id: 'angular-v17-zone-flag', title: 'Zone.js flag removed', sources: ['bundled'] })]
+    );
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({
+      id: 'angular-v17-zone-flag',
+      title: 'The zone.js flag was removed',
+      impact: 'high',
+      documentation: 'https://github.com/angular/angular/releases/tag/v17.0.0',
+      sources: ['update-guide', 'release-notes', 'bundled'],
+    });
+  });
+
+  it('keeps similar changes listed by the same source or for other majors', () => {
+    const merged = mergeBreakingChanges([
+      change({ id: 'a', title: 'Router guards are functional', sources: ['bundled'] }),
+      change({ id: 'b', title: 'Router guards are now functional', sources: ['bundled'] }),
+      change({
+        id: 'c',
+        title: 'Router guards are functional',
+        toVersion: '18',
+        sources: ['update-guide'],
+      }),
+    ]);
+
+    expect(merged.map(entry => entry.id)).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,118 @@
+jest.unmock('fs');
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+  CompatibilityDatabase,
+  getCompatibilityLayers,
+  validateCompatibilityFile,
+} from '../../src/services/CompatibilityDatabase';
+
+const BUNDLED_FILE = path.resolve(__dirname, '../../data/compatibility/packages.json');
+
+describe('CompatibilityDatabase', () => {
+  let dir: string;
+
+  const write = (name: string, packages: Record<string, unknown>): string => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, JSON.stringify({ schemaVersion: 1, packages }));
+    return file;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ngma-compat-'));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('ships a bundled file that passes validation', () => {
+    const result = validateCompatibilityFile(BUNDLED_FILE);
+
+    expect(result.errors).toEqual([]);
+    expect(result.entries).toBeGreaterThanOrEqual(3);
+  });
+
+  it('flags packages whose target is above maxAngular', () => {
+    const database = new CompatibilityDatabase([{ layer: 'bundled', path: BUNDLED_FILE }]);
+
+    expect(database.getIncompatibility('@angular/flex-layout', 16)).toBe(
+      'Only supports Angular up to version 15'
+    );
+    expect(database.getIncompatibility('@angular/flex-layout', 15)).toBeNull();
+    expect(database.getIncompatibility('unknown-lib', 16)).toBeNull();
+  });
+
+  it('layers organization and project overrides on top of the bundled data', () => {
+    const organization = write('org.json', {
+      '@acme/ui': { majors: { '18': 'approved', '19': 'blocked' } },
+      'ngx-bootstrap': { maxAngular: 19 },
+    });
+    write('ngma.compatibility.json', {
+      '@acme/ui': { majors: { '19': 'approved' }, reason: 'Validated by the checkout team' },
+    });
+
+    const database = new CompatibilityDatabase(
+      getCompatibilityLayers(dir, BUNDLED_FILE, { NGMA_COMPATIBILITY_FILE: organization })
+    );
+
+    expect(database.getEntry('ngx-bootstrap')).toEqual(
+      expect.objectContaining({
+        maxAngular: 19,
+        replacement: 'ng-bootstrap',
+        sources: ['bundled', 'organization'],
+      })
+    );
+    expect(database.getEntry('@acme/ui').majors).toEqual({ '18': 'approved', '19': 'approved' });
+    expect(database.getIncompatibility('@acme/ui', 19)).toBeNull();
+  });
+
+  it('explains which layer blocked a major', () => {
+    const organization = write('org.json', {
+      '@angular/flex-layout': { majors: { '15': 'blocked' } },
+    });
+
+    const database = new CompatibilityDatabase(
+      getCompatibilityLayers(dir, BUNDLED_FILE, { NGMA_COMPATIBILITY_FILE: organization })
+    );
+
+    expect(database.getIncompatibility('@angular/flex-layout', 15)).toBe(
+      'Blocked for Angular 15 by the organization compatibility file'
+    );
+  });
+
+  it('reports schema and consistency errors', () => {
+    const invalid = write('invalid.json', {
+      'legacy-lib': { maxAngular: 14, majors: { '16': 'approved' }, replacement: 'legacy-lib' },
+      'other-lib': { status: 'unknown', migrationGuide: 'not a url' },
+    });
+    const inconsistent = write('inconsistent.json', {
+      'legacy-lib': { maxAngular: 14, majors: { '16': 'approved' }, replacement: 'legacy-lib' },
+    });
+
+    expect(validateCompatibilityFile(invalid).errors).toEqual([
+      expect.stringContaining('packages.other-lib.status'),
+      expect.stringContaining('packages.other-lib.migrationGuide'),
+    ]);
+    expect(validateCompatibilityFile(inconsistent).errors).toEqual([
+      'packages.legacy-lib: the replacement is the package itself',
+      'packages.legacy-lib: approved for Angular 16 but maxAngular is 14',
+    ]);
+  });
+
+  it('ignores invalid override files', () => {
+    fs.writeFileSync(path.join(dir, 'ngma.compatibility.json'), '{ "schemaVersion": 2 }');
+
+    const database = new CompatibilityDatabase(getCompatibilityLayers(dir, BUNDLED_FILE, {}));
+
+    expect(database.getEntry('@angular/http')?.sources).toEqual(['bundled']);
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining('Ignoring invalid compatibility file')
+    );
+  });
+});
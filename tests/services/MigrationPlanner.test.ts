@@ -0,0 +1,73 @@
+import type { UpgradeResolver } from '../../src/analyzers/UpgradeResolver';
+import type { BreakingChangeDownloader } from '../../src/services/BreakingChangeDownloader';
+import { MigrationPlanner } from '../../src/services/MigrationPlanner';
+import type { BreakingChange, UpgradeResolution } from '../../src/types';
+
+describe('MigrationPlanner', () => {
+  const controlFlow: BreakingChange = {
+    id: 'angular-v17-control-flow-preview',
+    title: 'Built-in control flow',
+    description: '@if, @for and @switch',
+    impact: 'low',
+    migration: 'Optionally run ng g @angular/core:control-flow',
+    automated: true,
+    fromVersion: '16',
+    toVersion: '17',
+    category: 'templates',
+  };
+
+  const downloader = {
+    download: jest.fn((from: string, to: string) =>
+      Promise.resolve(to === '17' ? [controlFlow] : [])
+    ),
+    getLastSource: jest.fn(() => 'cache'),
+  };
+
+  const resolver = {
+    resolve: jest.fn(
+      (targetVersion: string): Promise<UpgradeResolution> =>
+        Promise.resolve({
+          targetVersion,
+          satisfiable: true,
+          packageJsonPatch: {},
+          changes: [
+            {
+              package: '@angular/core',
+              section: 'dependencies',
+              from: '^16.2.0',
+              to: `^${targetVersion}.0.0`,
+            },
+          ],
+        })
+    ),
+  };
+
+  const createPlanner = (): MigrationPlanner =>
+    new MigrationPlanner(
+      downloader as unknown as BreakingChangeDownloader,
+      resolver as unknown as UpgradeResolver
+    );
+
+  it('plans one hop per major and resolves each from the previous one', async () => {
+    const hops = await createPlanner().plan('16', '18', { '@angular/material': '^16.2.0' });
+
+    expect(hops.map(hop => `${hop.fromVersion}->${hop.toVersion}`)).toEqual(['16->17', '17->18']);
+    expect(resolver.resolve).toHaveBeenNthCalledWith(2, '18', { '@angular/core': '^17.0.0' });
+    expect(hops[1].requirements?.node).toBe('^18.19.1 || ^20.11.1 || ^22.0.0');
+    expect(hops[0].schematics).toEqual([
+      expect.objectContaining({ command: 'ng update @angular/core@17 @angular/cli@17' }),
+      expect.objectContaining({ command: 'ng update @angular/material@17', optional: false }),
+      {
+        command: 'ng generate @angular/core:control-flow',
+        optional: true,
+        description: 'Built-in control flow',
+      },
+    ]);
+  });
+
+  it('rejects a target that is not above the current major', async () => {
+    await expect(createPlanner().plan('18', '18', {})).rejects.toThrow(
+      'must be a major above the current one'
+    );
+  });
+});
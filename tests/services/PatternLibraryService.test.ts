@@ -0,0 +1,77 @@
+import { PatternLibraryService } from '../../src/services/PatternLibraryService';
+import { CacheStore } from '../../src/utils/cache/CacheStore';
+import { MemoryCacheBackend } from '../../src/utils/cache/MemoryCacheBackend';
+
+const createCache = (): CacheStore =>
+  new CacheStore(new MemoryCacheBackend(), [], {
+    enabled: true,
+    ttl: 60_000,
+    maxEntries: 100,
+    maxBytes: 1024 * 1024,
+  });
+
+const cachedPattern = {
+  id: 'migration-v18-zoneless',
+  name: 'Zoneless',
+  description: 'From the Angular repository',
+  filePattern: '**/*.ts',
+  patterns: ['NgZone'],
+  severity: 'warning' as const,
+  autoFixable: false,
+};
+
+describe('PatternLibraryService', () => {
+  let fetchSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchSpy = jest.spyOn(global, 'fetch').mockRejectedValue(new Error('network disabled'));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('uses the built-in patterns offline, without network access', async () => {
+    const service = new PatternLibraryService(createCache(), true);
+
+    const patterns = await service.fetchPatterns('17', '18');
+
+    expect(patterns.map(pattern => pattern.id)).toContain('control-flow-directives');
+    expect(service.getLastSource()).toBe('fallback');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('prefers an expired cache entry to the built-in patterns offline', async () => {
+    const cache = createCache();
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000);
+    cache.set('patterns', '17-18', [cachedPattern]);
+    now.mockReturnValue(1_000 + 120_000);
+
+    const service = new PatternLibraryService(cache, true);
+    const patterns = await service.fetchPatterns('17', '18');
+
+    expect(patterns).toEqual([cachedPattern]);
+    expect(service.getLastSource()).toBe('stale-cache');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('labels patterns of versions before 17 with the cache they came from', async () => {
+    const cache = createCache();
+    cache.set('patterns', '16-17', [cachedPattern]);
+
+    const service = new PatternLibraryService(cache);
+    const patterns = await service.fetchPatterns('16', '17');
+
+    expect(patterns).toEqual([cachedPattern]);
+    expect(service.getLastSource()).toBe('cache');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('labels versions before 17 without cached patterns as fallback', async () => {
+    const service = new PatternLibraryService(createCache());
+
+    expect(await service.fetchPatterns('16', '17')).toEqual([]);
+    expect(service.getLastSource()).toBe('fallback');
+  });
+});
@@ -0,0 +1,88 @@
+jest.unmock('fs');
+jest.unmock('http');
+
+import * as fs from 'fs';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+
+import { FixtureMissingError } from '../../src/types';
+import {
+  configureHttpFixtures,
+  fetchWithFixtures,
+  fixturePath,
+  resetHttpFixtures,
+} from '../../src/utils/HttpFixtures';
+
+describe('HttpFixtures', () => {
+  let directory: string;
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: string[];
+
+  beforeEach(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ngma-fixtures-'));
+    requests = [];
+    server = http.createServer((req, res) => {
+      requests.push(req.url || '');
+      if (req.url === '/missing') {
+        res.statusCode = 404;
+        res.end('Not Found');
+        return;
+      }
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ path: req.url, steps: ['ng update'] }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    resetHttpFixtures();
+    await new Promise(resolve => server.close(resolve));
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should derive readable and distinct fixture paths', () => {
+    const packument = fixturePath('https://registry.npmjs.org/@angular%2fcore', '/fixtures');
+    const guide = fixturePath('https://example.com/api/updateGuide?from=17.0&to=18.0', '/fixtures');
+    const otherGuide = fixturePath(
+      'https://example.com/api/updateGuide?from=18.0&to=19.0',
+      '/fixtures'
+    );
+
+    expect(packument).toMatch(
+      /^\/fixtures\/registry\.npmjs\.org\/@angular_2fcore-[0-9a-f]{10}\.json$/
+    );
+    expect(guide).toMatch(/^\/fixtures\/example\.com\/api_updateGuide_from_17\.0_to_18\.0-/);
+    expect(guide).not.toBe(otherGuide);
+  });
+
+  it('should replay recorded responses without touching the network', async () => {
+    configureHttpFixtures('record', directory);
+    const recorded = await fetchWithFixtures(`${baseUrl}/api/updateGuide?from=17.0`);
+    const recordedBody = await recorded.json();
+    const missing = await fetchWithFixtures(`${baseUrl}/missing`);
+    expect(missing.status).toBe(404);
+
+    configureHttpFixtures('replay', directory);
+    const replayed = await fetchWithFixtures(`${baseUrl}/api/updateGuide?from=17.0`);
+    const replayedMissing = await fetchWithFixtures(`${baseUrl}/missing`);
+
+    expect(await replayed.json()).toEqual(recordedBody);
+    expect(replayed.ok).toBe(true);
+    expect(replayedMissing.status).toBe(404);
+    expect(await replayedMissing.text()).toBe('Not Found');
+    expect(requests).toEqual(['/api/updateGuide?from=17.0', '/missing']);
+  });
+
+  it('should fail loudly when a response was never recorded', async () => {
+    configureHttpFixtures('replay', directory);
+
+    await expect(fetchWithFixtures(`${baseUrl}/api/updateGuide?from=18.0`)).rejects.toBeInstanceOf(
+      FixtureMissingError
+    );
+    expect(requests).toEqual([]);
+  });
+});
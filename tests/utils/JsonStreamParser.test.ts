@@ -0,0 +1,71 @@
+import { ParseError } from '../../src/types';
+import { JsonStreamParser } from '../../src/utils/JsonStreamParser';
+
+const parseInChunks = (text: string, size: number, parser = new JsonStreamParser()) => {
+  const bytes = Buffer.from(text, 'utf8');
+  for (let i = 0; i < bytes.length; i += size) {
+    parser.write(bytes.subarray(i, i + size));
+  }
+  return parser.end();
+};
+
+describe('JsonStreamParser', () => {
+  const document = {
+    name: '@angular/core',
+    'dist-tags': { latest: '18.2.0', next: '19.0.0-rc.1' },
+    versions: {
+      '18.2.0': {
+        version: '18.2.0',
+        peerDependencies: { rxjs: '^6.5.3 || ^7.4.0', 'zone.js': '~0.14.10' },
+        deprecated: false,
+        dist: { tarball: 'https://registry.npmjs.org/@angular/core/-/core-18.2.0.tgz' },
+      },
+    },
+    keywords: ['angular', 'framework'],
+    readme: 'Quotes " backslashes \\ tabs \t newlines \n unicode é → 🚀 \u0001',
+    empty: { list: [], object: {} },
+    numbers: [0, -1.5, 2e10, 3.25e-2, null, true],
+  };
+
+  it('should match JSON.parse whatever the chunk boundaries', () => {
+    const text = JSON.stringify(document, null, 2);
+
+    for (const size of [1, 2, 3, 7, 64, text.length]) {
+      expect(parseInChunks(text, size)).toEqual(JSON.parse(text));
+    }
+  });
+
+  it('should only build the values accepted by the filter', () => {
+    const parser = new JsonStreamParser(
+      path =>
+        path[0] !== 'readme' &&
+        path[0] !== 'keywords' &&
+        !(path[0] === 'versions' && path[2] === 'dist')
+    );
+
+    const result = parseInChunks(JSON.stringify(document), 5, parser) as typeof document;
+
+    expect(result.readme).toBeUndefined();
+    expect(result.keywords).toBeUndefined();
+    expect(result.versions['18.2.0'].dist).toBeUndefined();
+    expect(result.versions['18.2.0'].peerDependencies).toEqual(
+      document.versions['18.2.0'].peerDependencies
+    );
+    expect(result['dist-tags']).toEqual(document['dist-tags']);
+  });
+
+  it('should keep __proto__ keys as plain properties', () => {
+    const result = parseInChunks('{"__proto__": {"polluted": true}}', 4) as Record<string, unknown>;
+
+    expect(Object.keys(result)).toEqual(['__proto__']);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it('should reject malformed and truncated documents', () => {
+    expect(() => parseInChunks('{"a": 1,}', 3)).toThrow(ParseError);
+    expect(() => parseInChunks('{"a": tru}', 3)).toThrow(ParseError);
+    expect(() => parseInChunks('{"a": [1, 2', 3)).toThrow(ParseError);
+    expect(() => parseInChunks('{"a": "\\x"}', 3)).toThrow(ParseError);
+    expect(() => parseInChunks('{} []', 3)).toThrow(ParseError);
+  });
+});
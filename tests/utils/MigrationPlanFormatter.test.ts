@@ -0,0 +1,177 @@
+import { MigrationHop, MigrationPlan, PackageManager } from '../../src/types';
+import {
+  formatMigrationPlanMarkdown,
+  generateHopScript,
+  hopScriptName,
+} from '../../src/utils/MigrationPlanFormatter';
+
+// chalk is ESM only; the plan formatters only share plain-text helpers with ReportFormatter
+jest.mock('chalk', () => ({ __esModule: true, default: {} }));
+
+describe('MigrationPlanFormatter', () => {
+  const hop: MigrationHop = {
+    fromVersion: '16',
+    toVersion: '17',
+    breakingChanges: [
+      {
+        id: 'bc-1',
+        title: 'Node.js 16 support removed',
+        description: 'Angular 17 requires Node.js 18.13.0 or later',
+        impact: 'high',
+        migration: 'Upgrade Node.js',
+        automated: false,
+        fromVersion: '16',
+        toVersion: '17',
+        category: 'dependencies',
+      },
+    ],
+    requirements: {
+      node: '^18.13.0 || ^20.9.0',
+      typescript: '>=5.2.0 <5.5.0',
+      zoneJs: '~0.14.0',
+      rxjs: '^6.5.3 || ^7.4.0',
+    },
+    peerUpdates: {
+      targetVersion: '17',
+      satisfiable: true,
+      packageJsonPatch: {},
+      changes: [
+        { package: '@angular/core', section: 'dependencies', from: '^16.2.0', to: '17.3.0' },
+        { package: '@ngrx/store', section: 'dependencies', from: '^16.3.0', to: '17.2.0' },
+        { package: '@ngrx/effects', section: 'dependencies', from: '^16.3.0', to: '17.2.0' },
+        { package: '@angular/fire', section: 'dependencies', from: '^7.6.0', to: '^17.1.0' },
+        { package: 'typescript', section: 'devDependencies', from: '~5.1.6', to: '5.4.5' },
+      ],
+    },
+    schematics: [
+      {
+        command: 'ng update @angular/core@17 @angular/cli@17',
+        optional: false,
+        description: 'Update the framework',
+      },
+      {
+        command: 'ng generate @angular/core:control-flow',
+        optional: true,
+        description: 'Migrate to the built-in control flow',
+      },
+    ],
+  };
+
+  const createPlan = (packageManager: PackageManager = 'npm'): MigrationPlan => ({
+    projectPath: '/test/project',
+    fromVersion: '16',
+    toVersion: '17',
+    hops: [hop],
+    packageManager,
+  });
+
+  describe('generateHopScript', () => {
+    it('should install third-party peer updates with npm by default', () => {
+      const script = generateHopScript(createPlan(), hop, 0);
+
+      expect(script).toContain('npx ng update @angular/core@17 @angular/cli@17 --allow-dirty');
+      expect(script).toContain(
+        'npm install "@ngrx/store@17.2.0" "@ngrx/effects@17.2.0" "@angular/fire@^17.1.0"'
+      );
+      expect(script).toContain('npm install --save-dev "typescript@5.4.5"');
+      expect(script).toContain('# npx ng generate @angular/core:control-flow');
+      expect(script).toContain('npm run build');
+      // ng update already moved the framework packages
+      expect(script).not.toContain('@angular/core@17.3.0');
+    });
+
+    it('should use yarn in a yarn project', () => {
+      const script = generateHopScript(createPlan('yarn'), hop, 0);
+
+      expect(script).toContain('yarn ng update @angular/core@17 @angular/cli@17 --allow-dirty');
+      expect(script).toContain(
+        'yarn add "@ngrx/store@17.2.0" "@ngrx/effects@17.2.0" "@angular/fire@^17.1.0"'
+      );
+      expect(script).toContain('yarn add --dev "typescript@5.4.5"');
+      expect(script).toContain('# yarn ng generate @angular/core:control-flow');
+      expect(script).toContain('yarn run build');
+      expect(script).not.toMatch(/\bnp[mx] /);
+    });
+
+    it('should use pnpm in a pnpm project', () => {
+      const script = generateHopScript(createPlan('pnpm'), hop, 0);
+
+      expect(script).toContain(
+        'pnpm exec ng update @angular/core@17 @angular/cli@17 --allow-dirty'
+      );
+      expect(script).toContain('pnpm add "@ngrx/store@17.2.0" "@ngrx/effects@17.2.0"');
+      expect(script).toContain('pnpm add --save-dev "typescript@5.4.5"');
+      expect(script).toContain('# pnpm exec ng generate @angular/core:control-flow');
+      expect(script).toContain('pnpm run build');
+      expect(script).not.toMatch(/\bnp[mx] /);
+    });
+
+    it('should check the Node.js version required by the hop', () => {
+      const script = generateHopScript(createPlan(), hop, 0);
+
+      expect(script).toContain('[18, 13, 0], [20, 9, 0]');
+      expect(script).toContain('Angular 17 requires Node.js ^18.13.0 || ^20.9.0');
+    });
+
+    it('should stop before migrating when the peer dependencies cannot be satisfied', () => {
+      const blocked: MigrationHop = {
+        ...hop,
+        peerUpdates: {
+          targetVersion: '17',
+          satisfiable: false,
+          packageJsonPatch: {},
+          changes: [],
+          unsatisfiable: {
+            package: 'ngx-legacy',
+            reason: 'No version of ngx-legacy supports "Angular 17"',
+            constraints: [],
+          },
+        },
+      };
+
+      const script = generateHopScript(createPlan('yarn'), blocked, 0);
+
+      expect(script).toContain('echo "   No version of ngx-legacy supports \\"Angular 17\\""');
+      expect(script).toContain('exit 1');
+      expect(script).not.toContain('ng update');
+      expect(script).not.toContain('yarn add');
+    });
+  });
+
+  describe('formatMigrationPlanMarkdown', () => {
+    it('should describe each hop with its script, peer updates and breaking changes', () => {
+      const markdown = formatMigrationPlanMarkdown(createPlan());
+
+      expect(markdown).toContain('# Angular Migration Plan: 16 → 17');
+      expect(markdown).toContain('**Hops:** 16 → 17');
+      expect(markdown).toContain('## 1. Angular 16 → 17');
+      expect(markdown).toContain(`Script: \`${hopScriptName(hop, 0)}\``);
+      expect(markdown).toContain('- Node.js: `^18.13.0 || ^20.9.0`');
+      expect(markdown).toContain('| @ngrx/store | `^16.3.0` | `17.2.0` |');
+      expect(markdown).toContain(
+        '- `ng generate @angular/core:control-flow` _(optional)_: Migrate to the built-in control flow'
+      );
+      expect(markdown).toContain('### Breaking Changes (1)');
+      expect(markdown).toContain('- **Node.js 16 support removed** [high]: Upgrade Node.js');
+    });
+
+    it('should warn about sections built from bundled or expired data', () => {
+      const markdown = formatMigrationPlanMarkdown({
+        ...createPlan(),
+        metadata: {
+          timestamp: '2025-06-01T00:00:00.000Z',
+          offline: true,
+          networkAccessible: false,
+          sources: { breakingChanges: 'fallback', dependencies: 'cache' },
+        },
+      });
+
+      expect(markdown).toContain('> ⚠️ Breaking changes: bundled data');
+      expect(markdown).not.toContain('Dependencies:');
+    });
+  });
+
+  it('should name hop scripts in execution order', () => {
+    expect(hopScriptName(hop, 0)).toBe('01-angular-16-to-17.sh');
+  });
+});
@@ -0,0 +1,129 @@
+jest.unmock('fs');
+jest.unmock('http');
+
+import * as fs from 'fs';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+
+import type { AnalyzerConfig } from '../../src/types';
+import { createCacheStore } from '../../src/utils/cache/CacheStore';
+import { NpmRegistryClient } from '../../src/utils/NpmRegistryClient';
+
+describe('NpmRegistryClient', () => {
+  let server: http.Server;
+  let projectRoot: string;
+  let requests: http.IncomingHttpHeaders[];
+  let config: AnalyzerConfig;
+
+  const packument = {
+    name: 'rxjs',
+    'dist-tags': { latest: '7.8.1' },
+    versions: {
+      '7.8.1': {
+        name: 'rxjs',
+        version: '7.8.1',
+        dependencies: { tslib: '^2.1.0' },
+        dist: { tarball: 'https://registry.npmjs.org/rxjs/-/rxjs-7.8.1.tgz', shasum: 'abc' },
+      },
+    },
+    readme: 'a very long readme',
+  };
+
+  beforeEach(async () => {
+    requests = [];
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'ngma-registry-'));
+    process.env.NPM_CONFIG_USERCONFIG = path.join(projectRoot, 'missing-npmrc');
+
+    server = http.createServer((req, res) => {
+      requests.push(req.headers);
+      if (req.headers['if-none-match'] === '"v1"') {
+        res.statusCode = 304;
+        res.end();
+        return;
+      }
+      res.setHeader('ETag', '"v1"');
+      res.setHeader('Last-Modified', 'Tue, 01 Oct 2024 10:00:00 GMT');
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(packument));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    config = {
+      registry: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      timeout: 5000,
+      retries: 0,
+      maxConcurrentRequests: 1,
+      network: { strictSSL: true, timeout: 5000 },
+      cache: {
+        enabled: true,
+        ttl: 300000,
+        maxSize: 10,
+        persistToDisk: false,
+        diskCachePath: '.cache',
+      },
+      analysis: {
+        includeDevDependencies: true,
+        checkVulnerabilities: false,
+        skipOptionalPeerDeps: false,
+        excludePackages: [],
+        offlineMode: false,
+      },
+    };
+  });
+
+  afterEach(async () => {
+    delete process.env.NPM_CONFIG_USERCONFIG;
+    await new Promise(resolve => server.close(resolve));
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should request abbreviated packuments and keep only the fields analyzers read', async () => {
+    const client = new NpmRegistryClient(config, projectRoot);
+
+    const info = await client.getPackageInfo('rxjs');
+
+    expect(requests[requests.length - 1].accept).toContain('application/vnd.npm.install-v1+json');
+    expect(info).toEqual({
+      name: 'rxjs',
+      'dist-tags': { latest: '7.8.1' },
+      versions: {
+        '7.8.1': { name: 'rxjs', version: '7.8.1', dependencies: { tslib: '^2.1.0' } },
+      },
+    });
+  });
+
+  it('should revalidate expired entries with their ETag', async () => {
+    const client = new NpmRegistryClient(
+      { ...config, cache: { ...config.cache, ttl: -1 } },
+      projectRoot
+    );
+
+    const first = await client.getPackageInfo('rxjs');
+    const second = await client.getPackageInfo('rxjs');
+
+    expect(requests[requests.length - 1]['if-none-match']).toBe('"v1"');
+    expect(requests[requests.length - 1]['if-modified-since']).toBe(
+      'Tue, 01 Oct 2024 10:00:00 GMT'
+    );
+    expect(second).toEqual(first);
+    expect(client.getLookupStats().revalidated).toBe(1);
+  });
+
+  it('should answer from expired cache entries in offline mode without any request', async () => {
+    const cache = createCacheStore({ ...config.cache, ttl: -1 }, projectRoot);
+    await new NpmRegistryClient(config, projectRoot, cache).getPackageInfo('rxjs');
+    const requestCount = requests.length;
+
+    const offlineConfig = { ...config, analysis: { ...config.analysis, offlineMode: true } };
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const client = new NpmRegistryClient(offlineConfig, projectRoot, cache);
+
+    expect((await client.getPackageInfo('rxjs'))?.name).toBe('rxjs');
+    expect(await client.getPackageInfo('zone.js')).toBeNull();
+    expect(requests).toHaveLength(requestCount);
+    expect(client.isNetworkAccessible()).toBe(false);
+    expect(client.getLookupStats()).toMatchObject({ stale: 1, failedLookups: 1 });
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  authorizationForRegistry,
+  expandEnv,
+  parseNpmrc,
+  registryForPackage,
+} from '../../src/utils/Npmrc';
+
+describe('Npmrc', () => {
+  it('should parse key/value pairs and skip comments', () => {
+    const config = parseNpmrc(`
+# corporate network
+; legacy comment
+https-proxy = http://proxy.corp.local:3128
+noproxy=localhost,.corp.local
+strict-ssl=false
+cafile="/etc/ssl/corp-ca.pem"
+`);
+
+    expect(config).toEqual({
+      'https-proxy': 'http://proxy.corp.local:3128',
+      noproxy: 'localhost,.corp.local',
+      'strict-ssl': 'false',
+      cafile: '/etc/ssl/corp-ca.pem',
+    });
+  });
+
+  it('should join array keys with new lines', () => {
+    const config = parseNpmrc('ca[]=first-cert\nca[]=second-cert\n');
+
+    expect(config.ca).toBe('first-cert\nsecond-cert');
+  });
+
+  it('should expand environment variables', () => {
+    const env = { NPM_TOKEN: 'secret', HOST: 'npm.acme.io' };
+
+    expect(expandEnv('${NPM_TOKEN}', env)).toBe('secret');
+    expect(expandEnv('//${HOST}/:_authToken', env)).toBe('//npm.acme.io/:_authToken');
+    expect(expandEnv('\\${NPM_TOKEN}', env)).toBe('${NPM_TOKEN}');
+    expect(expandEnv('${MISSING}', env)).toBe('${MISSING}');
+  });
+
+  describe('registries and credentials', () => {
+    const artifactory = 'https://acme.jfrog.io/artifactory/api/npm/npm-virtual/';
+    let config: ReturnType<typeof parseNpmrc>;
+
+    beforeEach(() => {
+      process.env.ACME_TOKEN = 'acme-token';
+      config = parseNpmrc(`
+@acme:registry=${artifactory}
+//acme.jfrog.io/artifactory/api/npm/:_authToken=\${ACME_TOKEN}
+_authToken=public-token
+`);
+    });
+
+    afterEach(() => {
+      delete process.env.ACME_TOKEN;
+    });
+
+    it('should resolve scoped registries', () => {
+      expect(registryForPackage(config, '@acme/ui-kit')).toBe(artifactory);
+      expect(registryForPackage(config, '@angular/core')).toBe('https://registry.npmjs.org/');
+      expect(registryForPackage({ registry: 'https://npm.acme.io' }, 'rxjs')).toBe(
+        'https://npm.acme.io/'
+      );
+    });
+
+    it('should pick the most specific credentials for a registry', () => {
+      expect(authorizationForRegistry(config, artifactory)).toBe('Bearer acme-token');
+      expect(authorizationForRegistry(config, 'https://registry.npmjs.org/')).toBe(
+        'Bearer public-token'
+      );
+      expect(authorizationForRegistry(config, 'https://other.example.com/')).toBeUndefined();
+    });
+
+    it('should send global credentials everywhere with always-auth', () => {
+      const legacy = parseNpmrc('registry=https://npm.acme.io/\n_auth=dXNlcjpwYXNz\n');
+
+      expect(authorizationForRegistry(legacy, 'https://npm.acme.io/')).toBe('Basic dXNlcjpwYXNz');
+      expect(authorizationForRegistry(legacy, 'https://mirror.acme.io/')).toBeUndefined();
+      expect(
+        authorizationForRegistry({ ...legacy, 'always-auth': 'true' }, 'https://mirror.acme.io/')
+      ).toBe('Basic dXNlcjpwYXNz');
+    });
+
+    it('should encode username and password credentials', () => {
+      const basic = parseNpmrc(
+        `//npm.acme.io/:username=ci\n//npm.acme.io/:_password=${Buffer.from('pa55').toString('base64')}`
+      );
+
+      expect(authorizationForRegistry(basic, 'https://npm.acme.io/')).toBe(
+        `Basic ${Buffer.from('ci:pa55').toString('base64')}`
+      );
+    });
+  });
+});
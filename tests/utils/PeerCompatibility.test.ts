@@ -0,0 +1,116 @@
+import { ValidationError } from '../../src/types';
+import {
+  acceptsTarget,
+  acceptsVersion,
+  findLowestCompatibleVersion,
+  resolveTargetVersion,
+} from '../../src/utils/PeerCompatibility';
+import { NpmPackageInfo } from '../../src/utils/NpmRegistryClient';
+
+describe('PeerCompatibility', () => {
+  const packageInfo = {
+    name: 'ngx-charts-lib',
+    'dist-tags': { latest: '5.1.0', next: '5.0.0-rc.0' },
+    versions: {
+      '3.0.0': {
+        name: 'ngx-charts-lib',
+        version: '3.0.0',
+        peerDependencies: { '@angular/core': '^16.0.0' },
+      },
+      '4.0.0': {
+        name: 'ngx-charts-lib',
+        version: '4.0.0',
+        peerDependencies: { '@angular/core': '^16.0.0 || ^17.0.0' },
+      },
+      '4.1.0': {
+        name: 'ngx-charts-lib',
+        version: '4.1.0',
+        peerDependencies: { '@angular/core': '>=17.0.0 <19.0.0' },
+        deprecated: 'Broken build',
+      },
+      '5.0.0-rc.0': {
+        name: 'ngx-charts-lib',
+        version: '5.0.0-rc.0',
+        peerDependencies: { '@angular/core': '^18.0.0' },
+      },
+      '5.1.0': {
+        name: 'ngx-charts-lib',
+        version: '5.1.0',
+        peerDependencies: { '@angular/core': '^17.0.0 || ^18.0.0' },
+      },
+    },
+    time: {},
+  } as unknown as NpmPackageInfo;
+
+  describe('acceptsVersion', () => {
+    it('should evaluate prerelease targets against stable ranges', () => {
+      expect(acceptsVersion('^18.0.0', '18.0.0-rc.1')).toBe(true);
+      expect(acceptsVersion('^17.0.0', '18.0.0')).toBe(false);
+    });
+
+    it('should reject missing or invalid ranges', () => {
+      expect(acceptsVersion(undefined, '18.0.0')).toBe(false);
+      expect(acceptsVersion('not a range', '18.0.0')).toBe(false);
+    });
+  });
+
+  describe('acceptsTarget', () => {
+    it('should accept a range that covers part of a major-only target', () => {
+      expect(acceptsTarget('>=18.1.0', '18')).toBe(true);
+      expect(acceptsTarget('^17.0.0', '18')).toBe(false);
+    });
+
+    it('should check exact targets as versions', () => {
+      expect(acceptsTarget('>=18.1.0', '18.0.0')).toBe(false);
+      expect(acceptsTarget('^18.0.0', '18.0.0-rc.1')).toBe(true);
+    });
+  });
+
+  describe('findLowestCompatibleVersion', () => {
+    it('should return the first version whose peer range accepts the target', () => {
+      const result = findLowestCompatibleVersion(packageInfo, '@angular/core', '17.0.0', '3.0.0');
+
+      expect(result?.version).toBe('4.0.0');
+    });
+
+    it('should skip deprecated versions and prereleases', () => {
+      const result = findLowestCompatibleVersion(packageInfo, '@angular/core', '18.0.0', '4.0.0');
+
+      expect(result?.version).toBe('5.1.0');
+    });
+
+    it('should return null when no version supports the target', () => {
+      expect(findLowestCompatibleVersion(packageInfo, '@angular/core', '19.0.0')).toBeNull();
+    });
+  });
+
+  describe('resolveTargetVersion', () => {
+    it('should return majors as is, with or without a v prefix', () => {
+      expect(resolveTargetVersion('19', null)).toBe('19');
+      expect(resolveTargetVersion(' v20 ', packageInfo)).toBe('20');
+    });
+
+    it('should resolve dist-tags through the packument', () => {
+      expect(resolveTargetVersion('next', packageInfo)).toBe('5.0.0-rc.0');
+      expect(resolveTargetVersion('latest', packageInfo)).toBe('5.1.0');
+    });
+
+    it('should accept exact versions only when they are published', () => {
+      expect(resolveTargetVersion('5.0.0-rc.0', packageInfo)).toBe('5.0.0-rc.0');
+      expect(resolveTargetVersion('v5.0.0-rc.0', null)).toBe('5.0.0-rc.0');
+      expect(() => resolveTargetVersion('5.0.0-rc.9', packageInfo)).toThrow(
+        'ngx-charts-lib@5.0.0-rc.9 is not published'
+      );
+    });
+
+    it('should reject unknown tags, tags without a packument and invalid targets', () => {
+      expect(() => resolveTargetVersion('beta', packageInfo)).toThrow(
+        'ngx-charts-lib has no "beta" dist-tag (available: latest, next)'
+      );
+      expect(() => resolveTargetVersion('next', null)).toThrow(ValidationError);
+      expect(() => resolveTargetVersion('^19.0.0', packageInfo)).toThrow(
+        'Invalid target version "^19.0.0"'
+      );
+    });
+  });
+});
@@ -0,0 +1,80 @@
+jest.unmock('fs');
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import type { BreakingChange, ProjectFeatures } from '../../src/types';
+import { appliesToProject, detectProjectFeatures } from '../../src/utils/ProjectFeatures';
+
+const basic: ProjectFeatures = {
+  material: false,
+  ssr: false,
+  i18n: false,
+  ngUpgrade: false,
+  complexity: 1,
+  evidence: {},
+};
+
+describe('ProjectFeatures', () => {
+  let root: string;
+
+  const write = (file: string, content: unknown): void => {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(
+      path.join(root, file),
+      typeof content === 'string' ? content : JSON.stringify(content)
+    );
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'ngma-features-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('detects features from package.json, angular.json and the sources', () => {
+    write('package.json', {
+      dependencies: { '@angular/core': '^17.0.0', '@angular/cdk': '^17.0.0' },
+    });
+    write('angular.json', {
+      projects: {
+        app: {
+          sourceRoot: 'src',
+          architect: { server: { builder: '@angular-devkit/build-angular:server' } },
+        },
+      },
+    });
+    write('src/app/app.component.html', '<h1 i18n="@@title">Hello</h1>');
+
+    const features = detectProjectFeatures(root);
+
+    expect(features).toMatchObject({ material: true, ssr: true, i18n: true, ngUpgrade: false });
+    expect(features.complexity).toBe(1);
+    expect(features.evidence).toMatchObject({
+      material: 'package.json: @angular/cdk',
+      ssr: 'angular.json: app.architect.server',
+      i18n: `source: ${path.join('src', 'app', 'app.component.html')}`,
+    });
+  });
+
+  it('treats hybrid AngularJS applications as advanced', () => {
+    write('package.json', { dependencies: { '@angular/core': '^17.0.0' } });
+    write('src/main.ts', "import { UpgradeModule } from '@angular/upgrade/static';");
+
+    expect(detectProjectFeatures(root)).toMatchObject({ ngUpgrade: true, complexity: 3 });
+  });
+
+  it('skips changes for unused features and higher complexity levels', () => {
+    const change = { id: 'c', title: 'Change' } as BreakingChange;
+
+    expect(appliesToProject(change, basic)).toBe(true);
+    expect(appliesToProject({ ...change, features: ['material'] }, basic)).toBe(false);
+    expect(
+      appliesToProject({ ...change, features: ['material'] }, { ...basic, material: true })
+    ).toBe(true);
+    expect(appliesToProject({ ...change, complexity: 3 }, { ...basic, complexity: 2 })).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import { NetworkError, ParseError } from '../../src/types';
+import {
+  backoffDelay,
+  isRetryableError,
+  parseRetryAfter,
+  withRetry,
+} from '../../src/utils/RetryPolicy';
+
+describe('RetryPolicy', () => {
+  it('should only retry transient failures', () => {
+    expect(isRetryableError(new NetworkError('busy', 429))).toBe(true);
+    expect(isRetryableError(new NetworkError('unavailable', 503))).toBe(true);
+    expect(isRetryableError(new NetworkError('reset', 'ECONNRESET'))).toBe(true);
+    expect(isRetryableError(new NetworkError('not found', 404))).toBe(false);
+    expect(isRetryableError(new NetworkError('unknown host', 'ENOTFOUND'))).toBe(false);
+    expect(isRetryableError(new ParseError('bad json'))).toBe(false);
+  });
+
+  it('should parse Retry-After seconds and dates', () => {
+    const now = Date.parse('2024-05-01T10:00:00Z');
+
+    expect(parseRetryAfter('120', now)).toBe(120000);
+    expect(parseRetryAfter('Wed, 01 May 2024 10:00:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+  });
+
+  it('should grow the delay exponentially with jitter', () => {
+    expect(backoffDelay(0, 500, 30000, () => 0)).toBe(250);
+    expect(backoffDelay(0, 500, 30000, () => 1)).toBe(500);
+    expect(backoffDelay(3, 500, 30000, () => 1)).toBe(4000);
+    expect(backoffDelay(10, 500, 30000, () => 1)).toBe(30000);
+  });
+
+  describe('withRetry', () => {
+    let clock: number;
+    let delays: number[];
+
+    const options = (overrides = {}) => ({
+      retries: 3,
+      maxRetryTime: 60000,
+      random: () => 1,
+      now: () => clock,
+      sleep: async (ms: number) => {
+        delays.push(ms);
+        clock += ms;
+      },
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      clock = 0;
+      delays = [];
+    });
+
+    it('should retry with backoff until the request succeeds', async () => {
+      const request = jest
+        .fn()
+        .mockRejectedValueOnce(new NetworkError('busy', 503))
+        .mockRejectedValueOnce(new NetworkError('reset', 'ECONNRESET'))
+        .mockResolvedValue('ok');
+
+      await expect(withRetry(request, options())).resolves.toBe('ok');
+      expect(request).toHaveBeenCalledTimes(3);
+      expect(delays).toEqual([500, 1000]);
+    });
+
+    it('should wait for Retry-After instead of the computed delay', async () => {
+      const request = jest
+        .fn()
+        .mockRejectedValueOnce(new NetworkError('busy', 429, 7000))
+        .mockResolvedValue('ok');
+
+      await withRetry(request, options());
+      expect(delays).toEqual([7000]);
+    });
+
+    it('should give up on permanent errors and exhausted budgets', async () => {
+      const notFound = jest.fn().mockRejectedValue(new NetworkError('not found', 404));
+      await expect(withRetry(notFound, options())).rejects.toMatchObject({ code: 404 });
+      expect(notFound).toHaveBeenCalledTimes(1);
+
+      const throttled = jest.fn().mockRejectedValue(new NetworkError('busy', 429, 45000));
+      await expect(withRetry(throttled, options())).rejects.toMatchObject({ code: 429 });
+      expect(throttled).toHaveBeenCalledTimes(2);
+
+      const unavailable = jest.fn().mockRejectedValue(new NetworkError('down', 503));
+      await expect(withRetry(unavailable, options({ retries: 2 }))).rejects.toMatchObject({
+        code: 503,
+      });
+      expect(unavailable).toHaveBeenCalledTimes(3);
+    });
+  });
+});
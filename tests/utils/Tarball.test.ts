@@ -0,0 +1,54 @@
+jest.unmock('fs');
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+import { packTarball, unpackTarball } from '../../src/utils/Tarball';
+
+describe('Tarball', () => {
+  const mtime = new Date('2024-05-01T10:00:00Z');
+
+  it('round-trips files, including paths longer than 100 bytes', () => {
+    const longPath = `packuments/${'%40scope%2F'.repeat(12)}package.json`;
+    const archive = packTarball([
+      { path: 'packuments/rxjs.json', content: Buffer.from('{"a":1}'), mtime },
+      { path: longPath, content: Buffer.alloc(600, 'x'), mtime },
+    ]);
+
+    const entries = unpackTarball(archive);
+
+    expect(entries.map(entry => entry.path)).toEqual(['packuments/rxjs.json', longPath]);
+    expect(entries[0].content.toString()).toBe('{"a":1}');
+    expect(entries[1].content.length).toBe(600);
+    expect(entries[1].mtime).toEqual(mtime);
+  });
+
+  it('writes archives readable by tar', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ngma-tar-'));
+    const file = path.join(dir, 'cache.tgz');
+    fs.writeFileSync(
+      file,
+      packTarball([{ path: 'breaking-changes/17-18.json', content: Buffer.from('[]'), mtime }])
+    );
+
+    try {
+      expect(execFileSync('tar', ['tzf', file], { encoding: 'utf-8' }).trim()).toBe(
+        'breaking-changes/17-18.json'
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects a corrupted header', () => {
+    const archive = zlib.gunzipSync(
+      packTarball([{ path: 'a.json', content: Buffer.from('{}'), mtime }])
+    );
+    archive[10] = 0x41;
+
+    expect(() => unpackTarball(archive)).toThrow('corrompue');
+  });
+});
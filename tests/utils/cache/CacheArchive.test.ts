@@ -0,0 +1,93 @@
+jest.unmock('fs');
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ParseError } from '../../../src/types';
+import { exportCache, importCache } from '../../../src/utils/cache/CacheArchive';
+import { CacheStore } from '../../../src/utils/cache/CacheStore';
+import { FileCacheBackend } from '../../../src/utils/cache/FileCacheBackend';
+import { packTarball } from '../../../src/utils/Tarball';
+
+const options = { enabled: true, ttl: 60_000, maxEntries: 100, maxBytes: 1024 * 1024 };
+
+describe('CacheArchive', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'ngma-archive-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('moves entries between caches with their original dates', () => {
+    const source = new CacheStore(new FileCacheBackend(path.join(root, 'online')), [], options);
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    source.set(
+      'packuments',
+      '@angular/core',
+      { name: '@angular/core' },
+      { meta: { etag: '"v1"' } }
+    );
+    source.set('breaking-changes', '17-18', []);
+    now.mockRestore();
+
+    const archive = path.join(root, 'cache.tgz');
+    expect(exportCache(source, archive)).toBe(2);
+
+    const target = new CacheStore(new FileCacheBackend(path.join(root, 'offline')), [], options);
+    expect(importCache(target, archive)).toEqual({ imported: 2, skipped: 0 });
+
+    const record = target.getRecord('packuments', '@angular/core');
+    expect(record?.value).toEqual({ name: '@angular/core' });
+    expect(record?.storedAt).toBe(1_000_000);
+    expect(record?.meta).toEqual({ etag: '"v1"' });
+    expect(target.list().map(entry => entry.storedAt)).toEqual([1_000_000, 1_000_000]);
+  });
+
+  it('keeps local entries that are newer than the archive', () => {
+    const source = new CacheStore(new FileCacheBackend(path.join(root, 'online')), [], options);
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    source.set('packuments', 'rxjs', { version: 'old' });
+    now.mockRestore();
+    const archive = path.join(root, 'cache.tgz');
+    exportCache(source, archive);
+
+    const target = new CacheStore(new FileCacheBackend(path.join(root, 'offline')), [], options);
+    target.set('packuments', 'rxjs', { version: 'new' });
+
+    expect(importCache(target, archive)).toEqual({ imported: 0, skipped: 1 });
+    expect(target.get('packuments', 'rxjs')).toEqual({ version: 'new' });
+  });
+
+  it('rejects archive entries that would be written outside the cache', () => {
+    const project = path.join(root, 'project');
+    const cacheDir = path.join(project, '.migration-cache');
+    const target = new CacheStore(new FileCacheBackend(cacheDir), [], options);
+    target.set('packuments', 'rxjs', { version: '7.8.1' });
+    fs.writeFileSync(path.join(project, 'package.json'), '{"name":"app"}');
+
+    const record = Buffer.from(JSON.stringify({ value: { pwned: true }, storedAt: Date.now() }));
+    for (const entryPath of [
+      '../package.json',
+      'packuments/..%2F..%2Fpackage.json',
+      '..%2F/x.json',
+    ]) {
+      const archive = path.join(root, 'crafted.tgz');
+      fs.writeFileSync(
+        archive,
+        packTarball([{ path: entryPath, content: record, mtime: new Date() }])
+      );
+
+      expect(() => importCache(target, archive)).toThrow(ParseError);
+    }
+
+    expect(fs.readFileSync(path.join(project, 'package.json'), 'utf-8')).toBe('{"name":"app"}');
+    expect(() => target.restore('..', 'package', { value: {}, storedAt: 0, size: 2 })).toThrow(
+      ParseError
+    );
+  });
+});
@@ -0,0 +1,100 @@
+jest.unmock('fs');
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { BundleCacheBackend, type CacheBundle } from '../../../src/utils/cache/BundleCacheBackend';
+import { CacheStore } from '../../../src/utils/cache/CacheStore';
+import { FileCacheBackend } from '../../../src/utils/cache/FileCacheBackend';
+import { MemoryCacheBackend } from '../../../src/utils/cache/MemoryCacheBackend';
+
+const options = { enabled: true, ttl: 60_000, maxEntries: 100, maxBytes: 1024 * 1024 };
+
+describe('CacheStore', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'ngma-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('keeps namespaces apart and clears them separately', () => {
+    const store = new CacheStore(new MemoryCacheBackend(), [], options);
+
+    store.set('packuments', 'rxjs', { name: 'rxjs' });
+    store.set('breaking-changes', 'rxjs', ['change']);
+    store.clear('packuments');
+
+    expect(store.get('packuments', 'rxjs')).toBeNull();
+    expect(store.get('breaking-changes', 'rxjs')).toEqual(['change']);
+  });
+
+  it('stores one file per key on disk and lists them', () => {
+    const store = new CacheStore(new FileCacheBackend(root), [], options);
+
+    store.set('packuments', '@angular/core', { name: '@angular/core' }, { meta: { etag: '"v1"' } });
+
+    const reopened = new CacheStore(new FileCacheBackend(root), [], options);
+    expect(reopened.getRecord('packuments', '@angular/core')?.meta).toEqual({ etag: '"v1"' });
+    expect(reopened.list().map(entry => entry.key)).toEqual(['@angular/core']);
+    expect(fs.readdirSync(path.join(root, 'packuments'))).toEqual(['%40angular%2Fcore.json']);
+  });
+
+  it('falls back to a read-only bundle', () => {
+    const bundlePath = path.join(root, 'bundle.json');
+    const bundle: CacheBundle = {
+      version: 1,
+      createdAt: new Date().toISOString(),
+      entries: {
+        packuments: { rxjs: { value: { name: 'rxjs' }, storedAt: Date.now(), size: 15 } },
+      },
+    };
+    fs.writeFileSync(bundlePath, JSON.stringify(bundle));
+
+    const store = new CacheStore(
+      new MemoryCacheBackend(),
+      [new BundleCacheBackend(bundlePath)],
+      options
+    );
+
+    expect(store.get('packuments', 'rxjs')).toEqual({ name: 'rxjs' });
+    expect(store.list()[0].source).toBe('bundle');
+  });
+
+  it('evicts the oldest entries beyond maxBytes', () => {
+    const now = jest.spyOn(Date, 'now');
+    const store = new CacheStore(new MemoryCacheBackend(), [], { ...options, maxBytes: 30 });
+
+    now.mockReturnValue(1000);
+    store.set('packuments', 'old', 'x'.repeat(10));
+    now.mockReturnValue(2000);
+    store.set('packuments', 'new', 'y'.repeat(10));
+    now.mockReturnValue(3000);
+    store.set('packuments', 'newer', 'z'.repeat(10));
+    now.mockRestore();
+
+    expect(store.list().map(entry => entry.key)).toEqual(['new', 'newer']);
+  });
+
+  it('prunes entries older than the given age', () => {
+    const store = new CacheStore(new MemoryCacheBackend(), [], options);
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    store.set('packuments', 'old', 1);
+    now.mockRestore();
+    store.set('packuments', 'fresh', 2);
+
+    expect(store.prune(60_000)).toBe(1);
+    expect(store.list().map(entry => entry.key)).toEqual(['fresh']);
+  });
+
+  it('never clears a directory it did not create', () => {
+    fs.writeFileSync(path.join(root, 'package.json'), '{}');
+    new FileCacheBackend(root).clear();
+
+    expect(fs.existsSync(path.join(root, 'package.json'))).toBe(true);
+  });
+});